@@ -0,0 +1,42 @@
+#!/usr/bin/env bash
+
+set -e
+
+# Points the Telegram bot at this deployment and makes Telegram sign every update with a secret.
+# Usage: scripts/telegram-webhook.sh https://<public host>
+# Reuses TELEGRAM_WEBHOOK_SECRET when it is set, otherwise generates a new one that has to be
+# saved as TELEGRAM_WEBHOOK_SECRET before the bot accepts any updates.
+
+BASE_URL="${1:-${WEBHOOK_BASE_URL}}"
+if [[ -z "${BASE_URL}" ]]; then
+    echo "Usage: $0 https://<public host>" >&2
+    exit 1
+fi
+if [[ -z "${TELEGRAM_BOT_TOKEN}" ]]; then
+    echo "TELEGRAM_BOT_TOKEN is not set" >&2
+    exit 1
+fi
+
+SECRET="${TELEGRAM_WEBHOOK_SECRET}"
+if [[ -z "${SECRET}" ]]; then
+    # Telegram allows only A-Z, a-z, 0-9, "_" and "-" in the secret, so hex fits
+    SECRET="$(node -e 'process.stdout.write(require("node:crypto").randomBytes(32).toString("hex"))')"
+    GENERATED=1
+fi
+
+WEBHOOK_URL="${BASE_URL%/}/webhooks/telegram/action"
+RESPONSE="$(curl -sS -X POST "https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/setWebhook" \
+    -H 'Content-Type: application/json' \
+    -d "{\"url\": \"${WEBHOOK_URL}\", \"secret_token\": \"${SECRET}\", \"allowed_updates\": [\"message\", \"callback_query\", \"poll_answer\"]}")"
+echo "${RESPONSE}"
+
+if [[ "${RESPONSE}" != *'"ok":true'* ]]; then
+    echo "setWebhook failed" >&2
+    exit 1
+fi
+
+echo "Webhook set to ${WEBHOOK_URL}"
+if [[ -n "${GENERATED}" ]]; then
+    echo "Save this secret as TELEGRAM_WEBHOOK_SECRET and restart the bot:"
+    echo "${SECRET}"
+fi
@@ -7,6 +7,9 @@ import {
   timestamp,
   boolean,
   jsonb,
+  unique,
+  date,
+  time,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
@@ -15,6 +18,12 @@ export const groups = pgTable("groups", {
   id: serial("id").primaryKey(),
   groupName: text("group_name").notNull().unique(),
   description: text("description"),
+  // Dates typed by and shown to the group's members are in its time zone and locale
+  timezone: text("timezone").notNull().default("Europe/Moscow"),
+  locale: text("locale").notNull().default("ru-RU"),
+  // ISO weekday the week starts on: 1 = Monday ... 7 = Sunday
+  weekStart: integer("week_start").notNull().default(1),
+  archivedAt: timestamp("archived_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -33,10 +42,70 @@ export const students = pgTable("students", {
     .default("student")
     .$type<"student" | "admin" | "monitor" | "owner">(),
   isActive: boolean("is_active").default(true),
+  // Opt-in morning digest: delivery time and the last day it went out
+  digestEnabled: boolean("digest_enabled").notNull().default(false),
+  digestTime: time("digest_time").notNull().default("07:30"),
+  digestLastSentOn: date("digest_last_sent_on", { mode: "string" }),
+  // Language chosen with /lang; when empty the bot follows the last language_code Telegram reported
+  language: text("language"),
+  telegramLanguageCode: text("telegram_language_code"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Additional group memberships (language, elective and other subgroups).
+// The student's primary group stays in students.groupId.
+export const groupMemberships = pgTable(
+  "group_memberships",
+  {
+    id: serial("id").primaryKey(),
+    studentId: integer("student_id")
+      .notNull()
+      .references(() => students.id, { onDelete: "cascade" }),
+    groupId: integer("group_id")
+      .notNull()
+      .references(() => groups.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("group_memberships_student_group_unique").on(
+      table.studentId,
+      table.groupId,
+    ),
+  ],
+);
+
+// Class roster: who is allowed to register, and with which group and initial access level
+export const roster = pgTable("roster", {
+  id: serial("id").primaryKey(),
+  studentId: text("student_id").notNull().unique(),
+  firstName: text("first_name"),
+  lastName: text("last_name"),
+  groupId: integer("group_id")
+    .notNull()
+    .references(() => groups.id),
+  accessLevel: text("access_level")
+    .notNull()
+    .default("student")
+    .$type<"student" | "admin" | "monitor" | "owner">(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Single-use registration codes, handed out as t.me/<bot>?start=<code> links
+export const inviteCodes = pgTable("invite_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  rosterId: integer("roster_id")
+    .notNull()
+    .references(() => roster.id, { onDelete: "cascade" }),
+  createdBy: integer("created_by").references(() => students.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedByTelegramId: bigint("used_by_telegram_id", { mode: "number" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Homework table
 export const homework = pgTable("homework", {
   id: serial("id").primaryKey(),
@@ -48,12 +117,328 @@ export const homework = pgTable("homework", {
   createdBy: integer("created_by").references(() => students.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  // Soft delete: hidden from students, restorable until purged
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: integer("deleted_by").references(() => students.id),
+  templateId: integer("template_id").references(() => homeworkTemplates.id, {
+    onDelete: "set null",
+  }),
 });
 
-// User sessions table
-export const userSessions = pgTable("user_sessions", {
+// Recurring homework: a scheduled job turns each occurrence into a concrete homework row ahead of time.
+// "weekly" repeats on `weekdays` (1 = Monday), "interval" every `intervalDays` from `startDate`,
+// "lesson" is due at every timetable lesson of `subject` in the group.
+export const homeworkTemplates = pgTable("homework_templates", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id")
+    .notNull()
+    .references(() => groups.id),
+  title: text("title").notNull(),
+  description: text("description"),
+  subject: text("subject"),
+  recurrence: text("recurrence")
+    .$type<"weekly" | "interval" | "lesson">()
+    .notNull(),
+  weekdays: integer("weekdays").array(),
+  intervalDays: integer("interval_days"),
+  startDate: date("start_date", { mode: "string" }).notNull(),
+  dueTime: time("due_time"),
+  leadDays: integer("lead_days").notNull().default(7),
+  // Last date occurrences were created for
+  generatedUntil: date("generated_until", { mode: "string" }),
+  pausedAt: timestamp("paused_at"),
+  createdBy: integer("created_by").references(() => students.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Files attached to homework (Telegram file_ids, re-sent as-is when students view the assignment)
+export const homeworkAttachments = pgTable("homework_attachments", {
+  id: serial("id").primaryKey(),
+  homeworkId: integer("homework_id")
+    .notNull()
+    .references(() => homework.id, { onDelete: "cascade" }),
+  fileId: text("file_id").notNull(),
+  fileType: text("file_type").$type<"document" | "photo">().notNull(),
+  fileName: text("file_name"),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Album items waiting to be picked up: Telegram delivers each file of a media group as its own update
+export const pendingAttachments = pgTable("pending_attachments", {
   id: serial("id").primaryKey(),
   telegramUserId: bigint("telegram_user_id", { mode: "number" }).notNull(),
+  mediaGroupId: text("media_group_id").notNull(),
+  messageId: bigint("message_id", { mode: "number" }).notNull(),
+  fileId: text("file_id").notNull(),
+  fileType: text("file_type").$type<"document" | "photo">().notNull(),
+  fileName: text("file_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Deadline reminders already sent; the unique key makes sending idempotent across retries and restarts
+export const homeworkReminders = pgTable(
+  "homework_reminders",
+  {
+    id: serial("id").primaryKey(),
+    homeworkId: integer("homework_id")
+      .notNull()
+      .references(() => homework.id, { onDelete: "cascade" }),
+    studentId: integer("student_id")
+      .notNull()
+      .references(() => students.id),
+    offsetMinutes: integer("offset_minutes").notNull(),
+    sentAt: timestamp("sent_at").defaultNow().notNull(),
+  },
+  (table) => [
+    unique("homework_reminders_homework_student_offset_unique").on(
+      table.homeworkId,
+      table.studentId,
+      table.offsetMinutes,
+    ),
+  ],
+);
+
+// Homework edit history: one row per edit, `changes` maps field name to { from, to }
+export const homeworkRevisions = pgTable("homework_revisions", {
+  id: serial("id").primaryKey(),
+  homeworkId: integer("homework_id")
+    .notNull()
+    .references(() => homework.id, { onDelete: "cascade" }),
+  editedBy: integer("edited_by").references(() => students.id),
+  changes: jsonb("changes")
+    .$type<Record<string, { from: unknown; to: unknown }>>()
+    .notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Homework submissions table (one row per student per homework, resubmission overwrites)
+export const submissions = pgTable(
+  "submissions",
+  {
+    id: serial("id").primaryKey(),
+    homeworkId: integer("homework_id")
+      .notNull()
+      .references(() => homework.id, { onDelete: "cascade" }),
+    studentId: integer("student_id")
+      .notNull()
+      .references(() => students.id),
+    content: text("content"),
+    fileId: text("file_id"),
+    fileType: text("file_type").$type<"document" | "photo">(),
+    fileName: text("file_name"),
+    submittedAt: timestamp("submitted_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("submissions_homework_student_unique").on(
+      table.homeworkId,
+      table.studentId,
+    ),
+  ],
+);
+
+// Grades table (one grade per student per homework)
+export const grades = pgTable(
+  "grades",
+  {
+    id: serial("id").primaryKey(),
+    homeworkId: integer("homework_id")
+      .notNull()
+      .references(() => homework.id, { onDelete: "cascade" }),
+    studentId: integer("student_id")
+      .notNull()
+      .references(() => students.id),
+    grade: integer("grade").notNull(),
+    comment: text("comment"),
+    gradedBy: integer("graded_by").references(() => students.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("grades_homework_student_unique").on(
+      table.homeworkId,
+      table.studentId,
+    ),
+  ],
+);
+
+// Attendance table (one mark per student per group per day)
+export const attendance = pgTable(
+  "attendance",
+  {
+    id: serial("id").primaryKey(),
+    groupId: integer("group_id")
+      .notNull()
+      .references(() => groups.id),
+    date: date("date", { mode: "string" }).notNull(),
+    studentId: integer("student_id")
+      .notNull()
+      .references(() => students.id),
+    status: text("status").notNull().$type<"present" | "absent" | "late">(),
+    note: text("note"),
+    markedBy: integer("marked_by").references(() => students.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("attendance_group_date_student_unique").on(
+      table.groupId,
+      table.date,
+      table.studentId,
+    ),
+  ],
+);
+
+// Weekly timetable (weekday: 1 = Monday ... 7 = Sunday)
+export const lessons = pgTable("lessons", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id")
+    .notNull()
+    .references(() => groups.id),
+  weekday: integer("weekday").notNull(),
+  startTime: time("start_time").notNull(),
+  endTime: time("end_time"),
+  subject: text("subject").notNull(),
+  room: text("room"),
+  teacher: text("teacher"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One-off timetable changes for a specific date
+export const lessonOverrides = pgTable("lesson_overrides", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id")
+    .notNull()
+    .references(() => groups.id),
+  date: date("date", { mode: "string" }).notNull(),
+  lessonId: integer("lesson_id").references(() => lessons.id, {
+    onDelete: "cascade",
+  }),
+  kind: text("kind").notNull().$type<"cancel" | "replace" | "extra">(),
+  startTime: time("start_time"),
+  endTime: time("end_time"),
+  subject: text("subject"),
+  room: text("room"),
+  teacher: text("teacher"),
+  note: text("note"),
+  createdBy: integer("created_by").references(() => students.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Audit log of mutating actions (who did what to which record, with before/after snapshots)
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => students.id, {
+    onDelete: "set null",
+  }),
+  actorTelegramId: bigint("actor_telegram_id", { mode: "number" }),
+  action: text("action").notNull(),
+  targetType: text("target_type").notNull(),
+  targetId: text("target_id"),
+  groupId: integer("group_id").references(() => groups.id, {
+    onDelete: "set null",
+  }),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Announcements sent verbatim to every active member of one or more groups
+export const broadcasts = pgTable("broadcasts", {
+  id: serial("id").primaryKey(),
+  senderId: integer("sender_id").references(() => students.id),
+  text: text("text").notNull(),
+  groupIds: integer("group_ids").array().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One row per recipient. "sending" is claimed right before the Telegram call, so a retried
+// delivery never messages the same student twice; "blocked" means the bot can't reach the user.
+// A delivery stuck in "sending" (the worker died mid-call) turns "unknown": it may or may not have arrived.
+export const broadcastDeliveries = pgTable(
+  "broadcast_deliveries",
+  {
+    id: serial("id").primaryKey(),
+    broadcastId: integer("broadcast_id")
+      .notNull()
+      .references(() => broadcasts.id, { onDelete: "cascade" }),
+    studentId: integer("student_id")
+      .notNull()
+      .references(() => students.id),
+    status: text("status")
+      .$type<
+        "pending" | "sending" | "sent" | "blocked" | "failed" | "unknown"
+      >()
+      .notNull()
+      .default("pending"),
+    error: text("error"),
+    messageId: bigint("message_id", { mode: "number" }),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("broadcast_deliveries_broadcast_student_unique").on(
+      table.broadcastId,
+      table.studentId,
+    ),
+  ],
+);
+
+// Native Telegram polls. Every student gets their own poll message (with its own Telegram poll_id),
+// votes from all of them are collected under one poll.
+export const polls = pgTable("polls", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id")
+    .notNull()
+    .references(() => groups.id),
+  question: text("question").notNull(),
+  options: text("options").array().notNull(),
+  allowsMultipleAnswers: boolean("allows_multiple_answers")
+    .notNull()
+    .default(false),
+  createdBy: integer("created_by").references(() => students.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  closedAt: timestamp("closed_at"),
+});
+
+export const pollMessages = pgTable("poll_messages", {
+  id: serial("id").primaryKey(),
+  pollId: integer("poll_id")
+    .notNull()
+    .references(() => polls.id, { onDelete: "cascade" }),
+  studentId: integer("student_id")
+    .notNull()
+    .references(() => students.id),
+  telegramPollId: text("telegram_poll_id").notNull().unique(),
+  chatId: bigint("chat_id", { mode: "number" }).notNull(),
+  messageId: bigint("message_id", { mode: "number" }).notNull(),
+});
+
+// Current answer of each student; retracting a vote deletes the row
+export const pollVotes = pgTable(
+  "poll_votes",
+  {
+    id: serial("id").primaryKey(),
+    pollId: integer("poll_id")
+      .notNull()
+      .references(() => polls.id, { onDelete: "cascade" }),
+    studentId: integer("student_id")
+      .notNull()
+      .references(() => students.id),
+    optionIds: integer("option_ids").array().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("poll_votes_poll_student_unique").on(table.pollId, table.studentId),
+  ],
+);
+
+// User sessions table; one active session per user
+export const userSessions = pgTable("user_sessions", {
+  id: serial("id").primaryKey(),
+  telegramUserId: bigint("telegram_user_id", { mode: "number" })
+    .notNull()
+    .unique(),
   sessionData: jsonb("session_data"),
   expiresAt: timestamp("expires_at"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -63,6 +448,12 @@ export const userSessions = pgTable("user_sessions", {
 export const groupsRelations = relations(groups, ({ many }) => ({
   students: many(students),
   homework: many(homework),
+  attendance: many(attendance),
+  lessons: many(lessons),
+  lessonOverrides: many(lessonOverrides),
+  roster: many(roster),
+  memberships: many(groupMemberships),
+  homeworkTemplates: many(homeworkTemplates),
 }));
 
 export const studentsRelations = relations(students, ({ one, many }) => ({
@@ -70,10 +461,43 @@ export const studentsRelations = relations(students, ({ one, many }) => ({
     fields: [students.groupId],
     references: [groups.id],
   }),
-  createdHomework: many(homework),
+  createdHomework: many(homework, { relationName: "homeworkCreator" }),
+  memberships: many(groupMemberships),
+  submissions: many(submissions),
+  grades: many(grades, { relationName: "gradeStudent" }),
+  attendance: many(attendance, { relationName: "attendanceStudent" }),
+}));
+
+export const groupMembershipsRelations = relations(
+  groupMemberships,
+  ({ one }) => ({
+    student: one(students, {
+      fields: [groupMemberships.studentId],
+      references: [students.id],
+    }),
+    group: one(groups, {
+      fields: [groupMemberships.groupId],
+      references: [groups.id],
+    }),
+  }),
+);
+
+export const rosterRelations = relations(roster, ({ one, many }) => ({
+  group: one(groups, {
+    fields: [roster.groupId],
+    references: [groups.id],
+  }),
+  inviteCodes: many(inviteCodes),
+}));
+
+export const inviteCodesRelations = relations(inviteCodes, ({ one }) => ({
+  rosterEntry: one(roster, {
+    fields: [inviteCodes.rosterId],
+    references: [roster.id],
+  }),
 }));
 
-export const homeworkRelations = relations(homework, ({ one }) => ({
+export const homeworkRelations = relations(homework, ({ one, many }) => ({
   group: one(groups, {
     fields: [homework.groupId],
     references: [groups.id],
@@ -81,5 +505,194 @@ export const homeworkRelations = relations(homework, ({ one }) => ({
   creator: one(students, {
     fields: [homework.createdBy],
     references: [students.id],
+    relationName: "homeworkCreator",
+  }),
+  deleter: one(students, {
+    fields: [homework.deletedBy],
+    references: [students.id],
+  }),
+  submissions: many(submissions),
+  grades: many(grades),
+  revisions: many(homeworkRevisions),
+  attachments: many(homeworkAttachments),
+  reminders: many(homeworkReminders),
+  template: one(homeworkTemplates, {
+    fields: [homework.templateId],
+    references: [homeworkTemplates.id],
+  }),
+}));
+
+export const homeworkTemplatesRelations = relations(
+  homeworkTemplates,
+  ({ one, many }) => ({
+    group: one(groups, {
+      fields: [homeworkTemplates.groupId],
+      references: [groups.id],
+    }),
+    creator: one(students, {
+      fields: [homeworkTemplates.createdBy],
+      references: [students.id],
+    }),
+    homework: many(homework),
+  }),
+);
+
+export const homeworkAttachmentsRelations = relations(
+  homeworkAttachments,
+  ({ one }) => ({
+    homework: one(homework, {
+      fields: [homeworkAttachments.homeworkId],
+      references: [homework.id],
+    }),
+  }),
+);
+
+export const homeworkRevisionsRelations = relations(
+  homeworkRevisions,
+  ({ one }) => ({
+    homework: one(homework, {
+      fields: [homeworkRevisions.homeworkId],
+      references: [homework.id],
+    }),
+    editor: one(students, {
+      fields: [homeworkRevisions.editedBy],
+      references: [students.id],
+    }),
+  }),
+);
+
+export const homeworkRemindersRelations = relations(
+  homeworkReminders,
+  ({ one }) => ({
+    homework: one(homework, {
+      fields: [homeworkReminders.homeworkId],
+      references: [homework.id],
+    }),
+    student: one(students, {
+      fields: [homeworkReminders.studentId],
+      references: [students.id],
+    }),
+  }),
+);
+
+export const submissionsRelations = relations(submissions, ({ one }) => ({
+  homework: one(homework, {
+    fields: [submissions.homeworkId],
+    references: [homework.id],
+  }),
+  student: one(students, {
+    fields: [submissions.studentId],
+    references: [students.id],
+  }),
+}));
+
+export const gradesRelations = relations(grades, ({ one }) => ({
+  homework: one(homework, {
+    fields: [grades.homeworkId],
+    references: [homework.id],
+  }),
+  student: one(students, {
+    fields: [grades.studentId],
+    references: [students.id],
+    relationName: "gradeStudent",
+  }),
+  grader: one(students, {
+    fields: [grades.gradedBy],
+    references: [students.id],
+  }),
+}));
+
+export const attendanceRelations = relations(attendance, ({ one }) => ({
+  group: one(groups, {
+    fields: [attendance.groupId],
+    references: [groups.id],
+  }),
+  student: one(students, {
+    fields: [attendance.studentId],
+    references: [students.id],
+    relationName: "attendanceStudent",
+  }),
+  marker: one(students, {
+    fields: [attendance.markedBy],
+    references: [students.id],
+  }),
+}));
+
+export const lessonsRelations = relations(lessons, ({ one, many }) => ({
+  group: one(groups, {
+    fields: [lessons.groupId],
+    references: [groups.id],
+  }),
+  overrides: many(lessonOverrides),
+}));
+
+export const lessonOverridesRelations = relations(
+  lessonOverrides,
+  ({ one }) => ({
+    group: one(groups, {
+      fields: [lessonOverrides.groupId],
+      references: [groups.id],
+    }),
+    lesson: one(lessons, {
+      fields: [lessonOverrides.lessonId],
+      references: [lessons.id],
+    }),
+  }),
+);
+
+export const broadcastsRelations = relations(broadcasts, ({ one, many }) => ({
+  sender: one(students, {
+    fields: [broadcasts.senderId],
+    references: [students.id],
+  }),
+  deliveries: many(broadcastDeliveries),
+}));
+
+export const broadcastDeliveriesRelations = relations(
+  broadcastDeliveries,
+  ({ one }) => ({
+    broadcast: one(broadcasts, {
+      fields: [broadcastDeliveries.broadcastId],
+      references: [broadcasts.id],
+    }),
+    student: one(students, {
+      fields: [broadcastDeliveries.studentId],
+      references: [students.id],
+    }),
+  }),
+);
+
+export const pollsRelations = relations(polls, ({ one, many }) => ({
+  group: one(groups, {
+    fields: [polls.groupId],
+    references: [groups.id],
+  }),
+  creator: one(students, {
+    fields: [polls.createdBy],
+    references: [students.id],
+  }),
+  messages: many(pollMessages),
+  votes: many(pollVotes),
+}));
+
+export const pollMessagesRelations = relations(pollMessages, ({ one }) => ({
+  poll: one(polls, {
+    fields: [pollMessages.pollId],
+    references: [polls.id],
+  }),
+  student: one(students, {
+    fields: [pollMessages.studentId],
+    references: [students.id],
+  }),
+}));
+
+export const pollVotesRelations = relations(pollVotes, ({ one }) => ({
+  poll: one(polls, {
+    fields: [pollVotes.pollId],
+    references: [polls.id],
+  }),
+  student: one(students, {
+    fields: [pollVotes.studentId],
+    references: [students.id],
   }),
 }));
@@ -0,0 +1,495 @@
+import type { Catalog } from "./index";
+
+export const en: Catalog = {
+  // Shared
+  "common.dbError": "Database connection error",
+  "common.userNotFound": "User not found in the database",
+  "common.notRegistered":
+    "You are not registered yet. Ask your class admin for an invite link or send /register.",
+  "common.dialogFinished": "This dialog has already finished.",
+  "common.groupNotFound": "Group not found",
+  "common.noGroup": "No group assigned",
+  "common.unknownGroup": "Unknown",
+  "common.severalGroups":
+    "You are in several groups (IDs {groups}). Please specify the group.",
+  "common.studentNotFound": 'Student "{studentId}" not found',
+  "common.registeredStudentNotFound":
+    'Registered student "{studentId}" not found',
+
+  // Wizards
+  "wizard.back": "◀️ Back",
+  "wizard.cancel": "✖️ Cancel",
+  "wizard.save": "✅ Save",
+  "wizard.skip": "Skip",
+  "wizard.confirmQuestion": "Is everything correct?",
+  "wizard.timedOut":
+    '⏱ Time is up, "{title}" was cancelled. Start again when you are ready.',
+  "wizard.cancelled": '✖️ "{title}" cancelled.',
+  "wizard.cannotSkip": "This step can't be skipped",
+
+  // Wizard: adding homework
+  "hwWizard.title": "New homework",
+  "hwWizard.staffOnly": "Only monitors and admins can add homework.",
+  "hwWizard.askTitle":
+    "What is the assignment called? For example: <i>Ex. 215–220</i>",
+  "hwWizard.titleLength": "The title must be 1 to 200 characters long",
+  "hwWizard.askSubject": "Which subject?",
+  "hwWizard.askGroup": "Which group is it for? Send its number:",
+  "hwWizard.unknownGroup": "There is no such group in the list",
+  "hwWizard.askDueDate":
+    "When is it due? For example: <i>by Friday</i>, <i>in a week</i>, <i>next lesson</i>, <i>25.10 18:00</i>",
+  "hwWizard.summaryTitle": "Title: {value}",
+  "hwWizard.summarySubject": "Subject: {value}",
+  "hwWizard.summaryDueDate": "Due: {value}",
+  "hwWizard.summaryGroup": "Group: {value}",
+  "hwWizard.open": "Open",
+
+  // Wizard: registration
+  "regWizard.title": "Registration",
+  "regWizard.alreadyRegistered": "You are already registered. Profile: /me",
+  "regWizard.askCode":
+    "Send the invite code from your admin (or the whole invite link).",
+  "regWizard.badCode": "This doesn't look like an invite code",
+  "regWizard.askName":
+    'What name should we use? Send your first and last name, or press "Skip" to take it from the class list.',
+  "regWizard.nameRequired": "Send your first and last name",
+  "regWizard.summaryCode": "Invite code: <code>{code}</code>",
+  "regWizard.summaryName": "Name: {name}",
+  "regWizard.nameFromRoster": "from the class list",
+  "regWizard.commandsHint": "Commands: /help",
+
+  // Due dates
+  "dueDate.hint":
+    'For example: "by Friday", "tomorrow at 9:00", "in a week", "next lesson" or "25.10 18:00".',
+  "dueDate.unknown": 'Couldn\'t understand the due date "{input}". {hint}',
+  "dueDate.dayPassed":
+    "The date {date} has already passed. Give a date in the future. {hint}",
+  "dueDate.todayOrNextWeek":
+    "Today is {weekday}. Is it due today ({today}) or in a week ({nextWeek})? Please give the date.",
+  "dueDate.weekdayPassed":
+    "{weekday} of this week has already passed. Please give the date.",
+  "dueDate.lessonSubject": "The next lesson of which subject?",
+  "dueDate.lessonNotFound":
+    'Couldn\'t find the next "{subject}" lesson in the timetable. Please give the due date.',
+  "dueDate.inPast": "{date} has already passed. Give a date in the future.",
+
+  // Commands
+  "command.start": "Get started",
+  "command.help": "List of commands",
+  "command.me": "My profile and groups",
+  "command.hw": "Homework",
+  "command.hwAdd": "Add homework (monitors and admins)",
+  "command.hwDel": "Delete homework by number (monitors and admins)",
+  "command.announce": "Announcement to a group (monitors and admins)",
+  "command.register": "Register with an invite code",
+  "command.lang": "Bot language",
+  "command.cancel": "Cancel the current dialog",
+  "command.hwAddUsage":
+    "Format: <code>/hw_add subject; title; due date; description</code>\nThe due date and description are optional. For example:\n<code>/hw_add Maths; Ex. 215-220; by Friday</code>\nOr just send /hw_add and the bot will ask step by step.",
+  "command.profileStudentId": "Student number: {value}",
+  "command.profileGroup": "Group: {value}",
+  "command.profileNoGroup": "not assigned",
+  "command.profileAdditional": "Additional groups: {value}",
+  "command.profileRole": "Role: {value}",
+  "command.helpTitle": "<b>Commands</b>",
+  "command.helpMe": "/me — my profile and groups",
+  "command.helpHw": "/hw — homework",
+  "command.helpHwAdd": "/hw_add — add homework (step by step or in one line)",
+  "command.helpHwDel": "/hw_del &lt;number&gt; — delete homework",
+  "command.helpAnnounce":
+    "/announce &lt;group ID&gt; &lt;text&gt; — announcement to a group, sent exactly as written",
+  "command.helpLang": "/lang — bot language",
+  "command.helpFreeText": "For anything else, just write a normal message.",
+  "command.welcomeUnregistered":
+    "Hi! 👋 To use the bot, register with the invite link from your class admin, or send /register and enter the code from it.\nYour Telegram ID: <code>{telegramUserId}</code>",
+  "command.welcome": "Hi! 👋",
+  "command.ownerClaimed":
+    "👑 You are now the class owner. Next: create a group, add students to the roster (one by one or from CSV) and give them invite links — just tell me what to do.",
+  "command.hwTitle": "📚 <b>Homework</b>",
+  "command.hwDue": "due {date}",
+  "command.severalGroups":
+    "You are in several groups ({groups}). Write the homework as a normal message and say which group it is for.",
+  "command.nothingToCancel": "There is nothing to cancel.",
+  "command.hwDelUsage": "Give the homework number: <code>/hw_del 12</code>",
+  "command.announceUsage":
+    "Format: <code>/announce group_ID text</code> (several groups separated by commas: <code>/announce 1,2 text</code>). Up to 3500 characters, sent to students exactly as written. /me shows your group ID.",
+  "command.langChoose": "Choose the bot language. Current: {current}",
+  "command.langChanged": "Done, I'll speak English from now on.",
+  "command.langUnknown":
+    "This language isn't available. Available: {languages}",
+
+  // Button actions
+  "button.homeworkNotFound": "Homework not found",
+  "button.subject": "Subject: {value}",
+  "button.group": "Group: {value}",
+  "button.dueDate": "Due: {value}",
+  "button.restore": "↩️ Restore",
+  "button.closePoll": "🔒 Close poll",
+  "button.pressed": "Button pressed: {data}",
+
+  // Registration
+  "registration.codeNotFound":
+    "Invite code not found. Ask your admin for a new link.",
+  "registration.alreadyRegistered": "You are already registered!",
+  "registration.studentIdTaken":
+    'Student ID "{studentId}" is already used by another Telegram user.',
+  "registration.telegramTaken":
+    'Your Telegram account is already linked to student ID "{studentId}".',
+  "registration.codeUsed":
+    "This invite code has already been used. Ask your admin for a new link.",
+  "registration.codeExpired":
+    "This invite code has expired. Ask your admin for a new link.",
+  "registration.defaultName": "student",
+  "registration.welcome":
+    'Welcome! You are registered as {name} in the group "{groupName}".',
+  "registration.error": "Registration failed. Please try again later.",
+
+  // Verification
+  "verification.notFound": "You are not in the class database. Access denied.",
+  "verification.inactive":
+    "Your student account is deactivated. Please contact an admin.",
+  "verification.welcome": "Welcome, {name}! Your group: {groupName}",
+  "verification.additionalGroups": ". Additional groups: {groups}",
+  "verification.error": "Verification failed. Please try again later.",
+
+  // Homework
+  "homework.noAddPermission":
+    "You don't have permission to add homework. Please ask a monitor or an admin.",
+  "homework.ownGroupsOnlyAdd": "You can only add homework to your own groups",
+  "homework.chooseGroup": "Which group is the homework for? {groups}",
+  "homework.groupUnknown": "Couldn't determine the group for the homework",
+  "homework.added": 'Homework "{title}" was added for the group "{groupName}".',
+  "homework.addedDue": " Due: {date}.",
+  "homework.addedFiles": " Files attached: {count}.",
+  "homework.addError": "Failed to create the homework",
+  "homework.found": "Homework found: {count}",
+  "homework.filesSent": ", files sent: {count}",
+  "homework.noneFound": "No homework found",
+  "homework.viewError": "Failed to load homework",
+  "homework.noDeletePermission":
+    "You don't have permission to delete homework. Please ask a monitor or an admin.",
+  "homework.notFound": "Homework not found",
+  "homework.movedToTrash":
+    'Homework "{title}" was moved to the trash. It can be restored within {days} days.',
+  "homework.deleteError": "Failed to delete the homework",
+  "homework.trashStaffOnly": "Only monitors and admins can see the trash.",
+  "homework.trashCount": "Homework in the trash: {count}",
+  "homework.trashEmpty": "The trash is empty",
+  "homework.trashError": "Failed to load the trash",
+  "homework.noRestorePermission":
+    "You don't have permission to restore homework. Please ask a monitor or an admin.",
+  "homework.notInTrash": "Homework not found in the trash",
+  "homework.ownGroupOnlyRestore":
+    "You can only restore homework of your own group.",
+  "homework.ownGroupOnlyDelete":
+    "You can only delete homework of your own group.",
+  "homework.restored": 'Homework "{title}" was restored.',
+  "homework.restoreError": "Failed to restore the homework",
+  "homework.field.title": "Title",
+  "homework.field.description": "Description",
+  "homework.field.subject": "Subject",
+  "homework.field.dueDate": "Due date",
+  "homework.field.groupId": "Group",
+  "homework.noEditPermission":
+    "You don't have permission to edit homework. Please ask a monitor or an admin.",
+  "homework.ownGroupsOnlyEdit": "You can only edit homework of your own groups",
+  "homework.groupNotFoundOrArchived": "The group was not found or is archived",
+  "homework.nothingChanged":
+    "The new values are the same as the current ones, nothing to change.",
+  "homework.changedNotice": "✏️ Homework changed: <b>{title}</b>",
+  "homework.updated":
+    'Homework "{title}" was updated ({fields}). Students notified: {notified}.',
+  "homework.updateError": "Failed to edit the homework",
+  "homework.historyStaffOnly":
+    "Only monitors and admins can see the edit history.",
+  "homework.ownGroupsOnlyHistory":
+    "You can only see the edit history of your own groups' homework",
+  "homework.revisionCount": "Changes: {count}",
+  "homework.neverChanged": "This homework has not been changed",
+  "homework.historyError": "Failed to load the edit history",
+  "homework.attachStaffOnly":
+    "Only monitors and admins can attach files to homework.",
+  "homework.noFiles":
+    "No files to attach. Send a photo or a document with your message.",
+  "homework.filesAttached": 'Files attached to "{title}": {count}.',
+  "homework.attachError": "Failed to attach the files",
+
+  // Polls
+  "poll.tally":
+    '"{question}"{closed}: {voters} of {recipients} voted. {options}',
+  "poll.closedMark": " (closed)",
+  "poll.notFound": "Poll not found",
+  "poll.staffOnly": "Only monitors and admins can create polls.",
+  "poll.ownGroupsOnly": "Monitors can only create polls in their own groups",
+  "poll.sent":
+    'Poll #{id} was sent to {sent} of {total} students of the group "{groupName}".',
+  "poll.createError": "Failed to create the poll",
+  "poll.resultsError": "Failed to load the poll results",
+  "poll.alreadyClosed": "The poll is already closed. {tally}",
+  "poll.closed": "The poll is closed. {tally}",
+  "poll.closeError": "Failed to close the poll",
+
+  // Deadline reminders
+  "reminder.hours": "{count} h",
+  "reminder.minutes": "{count} min",
+  "reminder.text": "⏰ <b>{title}</b>{subject} is due in {left}, on {date}.",
+
+  // Daily digest
+  "digest.greeting": "☀️ Good morning{name}! Your digest for {day}:",
+  "digest.lessonsToday": "<b>Lessons today:</b>",
+  "digest.lessonChanged": " (changed)",
+  "digest.dueToday": "<b>Due today:</b>",
+  "digest.dueTomorrow": "<b>Due tomorrow:</b>",
+  "digest.overdue": "<b>Overdue:</b>",
+  "digest.andMore": "and {count} more",
+
+  // Roles
+  "role.student": "student",
+  "role.monitor": "monitor",
+  "role.admin": "admin",
+  "role.owner": "owner",
+  "role.noPermission":
+    "You don't have permission to change roles. Please contact an admin.",
+  "role.alreadyHas": '{name} already has the role "{role}".',
+  "role.adminLimits":
+    "Admins can only appoint and remove monitors. Other roles are changed by the owner.",
+  "role.ownGroupsOnly": "You can only appoint monitors in your own groups.",
+  "role.lastOwner":
+    "The last owner can't be demoted. Appoint another owner first.",
+  "role.groupSuffix": ' (group "{groupName}")',
+  "role.changedNotice":
+    "🔑 Your role was changed: {from} → <b>{to}</b>{group}.",
+  "role.changed": "{name}'s role: {from} → {to}.",
+  "role.notified": " The user was notified.",
+  "role.notNotified": " Couldn't notify the user.",
+  "role.error": "Failed to change the role",
+
+  // Broadcasts
+  "broadcast.status.pending": "queued",
+  "broadcast.status.sending": "sending",
+  "broadcast.status.sent": "delivered",
+  "broadcast.status.blocked": "bot blocked",
+  "broadcast.status.failed": "failed",
+  "broadcast.status.unknown": "interrupted, delivery unconfirmed",
+  "broadcast.staffOnly": "Only monitors and admins can send announcements.",
+  "broadcast.ownGroupsOnly":
+    "Monitors can only send announcements to their own groups",
+  "broadcast.groupsNotFound": "Groups not found or archived: {groups}",
+  "broadcast.noRecipients":
+    "There are no active students in the selected groups",
+  "broadcast.queued":
+    "Announcement #{id} is queued for {count} students ({groups}). You can ask for a delivery report later.",
+  "broadcast.sendError": "Failed to send the announcement",
+  "broadcast.notFound": "Announcement not found",
+  "broadcast.report": "Announcement #{id}: {summary}",
+  "broadcast.reportError": "Failed to build the delivery report",
+  "broadcast.header": "📢 <b>Announcement</b>",
+  "broadcast.headerFrom": "📢 <b>Announcement from {sender}</b>",
+
+  // Invite codes
+  "invite.adminOnly": "Only admins can issue invites.",
+  "invite.notInRoster": 'Student ID "{studentId}" is not in the class list.',
+  "invite.link": "Registration link for {studentId}: {link}",
+  "invite.code":
+    "Invite code for {studentId}: {code} (send to the bot: /start {code})",
+  "invite.error": "Failed to create the invite",
+
+  // Audit log
+  "audit.adminOnly": "Only admins can see the activity log.",
+  "audit.found": "Log entries found: {count}",
+  "audit.empty": "No log entries match these filters",
+  "audit.error": "Failed to read the activity log",
+
+  // Daily digest settings
+  "digestSettings.badTime": "Invalid time. Use the HH:MM format, e.g. 07:30",
+  "digestSettings.enabled":
+    "The daily digest is on. It will arrive every day at {time} ({timeZone}).",
+  "digestSettings.disabled": "The daily digest is off.",
+  "digestSettings.error": "Failed to change the digest settings",
+
+  // Submissions
+  "submission.empty":
+    "Attach a file or a photo, or write your answer, to hand in the homework",
+  "submission.wrongGroup": "This homework is not for your group",
+  "submission.late":
+    'Your work for "{title}" was handed in, but after the deadline.',
+  "submission.done": 'Your work for "{title}" was handed in.',
+  "submission.error": "Failed to hand in the homework",
+  "submission.noViewPermission":
+    "You don't have permission to see submissions. Please ask a monitor or an admin.",
+  "submission.ownGroupOnly": "You can only see submissions of your own group",
+  "submission.summary": '"{title}": {submitted} handed in, {missing} did not',
+  "submission.listError": "Failed to load the submissions",
+
+  // Grades
+  "grade.noPermission":
+    "You don't have permission to grade. Please ask a monitor or an admin.",
+  "grade.ownGroupOnly": "You can only grade your own group",
+  "grade.wrongGroup": "This student is not in the homework's group",
+  "grade.changed": '{name}\'s grade for "{title}" changed: {from} → {to}.',
+  "grade.set": '{name} got {grade} for "{title}".',
+  "grade.setError": "Failed to set the grade",
+  "grade.noSubject": "No subject",
+  "grade.found": "Grades found: {count}",
+  "grade.none": "No grades yet",
+  "grade.viewError": "Failed to load the grades",
+
+  // Attendance
+  "attendance.noPermission":
+    "You don't have permission to mark attendance. Please ask a monitor or an admin.",
+  "attendance.ownGroupsOnly": "You can only mark attendance in your own groups",
+  "attendance.notInGroup": "The student is not in this group",
+  "attendance.studentSeveralGroups":
+    "The student is in several groups (IDs {groups}). Please specify the group.",
+  "attendance.status.present": "present",
+  "attendance.status.absent": "absent",
+  "attendance.status.late": "late",
+  "attendance.markError": "Failed to mark attendance",
+  "attendance.noStudents": "There are no active students in the group",
+  "attendance.groupMarked":
+    "Attendance for {date} marked: {present} present, {absent} absent, {late} late.",
+  "attendance.unknownStudents": " Not found in the group: {studentIds}.",
+  "attendance.adminOnly": "Only admins can see the attendance report.",
+  "attendance.report": "Attendance from {from} to {to}: {count} students",
+  "attendance.noMarks": "No attendance marks for this period",
+  "attendance.reportError": "Failed to build the report",
+
+  // Timetable
+  "timetable.noUserOrGroup": "User not found or no group assigned",
+  "timetable.dayLessons": "{weekday}, {day}: {count} lessons",
+  "timetable.dayFree": "{weekday}, {day}: no lessons",
+  "timetable.viewError": "Failed to load the timetable",
+  "timetable.nextLesson":
+    'Next "{subject}" lesson: {weekday}, {day} at {time}{room}',
+  "timetable.room": ", room {room}",
+  "timetable.lessonNotFound":
+    'No "{subject}" lesson in the timetable for the next {days} days',
+  "timetable.searchError": "Failed to find the lesson",
+  "timetable.adminOnly": "Only admins can upload the timetable.",
+  "timetable.uploaded":
+    'The timetable of "{groupName}" was uploaded: {count} lessons a week.',
+  "timetable.uploadError": "Failed to upload the timetable",
+  "timetable.lessonIdRequired":
+    "Give the ID of the lesson being cancelled or replaced",
+  "timetable.extraRequired":
+    "Give the start time and the subject of the extra lesson",
+  "timetable.noPermission":
+    "You don't have permission to change the timetable.",
+  "timetable.ownGroupsOnly":
+    "You can only change the timetable of your own groups",
+  "timetable.lessonNotOnDate":
+    "The lesson is not in the group's timetable on this date",
+  "timetable.cancelled": "Lesson cancelled on {date}.",
+  "timetable.replaced": "Lesson changed on {date}.",
+  "timetable.extraAdded": "Extra lesson added on {date}.",
+  "timetable.overrideError": "Failed to change the timetable",
+
+  // Recurring homework
+  "template.dueTime": " by {time}",
+  "template.weekly": "every week: {weekdays}{dueTime}",
+  "template.interval": "every {days} days from {startDate}{dueTime}",
+  "template.lesson": 'for every "{subject}" lesson',
+  "template.staffOnly":
+    "Only monitors and admins can manage recurring homework.",
+  "template.notFound": "Template not found",
+  "template.ownGroupsOnly": "You can only manage templates of your own groups",
+  "template.weekdaysRequired": "Give the weekdays the homework is due on.",
+  "template.intervalRequired": "Give how many days apart the homework repeats.",
+  "template.subjectRequired":
+    "Give the subject whose lessons the homework follows.",
+  "template.createStaffOnly":
+    "Only monitors and admins can create recurring homework.",
+  "template.ownGroupsOnlyCreate":
+    "You can only create homework for your own groups",
+  "template.chooseGroup":
+    "Please say which group the recurring homework is for.",
+  "template.noLessons":
+    'The timetable of "{groupName}" has no "{subject}" lessons.',
+  "template.created":
+    'Recurring homework "{title}" for "{groupName}" was created ({schedule}). Homework added so far: {count}.',
+  "template.createError": "Failed to create the recurring homework",
+  "template.listStaffOnly":
+    "Only monitors and admins can see recurring homework.",
+  "template.count": "Recurring homework: {count}",
+  "template.none": "There is no recurring homework",
+  "template.listError": "Failed to load the recurring homework",
+  "template.paused": 'Recurring homework "{title}" was paused.',
+  "template.resumed":
+    'Recurring homework "{title}" was resumed. Homework added: {count}.',
+  "template.updateError": "Failed to change the template",
+  "template.deleted": 'Recurring homework "{title}" was deleted.',
+  "template.upcomingRemoved": " Upcoming homework moved to the trash: {count}.",
+  "template.deleteError": "Failed to delete the recurring homework",
+
+  // Roster
+  "roster.csvNoId": "Line {line}: student ID is missing",
+  "roster.csvBadLevel": 'Line {line}: unknown access level "{level}"',
+  "roster.csvDuplicate":
+    'Line {line}: student ID "{studentId}" already appears on line {firstLine}',
+  "roster.adminOnly": "Only admins can manage the student roster.",
+  "roster.viewAdminOnly": "Only admins can view the student roster.",
+  "roster.staffLevel":
+    "Only the owner can grant the admin or owner access level.",
+  "roster.staffOwnerOnly":
+    "Only the owner can remove admins and owners from the roster.",
+  "roster.lastOwner":
+    "The last owner can't be removed from the roster. Make someone else an owner first.",
+  "roster.exists": 'Student ID "{studentId}" is already on the roster.',
+  "roster.notFound": 'Student ID "{studentId}" is not on the roster.',
+  "roster.added": 'Student {studentId} added to the roster of "{groupName}".',
+  "roster.addError":
+    "Something went wrong while adding the student to the roster",
+  "roster.updated": "Student {studentId} updated.",
+  "roster.updateError": "Something went wrong while updating the student",
+  "roster.removedDeactivated":
+    "Student {studentId} removed from the roster and their account deactivated.",
+  "roster.removed": "Student {studentId} removed from the roster.",
+  "roster.removeError":
+    "Something went wrong while removing the student from the roster",
+  "roster.csvStaffLevel":
+    "{studentId}: only the owner can grant the admin or owner level",
+  "roster.csvEmpty": "No valid rows found in the CSV",
+  "roster.imported": 'Imported {count} students into "{groupName}"',
+  "roster.importSkipped": ", rows skipped: {count}",
+  "roster.importError": "Something went wrong while importing the roster",
+  "roster.count": "{count} students on the roster",
+  "roster.empty": "The student roster is empty",
+  "roster.listError": "Something went wrong while loading the student roster",
+
+  // Groups
+  "group.noPermission":
+    "You don't have permission to manage groups. Please contact an admin.",
+  "group.exists": 'Group "{groupName}" already exists',
+  "group.created": 'Group "{groupName}" created (ID {id}).',
+  "group.createError": "Something went wrong while creating the group",
+  "group.nothingToUpdate": "Specify a new name or description for the group",
+  "group.renamed": 'Group "{from}" renamed to "{to}".',
+  "group.updated": 'Group "{groupName}" updated.',
+  "group.updateError": "Something went wrong while updating the group",
+  "group.noSettings":
+    "Specify a time zone, date language or first day of the week",
+  "group.badTimeZone":
+    'Unknown time zone "{timeZone}". Use a format like Europe/Moscow',
+  "group.badLocale": 'Unknown locale "{locale}". Use a format like en-GB',
+  "group.settingsSaved":
+    'Settings of "{groupName}": time zone {timeZone}, locale {locale}, week starts on {weekStart}.',
+  "group.settingsError":
+    "Something went wrong while updating the group settings",
+  "group.restored": 'Group "{groupName}" restored from the archive.',
+  "group.archived": 'Group "{groupName}" moved to the archive.',
+  "group.archivedActive":
+    " It still has {count} active students — move them to other groups.",
+  "group.archiveError": "Something went wrong while archiving the group",
+  "group.found": "Found {count} groups",
+  "group.noneFound": "No groups found",
+  "group.listError": "Something went wrong while loading the groups",
+  "group.inArchive": 'Group "{groupName}" is archived',
+  "group.moved": 'Student {studentId} moved to "{groupName}".',
+  "group.moveError": "Something went wrong while moving the student",
+  "group.isPrimary":
+    '"{groupName}" is the student\'s primary group. Move the student to another group instead.',
+  "group.memberAdded": 'Student {studentId} added to "{groupName}".',
+  "group.memberRemoved": 'Student {studentId} removed from "{groupName}".',
+  "group.membershipError":
+    "Something went wrong while changing the group members",
+};
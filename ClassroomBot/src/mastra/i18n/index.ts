@@ -0,0 +1,63 @@
+import { ru } from "./ru";
+import { en } from "./en";
+
+export const SUPPORTED_LANGUAGES = ["ru", "en"] as const;
+export type Language = (typeof SUPPORTED_LANGUAGES)[number];
+export const DEFAULT_LANGUAGE: Language = "ru";
+
+// Russian is the source catalog; every other catalog must define the same keys
+export type MessageKey = keyof typeof ru;
+export type Catalog = Record<MessageKey, string>;
+
+const CATALOGS: Record<Language, Catalog> = { ru, en };
+
+// Names shown in the /lang menu, each in its own language
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  ru: "🇷🇺 Русский",
+  en: "🇬🇧 English",
+};
+
+// Languages without a catalog of their own whose speakers usually read Russian
+const RUSSIAN_FALLBACK = ["uk", "be", "kk", "ky", "uz"];
+
+// Key under which the workflow and runTool put the user's language into the tool runtime context
+export const LANGUAGE_CONTEXT_KEY = "language";
+
+export function isLanguage(value: unknown): value is Language {
+  return (
+    typeof value === "string" &&
+    (SUPPORTED_LANGUAGES as readonly string[]).includes(value)
+  );
+}
+
+// Maps Telegram's language_code ("en", "en-US", "uk") to a supported language
+export function resolveLanguage(languageCode?: string | null): Language {
+  if (!languageCode) {
+    return DEFAULT_LANGUAGE;
+  }
+  const base = languageCode.toLowerCase().split(/[-_]/)[0];
+  if (isLanguage(base)) {
+    return base;
+  }
+  return RUSSIAN_FALLBACK.includes(base) ? "ru" : "en";
+}
+
+// Language of the current tool call. Falls back to the default when a tool runs without one.
+export function languageOf(runtimeContext?: {
+  get(key: string): unknown;
+}): Language {
+  const value = runtimeContext?.get(LANGUAGE_CONTEXT_KEY);
+  return isLanguage(value) ? value : DEFAULT_LANGUAGE;
+}
+
+// Looks up a message and fills its {placeholders}
+export function t(
+  language: Language,
+  key: MessageKey,
+  params: Record<string, string | number> = {},
+): string {
+  const template = CATALOGS[language][key] ?? ru[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
@@ -0,0 +1,510 @@
+// Russian is the source catalog: a key is added here first and then to every other catalog.
+// Placeholders in braces ({title}) are filled by t().
+export const ru = {
+  // Shared
+  "common.dbError": "Ошибка подключения к базе данных",
+  "common.userNotFound": "Пользователь не найден в базе данных",
+  "common.notRegistered":
+    "Ты ещё не зарегистрирован. Попроси у администратора класса ссылку-приглашение или отправь /register.",
+  "common.dialogFinished": "Этот диалог уже завершён.",
+  "common.groupNotFound": "Группа не найдена",
+  "common.noGroup": "Группа не определена",
+  "common.unknownGroup": "Неизвестно",
+  "common.severalGroups":
+    "Вы состоите в нескольких группах (ID {groups}). Укажите группу.",
+  "common.studentNotFound": 'Студент "{studentId}" не найден',
+  "common.registeredStudentNotFound":
+    'Зарегистрированный студент "{studentId}" не найден',
+
+  // Wizards
+  "wizard.back": "◀️ Назад",
+  "wizard.cancel": "✖️ Отмена",
+  "wizard.save": "✅ Сохранить",
+  "wizard.skip": "Пропустить",
+  "wizard.confirmQuestion": "Всё верно?",
+  "wizard.timedOut":
+    "⏱ Время ожидания истекло, «{title}» отменено. Начни заново, когда будешь готов.",
+  "wizard.cancelled": "✖️ «{title}» отменено.",
+  "wizard.cannotSkip": "Этот шаг нельзя пропустить",
+
+  // Wizard: adding homework
+  "hwWizard.title": "Добавление задания",
+  "hwWizard.staffOnly":
+    "Добавлять домашние задания могут только старосты и администраторы.",
+  "hwWizard.askTitle": "Как называется задание? Например: <i>№215–220</i>",
+  "hwWizard.titleLength": "Название должно быть от 1 до 200 символов",
+  "hwWizard.askSubject": "По какому предмету?",
+  "hwWizard.askGroup": "Для какой группы? Пришли номер:",
+  "hwWizard.unknownGroup": "Такой группы нет в списке",
+  "hwWizard.askDueDate":
+    "Какой срок сдачи? Например: <i>до пятницы</i>, <i>через неделю</i>, <i>к следующему уроку</i>, <i>25.10 18:00</i>",
+  "hwWizard.summaryTitle": "Название: {value}",
+  "hwWizard.summarySubject": "Предмет: {value}",
+  "hwWizard.summaryDueDate": "Срок: {value}",
+  "hwWizard.summaryGroup": "Группа: {value}",
+  "hwWizard.open": "Открыть",
+
+  // Wizard: registration
+  "regWizard.title": "Регистрация",
+  "regWizard.alreadyRegistered": "Ты уже зарегистрирован. Профиль: /me",
+  "regWizard.askCode":
+    "Пришли код приглашения от администратора (или ссылку-приглашение целиком).",
+  "regWizard.badCode": "Это не похоже на код приглашения",
+  "regWizard.askName":
+    "Как тебя записать? Пришли имя и фамилию или нажми «Пропустить» — возьмём из списка класса.",
+  "regWizard.nameRequired": "Пришли имя и фамилию",
+  "regWizard.summaryCode": "Код приглашения: <code>{code}</code>",
+  "regWizard.summaryName": "Имя: {name}",
+  "regWizard.nameFromRoster": "из списка класса",
+  "regWizard.commandsHint": "Список команд: /help",
+
+  // Due dates
+  "dueDate.hint":
+    "Например: «до пятницы», «завтра к 9:00», «через неделю», «к следующему уроку» или «25.10 18:00».",
+  "dueDate.unknown": "Не удалось понять срок «{input}». {hint}",
+  "dueDate.dayPassed": "Дата {date} уже прошла. Укажи срок в будущем. {hint}",
+  "dueDate.todayOrNextWeek":
+    "Сегодня {weekday}. Срок — сегодня ({today}) или через неделю ({nextWeek})? Уточни дату.",
+  "dueDate.weekdayPassed":
+    "Этот день недели ({weekday}) уже прошёл. Уточни дату.",
+  "dueDate.lessonSubject": "К следующему уроку по какому предмету?",
+  "dueDate.lessonNotFound":
+    "Не нашёл в расписании ближайший урок «{subject}». Укажи дату срока.",
+  "dueDate.inPast": "Срок {date} уже прошёл. Укажи срок в будущем.",
+
+  // Commands
+  "command.start": "Начать работу с ботом",
+  "command.help": "Список команд",
+  "command.me": "Мой профиль и группы",
+  "command.hw": "Домашние задания",
+  "command.hwAdd": "Добавить задание (старосты и админы)",
+  "command.hwDel": "Удалить задание по номеру (старосты и админы)",
+  "command.announce": "Объявление группе (старосты и админы)",
+  "command.register": "Регистрация по коду приглашения",
+  "command.lang": "Язык бота",
+  "command.cancel": "Отменить текущий диалог",
+  "command.hwAddUsage":
+    "Формат: <code>/hw_add предмет; название; срок; описание</code>\nСрок и описание можно не указывать. Например:\n<code>/hw_add Математика; №215-220; до пятницы</code>\nИли отправь просто /hw_add — бот спросит всё по шагам.",
+  "command.profileStudentId": "Номер студента: {value}",
+  "command.profileGroup": "Группа: {value}",
+  "command.profileNoGroup": "не назначена",
+  "command.profileAdditional": "Дополнительные группы: {value}",
+  "command.profileRole": "Роль: {value}",
+  "command.helpTitle": "<b>Команды</b>",
+  "command.helpMe": "/me — мой профиль и группы",
+  "command.helpHw": "/hw — домашние задания",
+  "command.helpHwAdd":
+    "/hw_add — добавить задание (по шагам или одной строкой)",
+  "command.helpHwDel": "/hw_del &lt;номер&gt; — удалить задание",
+  "command.helpAnnounce":
+    "/announce &lt;ID группы&gt; &lt;текст&gt; — объявление группе, текст уйдёт без изменений",
+  "command.helpLang": "/lang — язык бота",
+  "command.helpFreeText":
+    "Всё остальное можно просто написать обычным сообщением.",
+  "command.welcomeUnregistered":
+    "Привет! 👋 Чтобы пользоваться ботом, зарегистрируйся по ссылке-приглашению от администратора класса или отправь /register и введи код из неё.\nТвой Telegram ID: <code>{telegramUserId}</code>",
+  "command.welcome": "Привет! 👋",
+  "command.ownerClaimed":
+    "👑 Ты назначен владельцем класса. Дальше: создай группу, добавь студентов в список (по одному или CSV) и выдай им ссылки-приглашения — просто напиши мне, что нужно сделать.",
+  "command.hwTitle": "📚 <b>Домашние задания</b>",
+  "command.hwDue": "до {date}",
+  "command.severalGroups":
+    "Ты состоишь в нескольких группах ({groups}). Напиши задание обычным сообщением и укажи группу.",
+  "command.nothingToCancel": "Сейчас нечего отменять.",
+  "command.hwDelUsage": "Укажи номер задания: <code>/hw_del 12</code>",
+  "command.announceUsage":
+    "Формат: <code>/announce ID_группы текст</code> (несколько групп через запятую: <code>/announce 1,2 текст</code>). Текст до 3500 символов уйдёт студентам без изменений. ID группы показывает /me.",
+  "command.langChoose": "Выбери язык бота. Сейчас: {current}",
+  "command.langChanged": "Готово, теперь я говорю по-русски.",
+  "command.langUnknown": "Такого языка нет. Доступны: {languages}",
+
+  // Button actions
+  "button.homeworkNotFound": "Домашнее задание не найдено",
+  "button.subject": "Предмет: {value}",
+  "button.group": "Группа: {value}",
+  "button.dueDate": "Срок: {value}",
+  "button.restore": "↩️ Восстановить",
+  "button.closePoll": "🔒 Закрыть опрос",
+  "button.pressed": "Нажата кнопка: {data}",
+
+  // Registration
+  "registration.codeNotFound":
+    "Код приглашения не найден. Попросите администратора выдать новую ссылку.",
+  "registration.alreadyRegistered": "Вы уже зарегистрированы в системе!",
+  "registration.studentIdTaken":
+    'ID студента "{studentId}" уже используется другим пользователем Telegram.',
+  "registration.telegramTaken":
+    'Ваш Telegram аккаунт уже связан с ID студента "{studentId}".',
+  "registration.codeUsed":
+    "Этот код приглашения уже использован. Попросите администратора выдать новую ссылку.",
+  "registration.codeExpired":
+    "Срок действия кода приглашения истёк. Попросите администратора выдать новую ссылку.",
+  "registration.defaultName": "студент",
+  "registration.welcome":
+    'Добро пожаловать! Вы успешно зарегистрированы как {name} в группе "{groupName}".',
+  "registration.error": "Произошла ошибка при регистрации. Попробуйте позже.",
+
+  // Verification
+  "verification.notFound":
+    "Пользователь не найден в базе данных класса. Доступ запрещен.",
+  "verification.inactive":
+    "Учетная запись студента деактивирована. Обратитесь к администратору.",
+  "verification.welcome": "Добро пожаловать, {name}! Ваша группа: {groupName}",
+  "verification.additionalGroups": ". Дополнительные группы: {groups}",
+  "verification.error":
+    "Произошла ошибка при проверке данных. Попробуйте позже.",
+
+  // Homework
+  "homework.noAddPermission":
+    "У вас нет прав для добавления домашних заданий. Обратитесь к старосте или администратору.",
+  "homework.ownGroupsOnlyAdd":
+    "Вы можете добавлять домашние задания только в свои группы",
+  "homework.chooseGroup": "Для какой группы добавить задание? {groups}",
+  "homework.groupUnknown": "Не удалось определить группу для домашнего задания",
+  "homework.added":
+    'Домашнее задание "{title}" успешно добавлено для группы "{groupName}".',
+  "homework.addedDue": " Срок: {date}.",
+  "homework.addedFiles": " Прикреплено файлов: {count}.",
+  "homework.addError": "Произошла ошибка при создании домашнего задания",
+  "homework.found": "Найдено домашних заданий: {count}",
+  "homework.filesSent": ", отправлено файлов: {count}",
+  "homework.noneFound": "Домашние задания не найдены",
+  "homework.viewError": "Произошла ошибка при получении домашних заданий",
+  "homework.noDeletePermission":
+    "У вас нет прав для удаления домашних заданий. Обратитесь к старосте или администратору.",
+  "homework.notFound": "Домашнее задание не найдено",
+  "homework.movedToTrash":
+    'Домашнее задание "{title}" перемещено в корзину. Его можно восстановить в течение {days} дней.',
+  "homework.deleteError": "Произошла ошибка при удалении домашнего задания",
+  "homework.trashStaffOnly":
+    "Корзина доступна только старостам и администраторам.",
+  "homework.trashCount": "Домашних заданий в корзине: {count}",
+  "homework.trashEmpty": "Корзина пуста",
+  "homework.trashError": "Произошла ошибка при просмотре корзины",
+  "homework.noRestorePermission":
+    "У вас нет прав для восстановления домашних заданий. Обратитесь к старосте или администратору.",
+  "homework.notInTrash": "Домашнее задание не найдено в корзине",
+  "homework.ownGroupOnlyRestore":
+    "Вы можете восстанавливать задания только своей группы.",
+  "homework.ownGroupOnlyDelete":
+    "Вы можете удалять задания только своей группы.",
+  "homework.restored": 'Домашнее задание "{title}" восстановлено.',
+  "homework.restoreError":
+    "Произошла ошибка при восстановлении домашнего задания",
+  "homework.field.title": "Название",
+  "homework.field.description": "Описание",
+  "homework.field.subject": "Предмет",
+  "homework.field.dueDate": "Срок сдачи",
+  "homework.field.groupId": "Группа",
+  "homework.noEditPermission":
+    "У вас нет прав для изменения домашних заданий. Обратитесь к старосте или администратору.",
+  "homework.ownGroupsOnlyEdit":
+    "Вы можете изменять домашние задания только своих групп",
+  "homework.groupNotFoundOrArchived":
+    "Группа не найдена или находится в архиве",
+  "homework.nothingChanged":
+    "Новые значения совпадают с текущими — изменять нечего.",
+  "homework.changedNotice": "✏️ Домашнее задание изменено: <b>{title}</b>",
+  "homework.updated":
+    'Домашнее задание "{title}" обновлено ({fields}). Уведомлено студентов: {notified}.',
+  "homework.updateError": "Произошла ошибка при изменении домашнего задания",
+  "homework.historyStaffOnly":
+    "История изменений доступна только старостам и администраторам.",
+  "homework.ownGroupsOnlyHistory":
+    "Вы можете смотреть историю изменений только заданий своих групп",
+  "homework.revisionCount": "Изменений: {count}",
+  "homework.neverChanged": "Это задание не изменялось",
+  "homework.historyError": "Произошла ошибка при получении истории изменений",
+  "homework.attachStaffOnly":
+    "Прикреплять файлы к заданиям могут только старосты и администраторы.",
+  "homework.noFiles":
+    "Не найдено файлов для прикрепления. Отправьте фото или документ вместе с сообщением.",
+  "homework.filesAttached": 'К заданию "{title}" прикреплено файлов: {count}.',
+  "homework.attachError": "Произошла ошибка при прикреплении файлов",
+
+  // Polls
+  "poll.tally":
+    '"{question}"{closed}: проголосовали {voters} из {recipients}. {options}',
+  "poll.closedMark": " (закрыт)",
+  "poll.notFound": "Опрос не найден",
+  "poll.staffOnly": "Создавать опросы могут только старосты и администраторы.",
+  "poll.ownGroupsOnly":
+    "Старосты могут создавать опросы только в своих группах",
+  "poll.sent":
+    'Опрос #{id} отправлен {sent} из {total} студентов группы "{groupName}".',
+  "poll.createError": "Произошла ошибка при создании опроса",
+  "poll.resultsError": "Произошла ошибка при получении результатов опроса",
+  "poll.alreadyClosed": "Опрос уже закрыт. {tally}",
+  "poll.closed": "Опрос закрыт. {tally}",
+  "poll.closeError": "Произошла ошибка при закрытии опроса",
+
+  // Deadline reminders
+  "reminder.hours": "{count} ч",
+  "reminder.minutes": "{count} мин",
+  "reminder.text":
+    "⏰ До сдачи задания <b>{title}</b>{subject} осталось {left} — срок {date}.",
+
+  // Daily digest
+  "digest.greeting": "☀️ Доброе утро{name}! Сводка на {day}:",
+  "digest.lessonsToday": "<b>Уроки сегодня:</b>",
+  "digest.lessonChanged": " (изменение)",
+  "digest.dueToday": "<b>Сдать сегодня:</b>",
+  "digest.dueTomorrow": "<b>Сдать завтра:</b>",
+  "digest.overdue": "<b>Просрочено:</b>",
+  "digest.andMore": "и ещё {count}",
+
+  // Roles
+  "role.student": "студент",
+  "role.monitor": "староста",
+  "role.admin": "администратор",
+  "role.owner": "владелец",
+  "role.noPermission":
+    "У вас нет прав для изменения ролей. Обратитесь к администратору.",
+  "role.alreadyHas": '{name} уже имеет роль "{role}".',
+  "role.adminLimits":
+    "Администратор может только назначать и снимать старост. Остальные роли меняет владелец.",
+  "role.ownGroupsOnly": "Вы можете назначать старост только в своих группах.",
+  "role.lastOwner":
+    "Нельзя понизить последнего владельца. Сначала назначьте другого владельца.",
+  "role.groupSuffix": ' (группа "{groupName}")',
+  "role.changedNotice": "🔑 Ваша роль изменена: {from} → <b>{to}</b>{group}.",
+  "role.changed": "Роль {name}: {from} → {to}.",
+  "role.notified": " Пользователь уведомлён.",
+  "role.notNotified": " Не удалось отправить уведомление пользователю.",
+  "role.error": "Произошла ошибка при изменении роли",
+
+  // Broadcasts
+  "broadcast.status.pending": "в очереди",
+  "broadcast.status.sending": "отправляется",
+  "broadcast.status.sent": "доставлено",
+  "broadcast.status.blocked": "бот заблокирован",
+  "broadcast.status.failed": "ошибка",
+  "broadcast.status.unknown": "отправка прервалась, доставка не подтверждена",
+  "broadcast.staffOnly":
+    "Отправлять объявления могут только старосты и администраторы.",
+  "broadcast.ownGroupsOnly":
+    "Старосты могут отправлять объявления только своим группам",
+  "broadcast.groupsNotFound": "Группы не найдены или в архиве: {groups}",
+  "broadcast.noRecipients": "В выбранных группах нет активных студентов",
+  "broadcast.queued":
+    "Объявление #{id} поставлено в очередь для {count} студентов ({groups}). Отчёт о доставке можно запросить позже.",
+  "broadcast.sendError": "Произошла ошибка при отправке объявления",
+  "broadcast.notFound": "Объявление не найдено",
+  "broadcast.report": "Объявление #{id}: {summary}",
+  "broadcast.reportError":
+    "Произошла ошибка при формировании отчёта о доставке",
+  "broadcast.header": "📢 <b>Объявление</b>",
+  "broadcast.headerFrom": "📢 <b>Объявление от {sender}</b>",
+
+  // Invite codes
+  "invite.adminOnly": "Выдавать приглашения могут только администраторы.",
+  "invite.notInRoster": 'ID студента "{studentId}" не найден в списке.',
+  "invite.link": "Ссылка для регистрации {studentId}: {link}",
+  "invite.code":
+    "Код приглашения для {studentId}: {code} (отправьте боту: /start {code})",
+  "invite.error": "Произошла ошибка при создании приглашения",
+
+  // Audit log
+  "audit.adminOnly": "Журнал действий доступен только администраторам.",
+  "audit.found": "Найдено записей в журнале: {count}",
+  "audit.empty": "По заданным условиям записей в журнале нет",
+  "audit.error": "Произошла ошибка при чтении журнала действий",
+
+  // Daily digest settings
+  "digestSettings.badTime":
+    "Неверное время. Используйте формат ЧЧ:ММ, например 07:30",
+  "digestSettings.enabled":
+    "Ежедневная сводка включена. Она будет приходить каждый день в {time} ({timeZone}).",
+  "digestSettings.disabled": "Ежедневная сводка отключена.",
+  "digestSettings.error": "Произошла ошибка при изменении настроек сводки",
+
+  // Submissions
+  "submission.empty":
+    "Прикрепите файл, фото или напишите ответ, чтобы сдать задание",
+  "submission.wrongGroup": "Это домашнее задание не для вашей группы",
+  "submission.late": 'Работа по заданию "{title}" сдана, но после срока сдачи.',
+  "submission.done": 'Работа по заданию "{title}" успешно сдана.',
+  "submission.error": "Произошла ошибка при сдаче домашнего задания",
+  "submission.noViewPermission":
+    "У вас нет прав для просмотра сданных работ. Обратитесь к старосте или администратору.",
+  "submission.ownGroupOnly":
+    "Вы можете просматривать сданные работы только своей группы",
+  "submission.summary":
+    'Задание "{title}": сдали {submitted}, не сдали {missing}',
+  "submission.listError": "Произошла ошибка при получении списка сданных работ",
+
+  // Grades
+  "grade.noPermission":
+    "У вас нет прав для выставления оценок. Обратитесь к старосте или администратору.",
+  "grade.ownGroupOnly": "Вы можете выставлять оценки только своей группе",
+  "grade.wrongGroup": "Этот студент не относится к группе задания",
+  "grade.changed": 'Оценка {name} за "{title}" изменена: {from} → {to}.',
+  "grade.set": 'Оценка {grade} за "{title}" выставлена студенту {name}.',
+  "grade.setError": "Произошла ошибка при выставлении оценки",
+  "grade.noSubject": "Без предмета",
+  "grade.found": "Найдено оценок: {count}",
+  "grade.none": "Оценок пока нет",
+  "grade.viewError": "Произошла ошибка при получении оценок",
+
+  // Attendance
+  "attendance.noPermission":
+    "У вас нет прав для отметки посещаемости. Обратитесь к старосте или администратору.",
+  "attendance.ownGroupsOnly":
+    "Вы можете отмечать посещаемость только в своих группах",
+  "attendance.notInGroup": "Студент не состоит в указанной группе",
+  "attendance.studentSeveralGroups":
+    "Студент состоит в нескольких группах (ID {groups}). Укажите группу.",
+  "attendance.status.present": "присутствует",
+  "attendance.status.absent": "отсутствует",
+  "attendance.status.late": "опоздал(а)",
+  "attendance.markError": "Произошла ошибка при отметке посещаемости",
+  "attendance.noStudents": "В группе нет активных студентов",
+  "attendance.groupMarked":
+    "Посещаемость за {date} отмечена: присутствуют {present}, отсутствуют {absent}, опоздали {late}.",
+  "attendance.unknownStudents": " Не найдены в группе: {studentIds}.",
+  "attendance.adminOnly":
+    "Отчёт по посещаемости доступен только администраторам.",
+  "attendance.report": "Посещаемость с {from} по {to}: {count} студентов",
+  "attendance.noMarks": "За этот период отметок посещаемости нет",
+  "attendance.reportError": "Произошла ошибка при формировании отчёта",
+
+  // Timetable
+  "timetable.noUserOrGroup": "Пользователь не найден или группа не назначена",
+  "timetable.dayLessons": "{weekday}, {day}: уроков — {count}",
+  "timetable.dayFree": "{weekday}, {day}: уроков нет",
+  "timetable.viewError": "Произошла ошибка при получении расписания",
+  "timetable.nextLesson":
+    'Следующий урок "{subject}": {weekday}, {day} в {time}{room}',
+  "timetable.room": ", кабинет {room}",
+  "timetable.lessonNotFound":
+    'Урок "{subject}" не найден в расписании на ближайшие {days} дней',
+  "timetable.searchError": "Произошла ошибка при поиске урока",
+  "timetable.adminOnly": "Загружать расписание могут только администраторы.",
+  "timetable.uploaded":
+    'Расписание группы "{groupName}" загружено: уроков в неделю — {count}.',
+  "timetable.uploadError": "Произошла ошибка при загрузке расписания",
+  "timetable.lessonIdRequired":
+    "Укажите ID урока, который отменяется или заменяется",
+  "timetable.extraRequired":
+    "Для дополнительного урока укажите время начала и предмет",
+  "timetable.noPermission": "У вас нет прав для изменения расписания.",
+  "timetable.ownGroupsOnly": "Вы можете изменять расписание только своих групп",
+  "timetable.lessonNotOnDate": "Урок не найден в расписании группы на эту дату",
+  "timetable.cancelled": "Урок отменён на {date}.",
+  "timetable.replaced": "Урок изменён на {date}.",
+  "timetable.extraAdded": "Дополнительный урок добавлен на {date}.",
+  "timetable.overrideError": "Произошла ошибка при изменении расписания",
+
+  // Recurring homework
+  "template.dueTime": " до {time}",
+  "template.weekly": "каждую неделю: {weekdays}{dueTime}",
+  "template.interval": "каждые {days} дн. начиная с {startDate}{dueTime}",
+  "template.lesson": 'к каждому уроку "{subject}"',
+  "template.staffOnly":
+    "Управлять повторяющимися заданиями могут только старосты и администраторы.",
+  "template.notFound": "Шаблон не найден",
+  "template.ownGroupsOnly": "Вы можете управлять шаблонами только своих групп",
+  "template.weekdaysRequired":
+    "Укажите дни недели, к которым задаётся задание.",
+  "template.intervalRequired":
+    "Укажите, через сколько дней повторяется задание.",
+  "template.subjectRequired":
+    "Укажите предмет, к урокам которого привязано задание.",
+  "template.createStaffOnly":
+    "Создавать повторяющиеся задания могут только старосты и администраторы.",
+  "template.ownGroupsOnlyCreate":
+    "Вы можете создавать задания только для своих групп",
+  "template.chooseGroup":
+    "Уточните, для какой группы создать повторяющееся задание.",
+  "template.noLessons":
+    'В расписании группы "{groupName}" нет уроков "{subject}".',
+  "template.created":
+    'Повторяющееся задание "{title}" для группы "{groupName}" создано ({schedule}). Заданий уже добавлено: {count}.',
+  "template.createError":
+    "Произошла ошибка при создании повторяющегося задания",
+  "template.listStaffOnly":
+    "Повторяющиеся задания доступны только старостам и администраторам.",
+  "template.count": "Повторяющихся заданий: {count}",
+  "template.none": "Повторяющихся заданий нет",
+  "template.listError": "Произошла ошибка при получении повторяющихся заданий",
+  "template.paused": 'Повторяющееся задание "{title}" приостановлено.',
+  "template.resumed":
+    'Повторяющееся задание "{title}" возобновлено. Заданий добавлено: {count}.',
+  "template.updateError": "Произошла ошибка при изменении шаблона",
+  "template.deleted": 'Повторяющееся задание "{title}" удалено.',
+  "template.upcomingRemoved":
+    " Перемещено в корзину предстоящих заданий: {count}.",
+  "template.deleteError":
+    "Произошла ошибка при удалении повторяющегося задания",
+
+  // Roster
+  "roster.csvNoId": "Строка {line}: не указан ID студента",
+  "roster.csvBadLevel": 'Строка {line}: неизвестный уровень доступа "{level}"',
+  "roster.csvDuplicate":
+    'Строка {line}: ID студента "{studentId}" уже есть в строке {firstLine}',
+  "roster.adminOnly":
+    "Управлять списком студентов могут только администраторы.",
+  "roster.viewAdminOnly":
+    "Просматривать список студентов могут только администраторы.",
+  "roster.staffLevel":
+    "Только владелец может назначать уровень доступа admin или owner.",
+  "roster.staffOwnerOnly":
+    "Удалять из списка администраторов и владельцев может только владелец.",
+  "roster.lastOwner":
+    "Нельзя удалить из списка последнего владельца. Сначала назначьте другого владельца.",
+  "roster.exists": 'ID студента "{studentId}" уже есть в списке.',
+  "roster.notFound": 'ID студента "{studentId}" не найден в списке.',
+  "roster.added": 'Студент {studentId} добавлен в список группы "{groupName}".',
+  "roster.addError": "Произошла ошибка при добавлении студента в список",
+  "roster.updated": "Данные студента {studentId} обновлены.",
+  "roster.updateError": "Произошла ошибка при изменении данных студента",
+  "roster.removedDeactivated":
+    "Студент {studentId} удалён из списка, его учетная запись деактивирована.",
+  "roster.removed": "Студент {studentId} удалён из списка.",
+  "roster.removeError": "Произошла ошибка при удалении студента из списка",
+  "roster.csvStaffLevel":
+    "{studentId}: только владелец может назначать уровень admin или owner",
+  "roster.csvEmpty": "В CSV не найдено ни одной корректной строки",
+  "roster.imported": 'Импортировано {count} студентов в группу "{groupName}"',
+  "roster.importSkipped": ", пропущено строк: {count}",
+  "roster.importError": "Произошла ошибка при импорте списка",
+  "roster.count": "В списке {count} студентов",
+  "roster.empty": "Список студентов пуст",
+  "roster.listError": "Произошла ошибка при получении списка студентов",
+
+  // Groups
+  "group.noPermission":
+    "У вас нет прав для управления группами. Обратитесь к администратору.",
+  "group.exists": 'Группа "{groupName}" уже существует',
+  "group.created": 'Группа "{groupName}" создана (ID {id}).',
+  "group.createError": "Произошла ошибка при создании группы",
+  "group.nothingToUpdate": "Укажите новое название или описание группы",
+  "group.renamed": 'Группа "{from}" переименована в "{to}".',
+  "group.updated": 'Группа "{groupName}" обновлена.',
+  "group.updateError": "Произошла ошибка при изменении группы",
+  "group.noSettings": "Укажите часовой пояс, язык дат или первый день недели",
+  "group.badTimeZone":
+    'Неизвестный часовой пояс "{timeZone}". Используйте формат вроде Europe/Moscow',
+  "group.badLocale":
+    'Неизвестная локаль "{locale}". Используйте формат вроде ru-RU',
+  "group.settingsSaved":
+    'Настройки группы "{groupName}": часовой пояс {timeZone}, локаль {locale}, неделя начинается с дня: {weekStart}.',
+  "group.settingsError": "Произошла ошибка при изменении настроек группы",
+  "group.restored": 'Группа "{groupName}" восстановлена из архива.',
+  "group.archived": 'Группа "{groupName}" перемещена в архив.',
+  "group.archivedActive":
+    " В ней остаётся {count} активных студентов — переведите их в другие группы.",
+  "group.archiveError": "Произошла ошибка при архивации группы",
+  "group.found": "Найдено {count} групп",
+  "group.noneFound": "Группы не найдены",
+  "group.listError": "Произошла ошибка при получении списка групп",
+  "group.inArchive": 'Группа "{groupName}" в архиве',
+  "group.moved": 'Студент {studentId} переведён в группу "{groupName}".',
+  "group.moveError": "Произошла ошибка при переводе студента",
+  "group.isPrimary":
+    'Группа "{groupName}" — основная группа студента. Используйте перевод в другую группу.',
+  "group.memberAdded": 'Студент {studentId} добавлен в группу "{groupName}".',
+  "group.memberRemoved":
+    'Студент {studentId} исключён из группы "{groupName}".',
+  "group.membershipError": "Произошла ошибка при изменении состава группы",
+};
@@ -8,10 +8,59 @@ import { NonRetriableError } from "inngest";
 import { z } from "zod";
 
 import { sharedPostgresStorage } from "./storage";
-import { inngest, inngestServe } from "./inngest";
+import {
+  inngest,
+  inngestServe,
+  registerCronJob,
+  registerInngestFunction,
+} from "./inngest";
 import { classManagementAgent } from "./agents/classManagementAgent";
 import { classManagementWorkflow } from "./workflows/classManagementWorkflow";
-import { registerTelegramTrigger } from "../triggers/telegramTriggers";
+import {
+  purgeDeletedHomework,
+  HOMEWORK_PURGE_CRON,
+} from "./jobs/homeworkPurge";
+import {
+  generateRecurringHomework,
+  HOMEWORK_TEMPLATES_CRON,
+} from "./jobs/homeworkTemplates";
+import {
+  sendDeadlineReminders,
+  DEADLINE_REMINDERS_CRON,
+} from "./jobs/deadlineReminders";
+import { sendDailyDigests, DAILY_DIGEST_CRON } from "./jobs/dailyDigest";
+import {
+  createBroadcastFanOutFunction,
+  createBroadcastDeliverFunction,
+  expireBroadcastDeliveries,
+  BROADCAST_EXPIRY_CRON,
+} from "./jobs/broadcasts";
+import {
+  purgePendingAttachments,
+  PENDING_ATTACHMENTS_PURGE_CRON,
+} from "./jobs/pendingAttachmentsPurge";
+import {
+  purgeWizardSessions,
+  WIZARD_SESSIONS_PURGE_CRON,
+} from "./jobs/wizardSessionsPurge";
+import {
+  registerTelegramTrigger,
+  warnAboutTelegramConfig,
+} from "../triggers/telegramTriggers";
+import { registerWithInviteCode } from "./tools/studentRegistration";
+import {
+  sendTelegramMessage,
+  answerCallbackQuery,
+  escapeHtml,
+} from "./tools/telegramMessaging";
+import { stashPendingAttachment } from "./utils/pendingAttachments";
+import { recordPollAnswer } from "./tools/polls";
+import { runCallbackAction } from "./tools/callbackActions";
+import { runCommand, registerBotCommands } from "./tools/commands";
+import { WIZARDS } from "./tools/wizards";
+import { continueWizard, WIZARD_CALLBACK_PREFIX } from "./utils/wizard";
+import { getUserLanguage } from "./utils/userLanguage";
+import { t, DEFAULT_LANGUAGE } from "./i18n";
 
 class ProductionPinoLogger extends MastraLogger {
   protected logger: pino.Logger;
@@ -54,6 +103,32 @@ class ProductionPinoLogger extends MastraLogger {
   }
 }
 
+registerCronJob("homework-purge", HOMEWORK_PURGE_CRON, (mastra) =>
+  purgeDeletedHomework(mastra.getLogger()),
+);
+registerCronJob("homework-templates", HOMEWORK_TEMPLATES_CRON, (mastra) =>
+  generateRecurringHomework(mastra.getLogger()),
+);
+registerCronJob("deadline-reminders", DEADLINE_REMINDERS_CRON, (mastra) =>
+  sendDeadlineReminders(mastra.getLogger()),
+);
+registerCronJob("daily-digest", DAILY_DIGEST_CRON, (mastra) =>
+  sendDailyDigests(mastra.getLogger()),
+);
+registerCronJob(
+  "pending-attachments-purge",
+  PENDING_ATTACHMENTS_PURGE_CRON,
+  (mastra) => purgePendingAttachments(mastra.getLogger()),
+);
+registerCronJob("wizard-sessions-purge", WIZARD_SESSIONS_PURGE_CRON, (mastra) =>
+  purgeWizardSessions(mastra.getLogger()),
+);
+registerCronJob("broadcast-expiry", BROADCAST_EXPIRY_CRON, (mastra) =>
+  expireBroadcastDeliveries(mastra.getLogger()),
+);
+registerInngestFunction(createBroadcastFanOutFunction);
+registerInngestFunction(createBroadcastDeliverFunction);
+
 export const mastra = new Mastra({
   storage: sharedPostgresStorage,
   agents: { classManagementAgent },
@@ -131,25 +206,246 @@ export const mastra = new Mastra({
           const logger = mastra.getLogger();
           logger?.info("📝 [Telegram Trigger] Received message:", triggerInfo);
 
-          // Extract message data
-          const telegramUserId = triggerInfo.payload?.message?.from?.id;
-          const username = triggerInfo.payload?.message?.from?.username;
-          const messageText = triggerInfo.payload?.message?.text || "";
-          const chatId = triggerInfo.payload?.message?.chat?.id;
-
-          if (!telegramUserId || !chatId || !messageText) {
-            logger?.warn("📝 [Telegram Trigger] Missing required fields:", {
-              telegramUserId,
-              chatId,
-              messageText,
-            });
-            return;
-          }
+          // Any failure is logged and the update still counts as handled: an error response would
+          // make Telegram redeliver it, and it would be processed twice
+          try {
+            // Votes in the bot's polls arrive as separate poll_answer updates
+            const pollAnswer = triggerInfo.payload?.poll_answer;
+            if (pollAnswer) {
+              if (pollAnswer.user?.id) {
+                await recordPollAnswer(
+                  {
+                    telegramPollId: pollAnswer.poll_id,
+                    telegramUserId: pollAnswer.user.id,
+                    optionIds: pollAnswer.option_ids || [],
+                  },
+                  logger,
+                );
+              }
+              return;
+            }
 
-          // Create thread ID for user context
-          const threadId = `telegram/${telegramUserId}`;
+            // Extract message data. A pressed inline button arrives as callback_query: the user is the
+            // one who pressed it, while callback_query.message is the bot's own message with the buttons.
+            const callbackQuery = triggerInfo.payload?.callback_query;
+            const message = callbackQuery
+              ? undefined
+              : triggerInfo.payload?.message;
+            const telegramUserId = callbackQuery?.from?.id ?? message?.from?.id;
+            const username =
+              callbackQuery?.from?.username ?? message?.from?.username;
+            const chatId =
+              callbackQuery?.message?.chat?.id ?? message?.chat?.id;
+            const language = telegramUserId
+              ? await getUserLanguage(
+                  telegramUserId,
+                  (callbackQuery ?? message)?.from?.language_code,
+                  logger,
+                )
+              : DEFAULT_LANGUAGE;
+            const messageText = callbackQuery
+              ? t(language, "button.pressed", {
+                  data: callbackQuery.data || "",
+                })
+              : message?.text || message?.caption || "";
+
+            if (callbackQuery) {
+              // Telegram shows a loading indicator on the button until the query is answered
+              await answerCallbackQuery(callbackQuery.id, { logger });
+
+              if (
+                telegramUserId &&
+                chatId &&
+                callbackQuery.data?.startsWith(WIZARD_CALLBACK_PREFIX)
+              ) {
+                const result = await continueWizard(
+                  WIZARDS,
+                  { mastra, telegramUserId, username, chatId, language },
+                  callbackQuery.data,
+                );
+                await sendTelegramMessage(
+                  chatId,
+                  result?.text ?? t(language, "common.dialogFinished"),
+                  {
+                    replyMarkup: result?.replyMarkup,
+                    logger,
+                  },
+                );
+                return;
+              }
+
+              // Buttons may also carry a whole command, e.g. the /lang menu sends "/lang en"
+              if (
+                telegramUserId &&
+                chatId &&
+                callbackQuery.data?.startsWith("/")
+              ) {
+                const result = await runCommand(mastra, {
+                  telegramUserId,
+                  username,
+                  chatId,
+                  language,
+                  text: callbackQuery.data,
+                });
+                if (result) {
+                  await sendTelegramMessage(chatId, result.text, {
+                    replyMarkup: result.replyMarkup,
+                    logger,
+                  });
+                  logger?.info(
+                    "📝 [Telegram Trigger] Button command handled:",
+                    {
+                      data: callbackQuery.data,
+                    },
+                  );
+                  return;
+                }
+              }
+
+              if (telegramUserId && chatId && callbackQuery.data) {
+                const result = await runCallbackAction(mastra, {
+                  telegramUserId,
+                  chatId,
+                  language,
+                  data: callbackQuery.data,
+                });
+                if (result) {
+                  await sendTelegramMessage(chatId, result.text, {
+                    replyMarkup: result.replyMarkup,
+                    logger,
+                  });
+                  logger?.info("📝 [Telegram Trigger] Button action handled:", {
+                    data: callbackQuery.data,
+                  });
+                  return;
+                }
+              }
+            }
+
+            // Documents and photos are passed on as attachments (e.g. homework submissions).
+            // Telegram sends several photo sizes, the last one is the largest.
+            let attachment:
+              | {
+                  fileId: string;
+                  fileType: "document" | "photo";
+                  fileName?: string;
+                  mediaGroupId?: string;
+                }
+              | undefined;
+            if (message?.document?.file_id) {
+              attachment = {
+                fileId: message.document.file_id,
+                fileType: "document",
+                fileName: message.document.file_name,
+              };
+            } else if (
+              Array.isArray(message?.photo) &&
+              message.photo.length > 0
+            ) {
+              attachment = {
+                fileId: message.photo[message.photo.length - 1].file_id,
+                fileType: "photo",
+              };
+            }
+
+            if (!telegramUserId || !chatId || (!messageText && !attachment)) {
+              logger?.warn("📝 [Telegram Trigger] Missing required fields:", {
+                telegramUserId,
+                chatId,
+                messageText,
+              });
+              return;
+            }
+
+            // Each file of an album arrives as a separate update and only one of them carries the caption.
+            // Every item is stashed; the agent only runs for the captioned one and the tools collect the rest.
+            if (attachment && message?.media_group_id) {
+              attachment.mediaGroupId = String(message.media_group_id);
+              await stashPendingAttachment(
+                {
+                  ...attachment,
+                  telegramUserId,
+                  mediaGroupId: attachment.mediaGroupId,
+                  messageId: message.message_id,
+                },
+                logger,
+              );
+              if (!messageText) {
+                logger?.info("📝 [Telegram Trigger] Album item stashed:", {
+                  mediaGroupId: attachment.mediaGroupId,
+                });
+                return;
+              }
+            }
+
+            // Registration deep link (t.me/<bot>?start=<code>) is handled without the agent
+            const startPayload = messageText.match(
+              /^\/start(?:@\w+)?\s+(\S+)/,
+            )?.[1];
+            if (startPayload) {
+              const result = await registerWithInviteCode(
+                {
+                  telegramUserId,
+                  telegramUsername: username,
+                  inviteCode: startPayload,
+                  language,
+                },
+                logger,
+              );
+              await sendTelegramMessage(chatId, escapeHtml(result.message), {
+                logger,
+              });
+              logger?.info(
+                "📝 [Telegram Trigger] Deep-link registration handled:",
+                { success: result.success },
+              );
+              return;
+            }
+
+            // An active wizard takes the answer to its current step
+            if (!callbackQuery && messageText) {
+              const result = await continueWizard(
+                WIZARDS,
+                { mastra, telegramUserId, username, chatId, language },
+                messageText,
+              );
+              if (result) {
+                await sendTelegramMessage(chatId, result.text, {
+                  replyMarkup: result.replyMarkup,
+                  logger,
+                });
+                if (!result.passThrough) {
+                  logger?.info("📝 [Telegram Trigger] Wizard step handled");
+                  return;
+                }
+              }
+            }
+
+            // Slash commands are answered from fixed templates; free-form text goes to the agent
+            if (!callbackQuery) {
+              const result = await runCommand(mastra, {
+                telegramUserId,
+                username,
+                chatId,
+                language,
+                text: messageText,
+                attachment,
+              });
+              if (result) {
+                await sendTelegramMessage(chatId, result.text, {
+                  replyMarkup: result.replyMarkup,
+                  logger,
+                });
+                logger?.info("📝 [Telegram Trigger] Command handled:", {
+                  command: messageText.split(/\s/)[0],
+                });
+                return;
+              }
+            }
+
+            // Create thread ID for user context
+            const threadId = `telegram/${telegramUserId}`;
 
-          try {
             const run = await mastra
               .getWorkflow("classManagementWorkflow")
               .createRunAsync();
@@ -160,12 +456,14 @@ export const mastra = new Mastra({
                 chatId: chatId,
                 username: username,
                 telegramUserId: telegramUserId,
+                language,
+                attachment,
               },
             });
             logger?.info("📝 [Telegram Trigger] Workflow started successfully");
           } catch (error) {
             logger?.error(
-              "📝 [Telegram Trigger] Error starting workflow:",
+              "📝 [Telegram Trigger] Error handling update:",
               error,
             );
           }
@@ -185,6 +483,16 @@ export const mastra = new Mastra({
         }),
 });
 
+warnAboutTelegramConfig(mastra.getLogger());
+
+if (process.env.TELEGRAM_BOT_TOKEN) {
+  registerBotCommands(mastra.getLogger()).catch((error) => {
+    mastra
+      .getLogger()
+      ?.error("❌ [Telegram] Failed to register bot commands:", error);
+  });
+}
+
 /*  Sanity check 1: Throw an error if there are more than 1 workflows.  */
 // !!!!!! Do not remove this check. !!!!!!
 if (Object.keys(mastra.getWorkflows()).length > 1) {
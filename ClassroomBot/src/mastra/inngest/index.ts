@@ -95,6 +95,34 @@ export function registerCronWorkflow(cronExpression: string, workflow: any) {
   inngestFunctions.push(f);
 }
 
+// Scheduled jobs that run plain code rather than a Mastra workflow
+// (the app only supports a single workflow, which handles Telegram messages).
+// Besides the schedule, each job listens to a `cron/<id>` event, so it can be
+// run on demand from the Inngest dev server ("Send event").
+const cronJobs: {
+  id: string;
+  cronExpression: string;
+  handler: (mastra: Mastra) => Promise<unknown>;
+}[] = [];
+
+export function registerCronJob(
+  id: string,
+  cronExpression: string,
+  handler: (mastra: Mastra) => Promise<unknown>,
+) {
+  cronJobs.push({ id, cronExpression, handler });
+}
+
+// Event-driven Inngest functions that need the Mastra instance (e.g. for logging);
+// they are created when the Inngest endpoint is served.
+const functionFactories: ((mastra: Mastra) => InngestFunction.Any)[] = [];
+
+export function registerInngestFunction(
+  factory: (mastra: Mastra) => InngestFunction.Any,
+) {
+  functionFactories.push(factory);
+}
+
 export function inngestServe({
   mastra,
   inngest,
@@ -117,6 +145,18 @@ export function inngestServe({
   for (const fn of inngestFunctions) {
     functions.add(fn);
   }
+  for (const factory of functionFactories) {
+    functions.add(factory(mastra));
+  }
+  for (const job of cronJobs) {
+    functions.add(
+      inngest.createFunction(
+        { id: `cron-${job.id}` },
+        [{ event: `cron/${job.id}` }, { cron: job.cronExpression }],
+        async ({ step }) => step.run(job.id, () => job.handler(mastra)),
+      ),
+    );
+  }
   let serveHost: string | undefined = undefined;
   if (process.env.NODE_ENV === "production") {
     if (process.env.REPLIT_DOMAINS) {
@@ -0,0 +1,270 @@
+import type { Mastra } from "@mastra/core";
+import type { IMastraLogger } from "@mastra/core/logger";
+import { RetryAfterError } from "inngest";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import {
+  students,
+  broadcasts,
+  broadcastDeliveries,
+} from "../../../shared/schema";
+import { eq, and, lt } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { inngest } from "../inngest/client";
+import { sendTelegramMessage, escapeHtml } from "../tools/telegramMessaging";
+import { studentLanguage } from "../utils/userLanguage";
+import { t } from "../i18n";
+
+export const BROADCAST_CREATED_EVENT = "broadcast/created";
+const BROADCAST_DELIVER_EVENT = "broadcast/deliver";
+
+// Telegram allows roughly 30 messages per second per bot; leave headroom for regular replies
+const BROADCAST_MESSAGES_PER_SECOND =
+  Number(process.env.BROADCAST_MESSAGES_PER_SECOND) || 20;
+
+// Errors meaning the user can't be reached at all, so retrying is pointless
+const UNREACHABLE_PATTERN =
+  /blocked by the user|user is deactivated|chat not found|bot can't initiate/i;
+
+type DeliveryOutcome = "sent" | "blocked" | "failed" | "skipped";
+
+// A send takes seconds; a delivery still "sending" after this long lost its worker
+const SENDING_TIMEOUT_MINUTES =
+  Number(process.env.BROADCAST_SENDING_TIMEOUT_MINUTES) || 15;
+
+// Marks deliveries whose worker crashed between the claim and the result as "unknown". They are
+// not retried: the message may already have reached the student.
+export async function expireStaleBroadcastDeliveries(
+  db: PostgresJsDatabase,
+  broadcastId?: number,
+): Promise<number> {
+  const cutoff = new Date(Date.now() - SENDING_TIMEOUT_MINUTES * 60 * 1000);
+  const expired = await db
+    .update(broadcastDeliveries)
+    .set({
+      status: "unknown",
+      error: "Delivery interrupted before Telegram confirmed it",
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(broadcastDeliveries.status, "sending"),
+        lt(broadcastDeliveries.updatedAt, cutoff),
+        broadcastId !== undefined
+          ? eq(broadcastDeliveries.broadcastId, broadcastId)
+          : undefined,
+      ),
+    )
+    .returning({ id: broadcastDeliveries.id });
+  return expired.length;
+}
+
+// Daily at 03:00 UTC unless overridden
+export const BROADCAST_EXPIRY_CRON =
+  process.env.BROADCAST_EXPIRY_CRON || "0 3 * * *";
+
+// Scheduled sweep over all broadcasts, so an interrupted delivery is settled even if nobody asks
+// for the report
+export async function expireBroadcastDeliveries(
+  logger?: IMastraLogger,
+): Promise<{ expired: number }> {
+  logger?.info("🔧 [BroadcastExpiry] Starting sweep");
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    logger?.error("❌ [BroadcastExpiry] Database connection string not found");
+    return { expired: 0 };
+  }
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+
+  try {
+    const expired = await expireStaleBroadcastDeliveries(db);
+    logger?.info("✅ [BroadcastExpiry] Interrupted deliveries:", { expired });
+    return { expired };
+  } finally {
+    await client.end();
+  }
+}
+
+// Sends one announcement. Throws RetryAfterError on rate limiting so Inngest retries after the advised delay.
+async function deliverBroadcastMessage(
+  deliveryId: number,
+  logger?: IMastraLogger,
+): Promise<DeliveryOutcome> {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error("Database connection string not found");
+  }
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+
+  try {
+    const claimed = await db
+      .update(broadcastDeliveries)
+      .set({ status: "sending", updatedAt: new Date() })
+      .where(
+        and(
+          eq(broadcastDeliveries.id, deliveryId),
+          eq(broadcastDeliveries.status, "pending"),
+        ),
+      )
+      .returning({
+        broadcastId: broadcastDeliveries.broadcastId,
+        studentId: broadcastDeliveries.studentId,
+      });
+
+    if (claimed.length === 0) {
+      return "skipped";
+    }
+
+    const broadcast = await db
+      .select({
+        text: broadcasts.text,
+        senderFirstName: students.firstName,
+        senderLastName: students.lastName,
+      })
+      .from(broadcasts)
+      .leftJoin(students, eq(broadcasts.senderId, students.id))
+      .where(eq(broadcasts.id, claimed[0].broadcastId))
+      .limit(1);
+
+    const recipient = await db
+      .select({
+        telegramUserId: students.telegramUserId,
+        language: students.language,
+        telegramLanguageCode: students.telegramLanguageCode,
+      })
+      .from(students)
+      .where(eq(students.id, claimed[0].studentId))
+      .limit(1);
+
+    const { text: body, senderFirstName, senderLastName } = broadcast[0];
+    const senderName = senderFirstName
+      ? `${senderFirstName} ${senderLastName || ""}`.trim()
+      : null;
+    const language = studentLanguage(recipient[0]);
+    const header = senderName
+      ? t(language, "broadcast.headerFrom", { sender: escapeHtml(senderName) })
+      : t(language, "broadcast.header");
+    const text = `${header}\n\n${escapeHtml(body)}`;
+
+    const result = await sendTelegramMessage(
+      recipient[0].telegramUserId,
+      text,
+      { logger },
+    );
+
+    if (result.success) {
+      await db
+        .update(broadcastDeliveries)
+        .set({
+          status: "sent",
+          messageId: result.messageId ?? null,
+          error: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(broadcastDeliveries.id, deliveryId));
+      return "sent";
+    }
+
+    if (result.status === 429 || (result.status && result.status >= 500)) {
+      // Hand the delivery back so the retry can claim it again
+      await db
+        .update(broadcastDeliveries)
+        .set({
+          status: "pending",
+          error: result.error || null,
+          updatedAt: new Date(),
+        })
+        .where(eq(broadcastDeliveries.id, deliveryId));
+      throw new RetryAfterError(
+        result.error || "Telegram rate limit",
+        `${result.retryAfter || 5}s`,
+      );
+    }
+
+    const outcome =
+      result.status === 403 || UNREACHABLE_PATTERN.test(result.error || "")
+        ? "blocked"
+        : "failed";
+    await db
+      .update(broadcastDeliveries)
+      .set({
+        status: outcome,
+        error: result.error || null,
+        updatedAt: new Date(),
+      })
+      .where(eq(broadcastDeliveries.id, deliveryId));
+    return outcome;
+  } finally {
+    await client.end();
+  }
+}
+
+// Fans a new broadcast out into one event per recipient
+export function createBroadcastFanOutFunction(mastra: Mastra) {
+  return inngest.createFunction(
+    { id: "broadcast-fan-out" },
+    { event: BROADCAST_CREATED_EVENT },
+    async ({ event, step }) => {
+      const deliveryIds = await step.run("load-recipients", async () => {
+        const connectionString = process.env.DATABASE_URL;
+        if (!connectionString) {
+          throw new Error("Database connection string not found");
+        }
+        const client = postgres(connectionString);
+        try {
+          const rows = await drizzle(client)
+            .select({ id: broadcastDeliveries.id })
+            .from(broadcastDeliveries)
+            .where(
+              and(
+                eq(broadcastDeliveries.broadcastId, event.data.broadcastId),
+                eq(broadcastDeliveries.status, "pending"),
+              ),
+            );
+          return rows.map((row) => row.id);
+        } finally {
+          await client.end();
+        }
+      });
+
+      if (deliveryIds.length > 0) {
+        await step.sendEvent(
+          "fan-out",
+          deliveryIds.map((deliveryId) => ({
+            name: BROADCAST_DELIVER_EVENT,
+            data: { deliveryId },
+          })),
+        );
+      }
+
+      mastra.getLogger()?.info("✅ [Broadcasts] Broadcast fanned out:", {
+        broadcastId: event.data.broadcastId,
+        recipients: deliveryIds.length,
+      });
+      return { recipients: deliveryIds.length };
+    },
+  );
+}
+
+// Delivers a single message; the throttle keeps the whole fan-out under Telegram's rate limit
+export function createBroadcastDeliverFunction(mastra: Mastra) {
+  return inngest.createFunction(
+    {
+      id: "broadcast-deliver",
+      throttle: { limit: BROADCAST_MESSAGES_PER_SECOND, period: "1s" },
+      retries: 5,
+    },
+    { event: BROADCAST_DELIVER_EVENT },
+    async ({ event, step }) => {
+      const outcome = await step.run("send-message", () =>
+        deliverBroadcastMessage(event.data.deliveryId, mastra.getLogger()),
+      );
+      return { outcome };
+    },
+  );
+}
@@ -0,0 +1,255 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { drizzle, type PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import {
+  students,
+  groups,
+  homework,
+  submissions,
+} from "../../../shared/schema";
+import { eq, and, or, asc, gte, lt, lte, inArray, isNull } from "drizzle-orm";
+import {
+  addDays,
+  formatDateTime,
+  formatLocalDateTime,
+  formatLocalDay,
+  zonedParts,
+  zonedTimeToUtc,
+} from "../utils/dates";
+import {
+  getGroupSettings,
+  withReaderLanguage,
+  DEFAULT_GROUP_SETTINGS,
+} from "../utils/groupSettings";
+import { studentLanguage } from "../utils/userLanguage";
+import { t, type Language } from "../i18n";
+import { getStudentGroupIds } from "../utils/groupMembership";
+import { getStudentLessonsForDate } from "../tools/timetable";
+import { sendTelegramMessage, escapeHtml } from "../tools/telegramMessaging";
+
+// Checks for due digests; each student's digest goes out on the first run after their chosen time
+export const DAILY_DIGEST_CRON =
+  process.env.DAILY_DIGEST_CRON || "*/15 * * * *";
+
+// Longer overdue lists are cut off with "and N more"
+const MAX_OVERDUE_ITEMS = 10;
+
+// Builds the digest text, or null when there is nothing to report.
+// "Today" and "tomorrow" are days in the time zone of the student's primary group.
+export async function buildDailyDigest(
+  db: PostgresJsDatabase,
+  student: { id: number; groupId: number | null; firstName: string | null },
+  language: Language,
+): Promise<string | null> {
+  const groupIds = await getStudentGroupIds(db, student);
+  if (groupIds.length === 0) {
+    return null;
+  }
+
+  const settings = await getGroupSettings(db, student.groupId);
+  const now = new Date();
+  const day = zonedParts(now, settings.timeZone).day;
+  const endOfTomorrow = zonedTimeToUtc(
+    addDays(day, 2),
+    "00:00",
+    settings.timeZone,
+  );
+
+  const rows = await db
+    .select({
+      title: homework.title,
+      subject: homework.subject,
+      dueDate: homework.dueDate,
+      submittedAt: submissions.submittedAt,
+    })
+    .from(homework)
+    .leftJoin(
+      submissions,
+      and(
+        eq(submissions.homeworkId, homework.id),
+        eq(submissions.studentId, student.id),
+      ),
+    )
+    .where(
+      and(
+        inArray(homework.groupId, groupIds),
+        isNull(homework.deletedAt),
+        lt(homework.dueDate, endOfTomorrow),
+        // Past deadlines only matter while nothing has been submitted
+        or(isNull(submissions.id), gte(homework.dueDate, now)),
+      ),
+    )
+    .orderBy(asc(homework.dueDate));
+
+  const display = withReaderLanguage(settings, language);
+  const line = (hw: (typeof rows)[number]) =>
+    `• ${escapeHtml(hw.title)}${hw.subject ? ` (${escapeHtml(hw.subject)})` : ""} — ${formatLocalDateTime(hw.dueDate!, display)}${hw.submittedAt ? " ✅" : ""}`;
+
+  const overdue = rows.filter((hw) => hw.dueDate! < now);
+  const dueToday = rows.filter(
+    (hw) =>
+      hw.dueDate! >= now &&
+      formatDateTime(hw.dueDate!, settings.timeZone).startsWith(day),
+  );
+  const dueTomorrow = rows.filter((hw) =>
+    formatDateTime(hw.dueDate!, settings.timeZone).startsWith(addDays(day, 1)),
+  );
+  const lessonsToday = await getStudentLessonsForDate(db, groupIds, day);
+
+  if (
+    overdue.length +
+      dueToday.length +
+      dueTomorrow.length +
+      lessonsToday.length ===
+    0
+  ) {
+    return null;
+  }
+
+  const sections = [
+    t(language, "digest.greeting", {
+      name: student.firstName ? `, ${escapeHtml(student.firstName)}` : "",
+      day: formatLocalDay(day, display),
+    }),
+  ];
+  if (lessonsToday.length > 0) {
+    sections.push(
+      `${t(language, "digest.lessonsToday")}\n${lessonsToday
+        .map(
+          (lesson) =>
+            `• ${lesson.startTime} ${escapeHtml(lesson.subject)}${lesson.room ? `, ${escapeHtml(lesson.room)}` : ""}` +
+            (lesson.changed ? t(language, "digest.lessonChanged") : ""),
+        )
+        .join("\n")}`,
+    );
+  }
+  if (dueToday.length > 0) {
+    sections.push(
+      `${t(language, "digest.dueToday")}\n${dueToday.map(line).join("\n")}`,
+    );
+  }
+  if (dueTomorrow.length > 0) {
+    sections.push(
+      `${t(language, "digest.dueTomorrow")}\n${dueTomorrow.map(line).join("\n")}`,
+    );
+  }
+  if (overdue.length > 0) {
+    const rest = overdue.length - MAX_OVERDUE_ITEMS;
+    sections.push(
+      `${t(language, "digest.overdue")}\n${overdue.slice(0, MAX_OVERDUE_ITEMS).map(line).join("\n")}` +
+        (rest > 0 ? `\n${t(language, "digest.andMore", { count: rest })}` : ""),
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+// Scheduled job. Delivery times are on the clock of the student's primary group, so students are
+// picked per time zone. Each student is claimed for the day (digestLastSentOn) before sending,
+// so overlapping runs, retries and restarts never send the same digest twice.
+export async function sendDailyDigests(
+  logger?: IMastraLogger,
+): Promise<{ sent: number; skipped: number }> {
+  logger?.info("🔧 [DailyDigest] Starting digest run");
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    logger?.error("❌ [DailyDigest] Database connection string not found");
+    return { sent: 0, skipped: 0 };
+  }
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+
+  try {
+    const now = new Date();
+    const zones = await db
+      .selectDistinct({ timezone: groups.timezone })
+      .from(groups);
+    const timeZones = [
+      ...new Set([
+        DEFAULT_GROUP_SETTINGS.timeZone,
+        ...zones.map((zone) => zone.timezone),
+      ]),
+    ];
+
+    const due = [];
+    for (const timeZone of timeZones) {
+      const { day, time } = zonedParts(now, timeZone);
+      const claimed = await db
+        .update(students)
+        .set({ digestLastSentOn: day })
+        .where(
+          and(
+            eq(students.isActive, true),
+            eq(students.digestEnabled, true),
+            or(
+              inArray(
+                students.groupId,
+                db
+                  .select({ id: groups.id })
+                  .from(groups)
+                  .where(eq(groups.timezone, timeZone)),
+              ),
+              timeZone === DEFAULT_GROUP_SETTINGS.timeZone
+                ? isNull(students.groupId)
+                : undefined,
+            ),
+            lte(students.digestTime, time),
+            or(
+              isNull(students.digestLastSentOn),
+              lt(students.digestLastSentOn, day),
+            ),
+          ),
+        )
+        .returning({
+          id: students.id,
+          telegramUserId: students.telegramUserId,
+          groupId: students.groupId,
+          firstName: students.firstName,
+          language: students.language,
+          telegramLanguageCode: students.telegramLanguageCode,
+        });
+      due.push(...claimed);
+    }
+
+    let sent = 0;
+    let skipped = 0;
+    for (const student of due) {
+      try {
+        const text = await buildDailyDigest(
+          db,
+          student,
+          studentLanguage(student),
+        );
+        if (!text) {
+          skipped++;
+          continue;
+        }
+        const result = await sendTelegramMessage(student.telegramUserId, text, {
+          logger,
+        });
+        if (result.success) {
+          sent++;
+        } else {
+          skipped++;
+        }
+      } catch (error) {
+        logger?.error("❌ [DailyDigest] Error building digest:", {
+          studentId: student.id,
+          error,
+        });
+        skipped++;
+      }
+    }
+
+    logger?.info("✅ [DailyDigest] Digests sent:", {
+      due: due.length,
+      sent,
+      skipped,
+    });
+    return { sent, skipped };
+  } finally {
+    await client.end();
+  }
+}
@@ -0,0 +1,177 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import {
+  students,
+  groups,
+  homework,
+  homeworkReminders,
+  submissions,
+} from "../../../shared/schema";
+import { eq, and, gt, lte, isNull } from "drizzle-orm";
+import { isGroupMember } from "../utils/groupMembership";
+import { formatLocalDateTime } from "../utils/dates";
+import { toGroupSettings, withReaderLanguage } from "../utils/groupSettings";
+import { studentLanguage } from "../utils/userLanguage";
+import { t, type Language } from "../i18n";
+import { sendTelegramMessage, escapeHtml } from "../tools/telegramMessaging";
+
+export const DEADLINE_REMINDERS_CRON =
+  process.env.DEADLINE_REMINDERS_CRON || "*/15 * * * *";
+
+// Hours before the deadline, e.g. "24,2"
+export const REMINDER_OFFSETS_MINUTES = (
+  process.env.REMINDER_OFFSETS_HOURS || "24,2"
+)
+  .split(",")
+  .map((hours) => Math.round(Number(hours) * 60))
+  .filter((minutes) => minutes > 0)
+  .sort((a, b) => a - b);
+
+function formatLeft(minutes: number, language: Language): string {
+  return minutes >= 60
+    ? t(language, "reminder.hours", { count: Math.round(minutes / 60) })
+    : t(language, "reminder.minutes", { count: minutes });
+}
+
+// Reminds active students of the homework's group who haven't submitted yet. For each student only the
+// closest offset that has been reached is sent (no 24h reminder for homework added an hour before the deadline),
+// and the reminder is claimed in `homework_reminders` before sending so it goes out at most once.
+export async function sendDeadlineReminders(
+  logger?: IMastraLogger,
+): Promise<{ sent: number; failed: number }> {
+  logger?.info("🔧 [DeadlineReminders] Starting reminder scan with offsets:", {
+    offsets: REMINDER_OFFSETS_MINUTES,
+  });
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString || REMINDER_OFFSETS_MINUTES.length === 0) {
+    logger?.error(
+      "❌ [DeadlineReminders] Database connection string or reminder offsets not configured",
+    );
+    return { sent: 0, failed: 0 };
+  }
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+
+  try {
+    const now = new Date();
+    const horizon = new Date(
+      now.getTime() +
+        REMINDER_OFFSETS_MINUTES[REMINDER_OFFSETS_MINUTES.length - 1] *
+          60 *
+          1000,
+    );
+
+    const upcoming = await db
+      .select({
+        id: homework.id,
+        title: homework.title,
+        subject: homework.subject,
+        dueDate: homework.dueDate,
+        groupId: homework.groupId,
+        timezone: groups.timezone,
+        locale: groups.locale,
+        weekStart: groups.weekStart,
+      })
+      .from(homework)
+      .innerJoin(groups, eq(homework.groupId, groups.id))
+      .where(
+        and(
+          isNull(homework.deletedAt),
+          gt(homework.dueDate, now),
+          lte(homework.dueDate, horizon),
+        ),
+      );
+
+    let sent = 0;
+    let failed = 0;
+    for (const hw of upcoming) {
+      if (!hw.groupId || !hw.dueDate) {
+        continue;
+      }
+
+      const minutesLeft = Math.floor(
+        (hw.dueDate.getTime() - now.getTime()) / (60 * 1000),
+      );
+      const offsetMinutes = REMINDER_OFFSETS_MINUTES.find(
+        (offset) => minutesLeft <= offset,
+      );
+      if (!offsetMinutes) {
+        continue;
+      }
+
+      const recipients = await db
+        .select({
+          id: students.id,
+          telegramUserId: students.telegramUserId,
+          language: students.language,
+          telegramLanguageCode: students.telegramLanguageCode,
+        })
+        .from(students)
+        .leftJoin(
+          submissions,
+          and(
+            eq(submissions.studentId, students.id),
+            eq(submissions.homeworkId, hw.id),
+          ),
+        )
+        .where(
+          and(
+            eq(students.isActive, true),
+            isGroupMember(hw.groupId),
+            isNull(submissions.id),
+          ),
+        );
+
+      const dueDate = hw.dueDate;
+      const text = (language: Language) =>
+        t(language, "reminder.text", {
+          title: escapeHtml(hw.title),
+          subject: hw.subject ? ` (${escapeHtml(hw.subject)})` : "",
+          left: formatLeft(minutesLeft, language),
+          date: formatLocalDateTime(
+            dueDate,
+            withReaderLanguage(toGroupSettings(hw), language),
+          ),
+        });
+
+      for (const recipient of recipients) {
+        const claimed = await db
+          .insert(homeworkReminders)
+          .values({ homeworkId: hw.id, studentId: recipient.id, offsetMinutes })
+          .onConflictDoNothing()
+          .returning({ id: homeworkReminders.id });
+
+        if (claimed.length === 0) {
+          continue;
+        }
+
+        const result = await sendTelegramMessage(
+          recipient.telegramUserId,
+          text(studentLanguage(recipient)),
+          { logger },
+        );
+        if (result.success) {
+          sent++;
+        } else {
+          // Release the claim so the next run retries while the reminder is still relevant
+          await db
+            .delete(homeworkReminders)
+            .where(eq(homeworkReminders.id, claimed[0].id));
+          failed++;
+        }
+      }
+    }
+
+    logger?.info("✅ [DeadlineReminders] Reminders sent:", {
+      homework: upcoming.length,
+      sent,
+      failed,
+    });
+    return { sent, failed };
+  } finally {
+    await client.end();
+  }
+}
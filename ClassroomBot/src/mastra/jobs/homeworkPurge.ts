@@ -0,0 +1,62 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { homework } from "../../../shared/schema";
+import { and, isNotNull, lt } from "drizzle-orm";
+import { HOMEWORK_RETENTION_DAYS } from "../tools/homeworkManagement";
+import { writeAuditLog } from "../utils/auditLog";
+
+// Daily at 03:00 UTC unless overridden
+export const HOMEWORK_PURGE_CRON =
+  process.env.HOMEWORK_PURGE_CRON || "0 3 * * *";
+
+// Permanently removes homework that has been in the trash longer than the retention period.
+// Submissions and grades go with it via ON DELETE CASCADE.
+export async function purgeDeletedHomework(
+  logger?: IMastraLogger,
+): Promise<{ purged: number }> {
+  logger?.info("🔧 [HomeworkPurge] Starting purge with retention days:", {
+    days: HOMEWORK_RETENTION_DAYS,
+  });
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    logger?.error("❌ [HomeworkPurge] Database connection string not found");
+    return { purged: 0 };
+  }
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+
+  try {
+    const cutoff = new Date(
+      Date.now() - HOMEWORK_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    const purged = await db.transaction(async (tx) => {
+      const rows = await tx
+        .delete(homework)
+        .where(
+          and(isNotNull(homework.deletedAt), lt(homework.deletedAt, cutoff)),
+        )
+        .returning();
+
+      for (const row of rows) {
+        await writeAuditLog(tx, {
+          action: "homework.purge",
+          targetType: "homework",
+          targetId: row.id,
+          groupId: row.groupId,
+          before: row,
+        });
+      }
+
+      return rows.length;
+    });
+
+    logger?.info("✅ [HomeworkPurge] Purged homework:", { purged });
+    return { purged };
+  } finally {
+    await client.end();
+  }
+}
@@ -0,0 +1,162 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { drizzle, type PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { homework, homeworkTemplates } from "../../../shared/schema";
+import { eq, isNull } from "drizzle-orm";
+import {
+  addDays,
+  daysBetween,
+  isoWeekday,
+  zonedParts,
+  zonedTimeToUtc,
+} from "../utils/dates";
+import { getGroupSettings } from "../utils/groupSettings";
+import { getLessonsForDate } from "../tools/timetable";
+import { writeAuditLog } from "../utils/auditLog";
+
+// Daily at 02:00 UTC unless overridden
+export const HOMEWORK_TEMPLATES_CRON =
+  process.env.HOMEWORK_TEMPLATES_CRON || "0 2 * * *";
+
+const DEFAULT_DUE_TIME = "23:59";
+
+type HomeworkTemplate = typeof homeworkTemplates.$inferSelect;
+
+// Due time ("HH:MM") of the template's occurrence on a day, or null if it doesn't occur then
+async function occurrenceOn(
+  db: PostgresJsDatabase,
+  template: HomeworkTemplate,
+  day: string,
+): Promise<string | null> {
+  const dueTime = template.dueTime?.slice(0, 5) || DEFAULT_DUE_TIME;
+  switch (template.recurrence) {
+    case "weekly":
+      return template.weekdays?.includes(isoWeekday(day)) ? dueTime : null;
+    case "interval": {
+      const offset = daysBetween(template.startDate, day);
+      return template.intervalDays && offset % template.intervalDays === 0
+        ? dueTime
+        : null;
+    }
+    case "lesson": {
+      const subject = (template.subject || "").toLowerCase();
+      const lesson = (await getLessonsForDate(db, template.groupId, day)).find(
+        (l) => l.subject.toLowerCase() === subject,
+      );
+      return lesson ? lesson.startTime : null;
+    }
+  }
+}
+
+// Creates the template's homework up to `leadDays` ahead, with days and due times in the group's time zone.
+// The template row is locked and `generatedUntil` moves in the same transaction, so a rerun after a crash
+// or an overlapping run never creates duplicates.
+export async function generateFromTemplate(
+  db: PostgresJsDatabase,
+  templateId: number,
+): Promise<number> {
+  return db.transaction(async (tx) => {
+    const locked = await tx
+      .select()
+      .from(homeworkTemplates)
+      .where(eq(homeworkTemplates.id, templateId))
+      .for("update");
+
+    const template = locked[0];
+    if (!template || template.pausedAt) {
+      return 0;
+    }
+
+    const { timeZone } = await getGroupSettings(tx, template.groupId);
+    const today = zonedParts(new Date(), timeZone).day;
+    const until = addDays(today, template.leadDays);
+    let day = [
+      template.startDate,
+      today,
+      template.generatedUntil ? addDays(template.generatedUntil, 1) : "",
+    ].reduce((latest, candidate) => (candidate > latest ? candidate : latest));
+
+    let created = 0;
+    for (; day <= until; day = addDays(day, 1)) {
+      const dueTime = await occurrenceOn(tx, template, day);
+      if (!dueTime) {
+        continue;
+      }
+
+      const inserted = await tx
+        .insert(homework)
+        .values({
+          title: template.title,
+          description: template.description,
+          subject: template.subject,
+          dueDate: zonedTimeToUtc(day, dueTime, timeZone),
+          groupId: template.groupId,
+          createdBy: template.createdBy,
+          templateId: template.id,
+        })
+        .returning();
+
+      await writeAuditLog(tx, {
+        action: "homework.create",
+        targetType: "homework",
+        targetId: inserted[0].id,
+        groupId: template.groupId,
+        after: inserted[0],
+      });
+      created++;
+    }
+
+    await tx
+      .update(homeworkTemplates)
+      .set({ generatedUntil: until })
+      .where(eq(homeworkTemplates.id, template.id));
+
+    return created;
+  });
+}
+
+// Scheduled job: runs every active template
+export async function generateRecurringHomework(
+  logger?: IMastraLogger,
+): Promise<{ templates: number; created: number }> {
+  logger?.info("🔧 [HomeworkTemplates] Starting recurring homework generation");
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    logger?.error(
+      "❌ [HomeworkTemplates] Database connection string not found",
+    );
+    return { templates: 0, created: 0 };
+  }
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+
+  try {
+    const active = await db
+      .select({ id: homeworkTemplates.id })
+      .from(homeworkTemplates)
+      .where(isNull(homeworkTemplates.pausedAt));
+
+    let created = 0;
+    for (const { id } of active) {
+      try {
+        created += await generateFromTemplate(db, id);
+      } catch (error) {
+        // One broken template shouldn't block the others
+        logger?.error(
+          "❌ [HomeworkTemplates] Error generating from template:",
+          { templateId: id, error },
+        );
+      }
+    }
+
+    logger?.info("✅ [HomeworkTemplates] Recurring homework generated:", {
+      templates: active.length,
+      created,
+    });
+    return { templates: active.length, created };
+  } finally {
+    await client.end();
+  }
+}
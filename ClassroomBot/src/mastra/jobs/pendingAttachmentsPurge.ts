@@ -0,0 +1,36 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { purgeStalePendingAttachments } from "../utils/pendingAttachments";
+
+// Daily at 03:00 UTC unless overridden
+export const PENDING_ATTACHMENTS_PURGE_CRON =
+  process.env.PENDING_ATTACHMENTS_PURGE_CRON || "0 3 * * *";
+
+// Drops album files that no captioned message ever picked up
+export async function purgePendingAttachments(
+  logger?: IMastraLogger,
+): Promise<{ purged: number }> {
+  logger?.info("🔧 [PendingAttachmentsPurge] Starting purge");
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    logger?.error(
+      "❌ [PendingAttachmentsPurge] Database connection string not found",
+    );
+    return { purged: 0 };
+  }
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+
+  try {
+    const purged = await purgeStalePendingAttachments(db);
+    logger?.info("✅ [PendingAttachmentsPurge] Purged album files:", {
+      purged,
+    });
+    return { purged };
+  } finally {
+    await client.end();
+  }
+}
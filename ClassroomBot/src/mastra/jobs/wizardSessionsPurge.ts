@@ -0,0 +1,36 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { purgeExpiredWizardSessions } from "../utils/wizard";
+
+// Daily at 03:00 UTC unless overridden
+export const WIZARD_SESSIONS_PURGE_CRON =
+  process.env.WIZARD_SESSIONS_PURGE_CRON || "0 3 * * *";
+
+// Removes the sessions of wizards that were abandoned and have timed out
+export async function purgeWizardSessions(
+  logger?: IMastraLogger,
+): Promise<{ purged: number }> {
+  logger?.info("🔧 [WizardSessionsPurge] Starting purge");
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    logger?.error(
+      "❌ [WizardSessionsPurge] Database connection string not found",
+    );
+    return { purged: 0 };
+  }
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+
+  try {
+    const purged = await purgeExpiredWizardSessions(db);
+    logger?.info("✅ [WizardSessionsPurge] Purged expired sessions:", {
+      purged,
+    });
+    return { purged };
+  } finally {
+    await client.end();
+  }
+}
@@ -0,0 +1,643 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { students, groups, attendance } from "../../../shared/schema";
+import { eq, and, gte, lte, asc, sql } from "drizzle-orm";
+import { zonedParts } from "../utils/dates";
+import { getGroupSettings } from "../utils/groupSettings";
+import { getStudentGroupIds, isGroupMember } from "../utils/groupMembership";
+import { writeAuditLog } from "../utils/auditLog";
+import { t, languageOf } from "../i18n";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in format YYYY-MM-DD");
+
+// Tool for marking a single student's attendance
+export const markAttendanceTool = createTool({
+  id: "mark-attendance-tool",
+  description:
+    "Mark a student as present, absent or late for a day (only for monitors, admins, and owners)",
+  inputSchema: z.object({
+    studentId: z.string().describe("Student ID (e.g. ST001)"),
+    status: z.enum(["present", "absent", "late"]).describe("Attendance status"),
+    groupId: z
+      .number()
+      .optional()
+      .describe(
+        "Group ID of the lesson (required when the student is in several groups)",
+      ),
+    date: dateString
+      .optional()
+      .describe("Date in format YYYY-MM-DD (defaults to today)"),
+    note: z
+      .string()
+      .optional()
+      .describe("Optional note, e.g. reason for absence"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { studentId, status, groupId, date, note },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const markedByTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [MarkAttendanceTool] Starting attendance mark with params:",
+      {
+        markedByTelegramId,
+        studentId,
+        status,
+        groupId,
+        date,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [MarkAttendanceTool] Database connection string not found",
+        );
+        return { success: false, message: t(language, "common.dbError") };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const marker = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(markedByTelegramId))
+        .limit(1);
+
+      if (marker.length === 0) {
+        await client.end();
+        logger?.info("❌ [MarkAttendanceTool] Marker not found in database");
+        return { success: false, message: t(language, "common.userNotFound") };
+      }
+
+      const markerData = marker[0];
+      const accessLevel = markerData.accessLevel || "student";
+      if (!["monitor", "admin", "owner"].includes(accessLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [MarkAttendanceTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          message: t(language, "attendance.noPermission"),
+        };
+      }
+
+      const student = await db
+        .select({
+          id: students.id,
+          groupId: students.groupId,
+          firstName: students.firstName,
+          lastName: students.lastName,
+        })
+        .from(students)
+        .where(eq(students.studentId, studentId.toUpperCase()))
+        .limit(1);
+
+      if (student.length === 0) {
+        await client.end();
+        logger?.info("❌ [MarkAttendanceTool] Student not found:", studentId);
+        return {
+          success: false,
+          message: t(language, "common.studentNotFound", { studentId }),
+        };
+      }
+
+      const studentData = student[0];
+
+      // Resolve the lesson group: shared by the student and (for monitors) the marker
+      let candidateGroupIds = await getStudentGroupIds(db, studentData);
+      if (groupId) {
+        candidateGroupIds = candidateGroupIds.filter((id) => id === groupId);
+      }
+      if (accessLevel === "monitor") {
+        const markerGroupIds = await getStudentGroupIds(db, markerData);
+        candidateGroupIds = candidateGroupIds.filter((id) =>
+          markerGroupIds.includes(id),
+        );
+      }
+
+      if (candidateGroupIds.length === 0) {
+        await client.end();
+        logger?.info("❌ [MarkAttendanceTool] No matching group for student");
+        return {
+          success: false,
+          message:
+            accessLevel === "monitor"
+              ? t(language, "attendance.ownGroupsOnly")
+              : t(language, "attendance.notInGroup"),
+        };
+      }
+
+      if (candidateGroupIds.length > 1) {
+        await client.end();
+        logger?.info(
+          "📝 [MarkAttendanceTool] Ambiguous group:",
+          candidateGroupIds,
+        );
+        return {
+          success: false,
+          message: t(language, "attendance.studentSeveralGroups", {
+            groups: candidateGroupIds.join(", "),
+          }),
+        };
+      }
+
+      // "Today" is the group's calendar day, not the server's
+      const targetDate =
+        date ||
+        zonedParts(
+          new Date(),
+          (await getGroupSettings(db, candidateGroupIds[0])).timeZone,
+        ).day;
+      const saved = await db
+        .insert(attendance)
+        .values({
+          groupId: candidateGroupIds[0],
+          date: targetDate,
+          studentId: studentData.id,
+          status,
+          note: note || null,
+          markedBy: markerData.id,
+        })
+        .onConflictDoUpdate({
+          target: [attendance.groupId, attendance.date, attendance.studentId],
+          set: {
+            status,
+            note: note || null,
+            markedBy: markerData.id,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+
+      await writeAuditLog(db, {
+        actorId: markerData.id,
+        actorTelegramId: markedByTelegramId,
+        action: "attendance.mark",
+        targetType: "attendance",
+        targetId: saved[0].id,
+        groupId: candidateGroupIds[0],
+        after: saved[0],
+      });
+
+      await client.end();
+
+      const statusLabel = t(
+        language,
+        `attendance.status.${status as "present" | "absent" | "late"}`,
+      );
+      const studentName = studentData.firstName
+        ? `${studentData.firstName} ${studentData.lastName || ""}`.trim()
+        : studentId.toUpperCase();
+
+      logger?.info("✅ [MarkAttendanceTool] Attendance marked");
+
+      return {
+        success: true,
+        message: `${studentName} ${targetDate}: ${statusLabel}.`,
+      };
+    } catch (error) {
+      logger?.error("❌ [MarkAttendanceTool] Error marking attendance:", error);
+      return { success: false, message: t(language, "attendance.markError") };
+    }
+  },
+});
+
+// Tool for marking the whole group present in one go, with exceptions
+export const markGroupAttendanceTool = createTool({
+  id: "mark-group-attendance-tool",
+  description:
+    "Mark everyone in a group present for a day, except the listed absent or late students (only for monitors, admins, and owners)",
+  inputSchema: z.object({
+    groupId: z
+      .number()
+      .optional()
+      .describe(
+        "Group ID (required when the marker belongs to several groups; monitors only their own groups)",
+      ),
+    date: dateString
+      .optional()
+      .describe("Date in format YYYY-MM-DD (defaults to today)"),
+    absentStudentIds: z
+      .array(z.string())
+      .default([])
+      .describe("Student IDs to mark as absent"),
+    lateStudentIds: z
+      .array(z.string())
+      .default([])
+      .describe("Student IDs to mark as late"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    present: z.number(),
+    absent: z.number(),
+    late: z.number(),
+    unknownStudentIds: z.array(z.string()),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { groupId, date, absentStudentIds, lateStudentIds },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const markedByTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [MarkGroupAttendanceTool] Starting group attendance with params:",
+      {
+        markedByTelegramId,
+        groupId,
+        date,
+        absentStudentIds,
+        lateStudentIds,
+      },
+    );
+
+    const empty = { present: 0, absent: 0, late: 0, unknownStudentIds: [] };
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [MarkGroupAttendanceTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const marker = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(markedByTelegramId))
+        .limit(1);
+
+      if (marker.length === 0) {
+        await client.end();
+        logger?.info(
+          "❌ [MarkGroupAttendanceTool] Marker not found in database",
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const markerData = marker[0];
+      const accessLevel = markerData.accessLevel || "student";
+      if (!["monitor", "admin", "owner"].includes(accessLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [MarkGroupAttendanceTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "attendance.noPermission"),
+        };
+      }
+
+      const isAdmin = ["admin", "owner"].includes(accessLevel);
+      const markerGroupIds = await getStudentGroupIds(db, markerData);
+
+      if (groupId && !isAdmin && !markerGroupIds.includes(groupId)) {
+        await client.end();
+        logger?.info(
+          "❌ [MarkGroupAttendanceTool] Monitor marked another group:",
+          groupId,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "attendance.ownGroupsOnly"),
+        };
+      }
+
+      if (!groupId && markerGroupIds.length > 1) {
+        await client.end();
+        logger?.info(
+          "📝 [MarkGroupAttendanceTool] Ambiguous group:",
+          markerGroupIds,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.severalGroups", {
+            groups: markerGroupIds.join(", "),
+          }),
+        };
+      }
+
+      const targetGroupId = groupId || markerGroupIds[0];
+      if (!targetGroupId) {
+        await client.end();
+        logger?.info("❌ [MarkGroupAttendanceTool] No group to mark");
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.noGroup"),
+        };
+      }
+
+      const groupStudents = await db
+        .select({ id: students.id, studentId: students.studentId })
+        .from(students)
+        .where(and(isGroupMember(targetGroupId), eq(students.isActive, true)));
+
+      if (groupStudents.length === 0) {
+        await client.end();
+        logger?.info(
+          "❌ [MarkGroupAttendanceTool] Group has no active students:",
+          targetGroupId,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "attendance.noStudents"),
+        };
+      }
+
+      const absentSet = new Set(
+        (absentStudentIds as string[]).map((id) => id.toUpperCase()),
+      );
+      const lateSet = new Set(
+        (lateStudentIds as string[]).map((id) => id.toUpperCase()),
+      );
+      const knownIds = new Set(groupStudents.map((s) => s.studentId));
+      const unknownStudentIds = [...absentSet, ...lateSet].filter(
+        (id) => !knownIds.has(id),
+      );
+
+      const targetDate =
+        date ||
+        zonedParts(
+          new Date(),
+          (await getGroupSettings(db, targetGroupId)).timeZone,
+        ).day;
+      const rows = groupStudents.map((s) => ({
+        groupId: targetGroupId,
+        date: targetDate,
+        studentId: s.id,
+        status: absentSet.has(s.studentId)
+          ? ("absent" as const)
+          : lateSet.has(s.studentId)
+            ? ("late" as const)
+            : ("present" as const),
+        markedBy: markerData.id,
+      }));
+
+      await db
+        .insert(attendance)
+        .values(rows)
+        .onConflictDoUpdate({
+          target: [attendance.groupId, attendance.date, attendance.studentId],
+          set: {
+            status: sql`excluded.status`,
+            markedBy: markerData.id,
+            updatedAt: new Date(),
+          },
+        });
+
+      await writeAuditLog(db, {
+        actorId: markerData.id,
+        actorTelegramId: markedByTelegramId,
+        action: "attendance.mark_group",
+        targetType: "group",
+        targetId: targetGroupId,
+        groupId: targetGroupId,
+        after: { date: targetDate, absent: [...absentSet], late: [...lateSet] },
+      });
+
+      await client.end();
+
+      const counts = {
+        present: rows.filter((r) => r.status === "present").length,
+        absent: rows.filter((r) => r.status === "absent").length,
+        late: rows.filter((r) => r.status === "late").length,
+      };
+
+      logger?.info(
+        "✅ [MarkGroupAttendanceTool] Group attendance marked:",
+        counts,
+      );
+
+      return {
+        success: true,
+        ...counts,
+        unknownStudentIds,
+        message:
+          t(language, "attendance.groupMarked", {
+            date: targetDate,
+            ...counts,
+          }) +
+          (unknownStudentIds.length > 0
+            ? t(language, "attendance.unknownStudents", {
+                studentIds: unknownStudentIds.join(", "),
+              })
+            : ""),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [MarkGroupAttendanceTool] Error marking group attendance:",
+        error,
+      );
+      return {
+        success: false,
+        ...empty,
+        message: t(language, "attendance.markError"),
+      };
+    }
+  },
+});
+
+// Tool for per-student absence totals over a date range
+export const attendanceReportTool = createTool({
+  id: "attendance-report-tool",
+  description:
+    "Show per-student absence and lateness totals over a date range (only for admins and owners)",
+  inputSchema: z.object({
+    fromDate: dateString.describe(
+      "Start date in format YYYY-MM-DD (inclusive)",
+    ),
+    toDate: dateString.describe("End date in format YYYY-MM-DD (inclusive)"),
+    groupId: z.number().optional().describe("Only include this group"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    report: z.array(
+      z.object({
+        studentId: z.string(),
+        name: z.string(),
+        groupName: z.string(),
+        absent: z.number(),
+        late: z.number(),
+        present: z.number(),
+      }),
+    ),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { fromDate, toDate, groupId },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const requestedByTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [AttendanceReportTool] Starting report with params:", {
+      requestedByTelegramId,
+      fromDate,
+      toDate,
+      groupId,
+    });
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [AttendanceReportTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          report: [],
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({ accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(requestedByTelegramId))
+        .limit(1);
+
+      if (user.length === 0) {
+        await client.end();
+        logger?.info("❌ [AttendanceReportTool] User not found in database");
+        return {
+          success: false,
+          report: [],
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const accessLevel = user[0].accessLevel || "student";
+      if (!["admin", "owner"].includes(accessLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [AttendanceReportTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          report: [],
+          message: t(language, "attendance.adminOnly"),
+        };
+      }
+
+      const conditions = [
+        gte(attendance.date, fromDate),
+        lte(attendance.date, toDate),
+      ];
+      if (groupId) {
+        conditions.push(eq(attendance.groupId, groupId));
+      }
+
+      const rows = await db
+        .select({
+          studentId: students.studentId,
+          firstName: students.firstName,
+          lastName: students.lastName,
+          groupName: groups.groupName,
+          absent:
+            sql<number>`count(*) filter (where ${attendance.status} = 'absent')`.mapWith(
+              Number,
+            ),
+          late: sql<number>`count(*) filter (where ${attendance.status} = 'late')`.mapWith(
+            Number,
+          ),
+          present:
+            sql<number>`count(*) filter (where ${attendance.status} = 'present')`.mapWith(
+              Number,
+            ),
+        })
+        .from(attendance)
+        .innerJoin(students, eq(attendance.studentId, students.id))
+        .leftJoin(groups, eq(attendance.groupId, groups.id))
+        .where(and(...conditions))
+        .groupBy(students.id, groups.id)
+        .orderBy(asc(groups.groupName), asc(students.lastName));
+
+      await client.end();
+
+      const report = rows
+        .map((row) => ({
+          studentId: row.studentId,
+          name: row.firstName
+            ? `${row.firstName} ${row.lastName || ""}`.trim()
+            : row.studentId,
+          groupName: row.groupName || t(language, "common.unknownGroup"),
+          absent: row.absent,
+          late: row.late,
+          present: row.present,
+        }))
+        .sort((a, b) => b.absent - a.absent);
+
+      logger?.info("✅ [AttendanceReportTool] Report built:", report.length);
+
+      return {
+        success: true,
+        report,
+        message:
+          report.length > 0
+            ? t(language, "attendance.report", {
+                from: fromDate,
+                to: toDate,
+                count: report.length,
+              })
+            : t(language, "attendance.noMarks"),
+      };
+    } catch (error) {
+      logger?.error("❌ [AttendanceReportTool] Error building report:", error);
+      return {
+        success: false,
+        report: [],
+        message: t(language, "attendance.reportError"),
+      };
+    }
+  },
+});
@@ -0,0 +1,225 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { students, groups, auditLog } from "../../../shared/schema";
+import { eq, and, or, gte, lt, desc, like, type SQL } from "drizzle-orm";
+import { addDays, zonedTimeToUtc } from "../utils/dates";
+import { getGroupSettings } from "../utils/groupSettings";
+import { t, languageOf } from "../i18n";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in format YYYY-MM-DD");
+
+// Tool for browsing the audit log
+export const viewAuditLogTool = createTool({
+  id: "view-audit-log-tool",
+  description:
+    "Show recent mutating actions (who changed what and when, with before/after values), filtered by user, group, date range or action (only for admins and owners)",
+  inputSchema: z.object({
+    studentId: z
+      .string()
+      .optional()
+      .describe("Only actions performed by or on this student ID"),
+    groupId: z.number().optional().describe("Only actions in this group"),
+    fromDate: dateString
+      .optional()
+      .describe(
+        "Start date in format YYYY-MM-DD (inclusive, in the group's time zone)",
+      ),
+    toDate: dateString
+      .optional()
+      .describe(
+        "End date in format YYYY-MM-DD (inclusive, in the group's time zone)",
+      ),
+    action: z
+      .string()
+      .optional()
+      .describe('Action or action prefix, e.g. "grade" or "homework.delete"'),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(20)
+      .describe("Maximum number of entries"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    entries: z.array(
+      z.object({
+        id: z.number(),
+        createdAt: z.string(),
+        actor: z.string().nullable(),
+        action: z.string(),
+        targetType: z.string(),
+        targetId: z.string().nullable(),
+        groupName: z.string().nullable(),
+        before: z.unknown(),
+        after: z.unknown(),
+      }),
+    ),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { studentId, groupId, fromDate, toDate, action, limit },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const requestedByTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [ViewAuditLogTool] Starting audit query with params:", {
+      requestedByTelegramId,
+      studentId,
+      groupId,
+      fromDate,
+      toDate,
+      action,
+      limit,
+    });
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [ViewAuditLogTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          entries: [],
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({ accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(requestedByTelegramId))
+        .limit(1);
+
+      if (user.length === 0) {
+        await client.end();
+        logger?.info("❌ [ViewAuditLogTool] User not found in database");
+        return {
+          success: false,
+          entries: [],
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const accessLevel = user[0].accessLevel || "student";
+      if (!["admin", "owner"].includes(accessLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [ViewAuditLogTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          entries: [],
+          message: t(language, "audit.adminOnly"),
+        };
+      }
+
+      const conditions: SQL[] = [];
+      if (studentId) {
+        const normalizedId = studentId.toUpperCase();
+        conditions.push(
+          or(
+            eq(students.studentId, normalizedId),
+            eq(auditLog.targetId, normalizedId),
+          )!,
+        );
+      }
+      if (groupId) {
+        conditions.push(eq(auditLog.groupId, groupId));
+      }
+      // Dates are days in the group's time zone, or the default one without a group filter
+      const { timeZone } = await getGroupSettings(db, groupId);
+      if (fromDate) {
+        conditions.push(
+          gte(auditLog.createdAt, zonedTimeToUtc(fromDate, "00:00", timeZone)),
+        );
+      }
+      if (toDate) {
+        conditions.push(
+          lt(
+            auditLog.createdAt,
+            zonedTimeToUtc(addDays(toDate, 1), "00:00", timeZone),
+          ),
+        );
+      }
+      if (action) {
+        conditions.push(
+          like(auditLog.action, `${action.trim().toLowerCase()}%`),
+        );
+      }
+
+      const rows = await db
+        .select({
+          id: auditLog.id,
+          createdAt: auditLog.createdAt,
+          actorStudentId: students.studentId,
+          actorFirstName: students.firstName,
+          actorLastName: students.lastName,
+          actorTelegramId: auditLog.actorTelegramId,
+          action: auditLog.action,
+          targetType: auditLog.targetType,
+          targetId: auditLog.targetId,
+          groupName: groups.groupName,
+          before: auditLog.before,
+          after: auditLog.after,
+        })
+        .from(auditLog)
+        .leftJoin(students, eq(auditLog.actorId, students.id))
+        .leftJoin(groups, eq(auditLog.groupId, groups.id))
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+        .limit(limit || 20);
+
+      await client.end();
+
+      const entries = rows.map((row) => ({
+        id: row.id,
+        createdAt: row.createdAt.toISOString(),
+        actor: row.actorStudentId
+          ? row.actorFirstName
+            ? `${row.actorFirstName} ${row.actorLastName || ""}`.trim()
+            : row.actorStudentId
+          : row.actorTelegramId
+            ? `Telegram ${row.actorTelegramId}`
+            : null,
+        action: row.action,
+        targetType: row.targetType,
+        targetId: row.targetId,
+        groupName: row.groupName,
+        before: row.before,
+        after: row.after,
+      }));
+
+      logger?.info("✅ [ViewAuditLogTool] Entries found:", entries.length);
+
+      return {
+        success: true,
+        entries,
+        message:
+          entries.length > 0
+            ? t(language, "audit.found", { count: entries.length })
+            : t(language, "audit.empty"),
+      };
+    } catch (error) {
+      logger?.error("❌ [ViewAuditLogTool] Error querying audit log:", error);
+      return {
+        success: false,
+        entries: [],
+        message: t(language, "audit.error"),
+      };
+    }
+  },
+});
@@ -0,0 +1,409 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import {
+  students,
+  groups,
+  broadcasts,
+  broadcastDeliveries,
+} from "../../../shared/schema";
+import { eq, and, or, ne, desc, inArray, count } from "drizzle-orm";
+import { getStudentGroupIds, isGroupMember } from "../utils/groupMembership";
+import { writeAuditLog } from "../utils/auditLog";
+import { inngest } from "../inngest/client";
+import {
+  BROADCAST_CREATED_EVENT,
+  expireStaleBroadcastDeliveries,
+} from "../jobs/broadcasts";
+import { t, languageOf, type MessageKey } from "../i18n";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+const DELIVERY_STATUS_LABELS: Record<string, MessageKey> = {
+  pending: "broadcast.status.pending",
+  sending: "broadcast.status.sending",
+  sent: "broadcast.status.sent",
+  blocked: "broadcast.status.blocked",
+  failed: "broadcast.status.failed",
+  unknown: "broadcast.status.unknown",
+};
+
+// Tool for sending an announcement to whole groups
+export const sendBroadcastTool = createTool({
+  id: "send-broadcast-tool",
+  description:
+    "Send an announcement to every active student of one or more groups. The text is delivered exactly as given, so pass the user's wording verbatim. Delivery runs in the background; use the broadcast report tool to check it (only for monitors, admins, and owners; monitors only to their own groups)",
+  inputSchema: z.object({
+    groupIds: z
+      .array(z.number())
+      .min(1)
+      .describe("Group IDs to send the announcement to"),
+    text: z
+      .string()
+      .min(1)
+      .max(3500)
+      .describe("Announcement text, verbatim as written by the sender"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    broadcastId: z.number().nullable(),
+    recipients: z.number(),
+    message: z.string(),
+  }),
+  execute: async ({ context: { groupIds, text }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const senderTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [SendBroadcastTool] Starting broadcast with params:", {
+      senderTelegramId,
+      groupIds,
+      textLength: text.length,
+    });
+
+    const empty = { broadcastId: null, recipients: 0 };
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [SendBroadcastTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const sender = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(senderTelegramId))
+        .limit(1);
+
+      const accessLevel = sender[0]?.accessLevel || "student";
+      if (
+        sender.length === 0 ||
+        !["monitor", "admin", "owner"].includes(accessLevel)
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [SendBroadcastTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "broadcast.staffOnly"),
+        };
+      }
+
+      const targetGroupIds: number[] = [...new Set<number>(groupIds)];
+      if (accessLevel === "monitor") {
+        const memberGroupIds = await getStudentGroupIds(db, sender[0]);
+        if (targetGroupIds.some((id) => !memberGroupIds.includes(id))) {
+          await client.end();
+          logger?.info(
+            "❌ [SendBroadcastTool] Monitor targeted another group:",
+            targetGroupIds,
+          );
+          return {
+            success: false,
+            ...empty,
+            message: t(language, "broadcast.ownGroupsOnly"),
+          };
+        }
+      }
+
+      const targetGroups = await db
+        .select({
+          id: groups.id,
+          groupName: groups.groupName,
+          archivedAt: groups.archivedAt,
+        })
+        .from(groups)
+        .where(inArray(groups.id, targetGroupIds));
+
+      const missing = targetGroupIds.filter(
+        (id) => !targetGroups.some((g) => g.id === id && !g.archivedAt),
+      );
+      if (missing.length > 0) {
+        await client.end();
+        logger?.info(
+          "❌ [SendBroadcastTool] Groups not found or archived:",
+          missing,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "broadcast.groupsNotFound", {
+            groups: missing.join(", "),
+          }),
+        };
+      }
+
+      const recipients = await db
+        .select({ id: students.id })
+        .from(students)
+        .where(
+          and(
+            eq(students.isActive, true),
+            ne(students.id, sender[0].id),
+            or(...targetGroupIds.map((id) => isGroupMember(id))),
+          ),
+        );
+
+      if (recipients.length === 0) {
+        await client.end();
+        logger?.info("❌ [SendBroadcastTool] No recipients");
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "broadcast.noRecipients"),
+        };
+      }
+
+      const broadcastId = await db.transaction(async (tx) => {
+        const created = await tx
+          .insert(broadcasts)
+          .values({ senderId: sender[0].id, text, groupIds: targetGroupIds })
+          .returning({ id: broadcasts.id });
+
+        await tx.insert(broadcastDeliveries).values(
+          recipients.map((recipient) => ({
+            broadcastId: created[0].id,
+            studentId: recipient.id,
+          })),
+        );
+
+        await writeAuditLog(tx, {
+          actorId: sender[0].id,
+          actorTelegramId: senderTelegramId,
+          action: "broadcast.send",
+          targetType: "broadcast",
+          targetId: created[0].id,
+          groupId: targetGroupIds.length === 1 ? targetGroupIds[0] : null,
+          after: {
+            groupIds: targetGroupIds,
+            recipients: recipients.length,
+            text,
+          },
+        });
+
+        return created[0].id;
+      });
+
+      await client.end();
+
+      await inngest.send({
+        name: BROADCAST_CREATED_EVENT,
+        data: { broadcastId },
+      });
+
+      logger?.info("✅ [SendBroadcastTool] Broadcast queued:", {
+        broadcastId,
+        recipients: recipients.length,
+      });
+
+      return {
+        success: true,
+        broadcastId,
+        recipients: recipients.length,
+        message: t(language, "broadcast.queued", {
+          id: broadcastId,
+          count: recipients.length,
+          groups: targetGroups.map((g) => g.groupName).join(", "),
+        }),
+      };
+    } catch (error) {
+      logger?.error("❌ [SendBroadcastTool] Error sending broadcast:", error);
+      return {
+        success: false,
+        ...empty,
+        message: t(language, "broadcast.sendError"),
+      };
+    }
+  },
+});
+
+// Tool for checking how a broadcast was delivered
+export const broadcastReportTool = createTool({
+  id: "broadcast-report-tool",
+  description:
+    "Show the delivery report of an announcement: how many were delivered, still queued, failed, interrupted with unknown outcome, or couldn't be reached because the user blocked the bot (senders see their own broadcasts, admins see all)",
+  inputSchema: z.object({
+    broadcastId: z
+      .number()
+      .optional()
+      .describe("Broadcast ID (defaults to the requester's latest broadcast)"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    broadcastId: z.number().nullable(),
+    counts: z.record(z.string(), z.number()),
+    undelivered: z.array(
+      z.object({
+        studentId: z.string(),
+        name: z.string(),
+        status: z.string(),
+        error: z.string().nullable(),
+      }),
+    ),
+    message: z.string(),
+  }),
+  execute: async ({ context: { broadcastId }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [BroadcastReportTool] Starting report with params:", {
+      telegramUserId,
+      broadcastId,
+    });
+
+    const empty = { broadcastId: null, counts: {}, undelivered: [] };
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [BroadcastReportTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(telegramUserId))
+        .limit(1);
+
+      if (user.length === 0) {
+        await client.end();
+        logger?.info("❌ [BroadcastReportTool] User not found in database");
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const isAdmin = ["admin", "owner"].includes(
+        user[0].accessLevel || "student",
+      );
+      const broadcast = await db
+        .select({
+          id: broadcasts.id,
+          senderId: broadcasts.senderId,
+          createdAt: broadcasts.createdAt,
+        })
+        .from(broadcasts)
+        .where(
+          broadcastId
+            ? eq(broadcasts.id, broadcastId)
+            : eq(broadcasts.senderId, user[0].id),
+        )
+        .orderBy(desc(broadcasts.createdAt))
+        .limit(1);
+
+      if (
+        broadcast.length === 0 ||
+        (!isAdmin && broadcast[0].senderId !== user[0].id)
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [BroadcastReportTool] Broadcast not found or not accessible:",
+          broadcastId,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "broadcast.notFound"),
+        };
+      }
+
+      const id = broadcast[0].id;
+      await expireStaleBroadcastDeliveries(db, id);
+      const statusRows = await db
+        .select({ status: broadcastDeliveries.status, value: count() })
+        .from(broadcastDeliveries)
+        .where(eq(broadcastDeliveries.broadcastId, id))
+        .groupBy(broadcastDeliveries.status);
+
+      const undeliveredRows = await db
+        .select({
+          studentId: students.studentId,
+          firstName: students.firstName,
+          lastName: students.lastName,
+          status: broadcastDeliveries.status,
+          error: broadcastDeliveries.error,
+        })
+        .from(broadcastDeliveries)
+        .innerJoin(students, eq(broadcastDeliveries.studentId, students.id))
+        .where(
+          and(
+            eq(broadcastDeliveries.broadcastId, id),
+            inArray(broadcastDeliveries.status, [
+              "blocked",
+              "failed",
+              "unknown",
+            ]),
+          ),
+        );
+
+      await client.end();
+
+      const counts = Object.fromEntries(
+        statusRows.map((row) => [row.status, row.value]),
+      );
+      const undelivered = undeliveredRows.map((row) => ({
+        studentId: row.studentId,
+        name: row.firstName
+          ? `${row.firstName} ${row.lastName || ""}`.trim()
+          : row.studentId,
+        status: t(language, DELIVERY_STATUS_LABELS[row.status]),
+        error: row.error,
+      }));
+
+      logger?.info("✅ [BroadcastReportTool] Report built:", {
+        broadcastId: id,
+        counts,
+      });
+
+      const summary = Object.entries(counts)
+        .map(
+          ([status, value]) =>
+            `${DELIVERY_STATUS_LABELS[status] ? t(language, DELIVERY_STATUS_LABELS[status]) : status}: ${value}`,
+        )
+        .join(", ");
+
+      return {
+        success: true,
+        broadcastId: id,
+        counts,
+        undelivered,
+        message: t(language, "broadcast.report", { id, summary }),
+      };
+    } catch (error) {
+      logger?.error("❌ [BroadcastReportTool] Error building report:", error);
+      return {
+        success: false,
+        ...empty,
+        message: t(language, "broadcast.reportError"),
+      };
+    }
+  },
+});
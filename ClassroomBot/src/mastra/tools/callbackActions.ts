@@ -0,0 +1,175 @@
+import type { Mastra } from "@mastra/core";
+import {
+  viewHomeworkTool,
+  deleteHomeworkTool,
+  restoreHomeworkTool,
+} from "./homeworkManagement";
+import { pollResultsTool, closePollTool } from "./polls";
+import { studentVerificationTool } from "./studentVerification";
+import { escapeHtml, type InlineKeyboard } from "./telegramMessaging";
+import { runTool } from "../utils/runTool";
+import { t, type Language } from "../i18n";
+
+// callback_data of the buttons handled here is "<action>:<id>", e.g. "hw_view:12".
+// Any other callback_data is passed on to the agent.
+const CALLBACK_DATA_PATTERN = /^([a-z_]+):(\d+)$/;
+
+type CallbackActionContext = {
+  mastra: Mastra;
+  telegramUserId: number;
+  chatId: number;
+  language: Language;
+  id: number;
+};
+
+export type CallbackActionResult = {
+  text: string;
+  replyMarkup?: InlineKeyboard;
+};
+
+function button(
+  text: string,
+  action: string,
+  id: number,
+): InlineKeyboard["inline_keyboard"] {
+  return [[{ text, callback_data: `${action}:${id}` }]];
+}
+
+const CALLBACK_ACTIONS: Record<
+  string,
+  (ctx: CallbackActionContext) => Promise<CallbackActionResult>
+> = {
+  hw_view: async ({ mastra, telegramUserId, chatId, language, id }) => {
+    const result = await runTool(
+      viewHomeworkTool,
+      { chatId, homeworkId: id, limit: 1 },
+      { mastra, telegramUserId, language },
+    );
+    const hw = result.homeworkList?.[0];
+    if (!hw) {
+      return {
+        text: result.success
+          ? t(language, "button.homeworkNotFound")
+          : escapeHtml(result.message),
+      };
+    }
+
+    const lines = [
+      `📚 <b>${escapeHtml(hw.title)}</b> (#${hw.id})`,
+      hw.subject
+        ? t(language, "button.subject", { value: escapeHtml(hw.subject) })
+        : null,
+      t(language, "button.group", { value: escapeHtml(hw.groupName) }),
+      hw.dueDateText
+        ? t(language, "button.dueDate", { value: hw.dueDateText })
+        : null,
+      hw.description ? `\n${escapeHtml(hw.description)}` : null,
+    ];
+    return { text: lines.filter((line) => line !== null).join("\n") };
+  },
+
+  hw_del: async ({ mastra, telegramUserId, language, id }) => {
+    const result = await runTool(
+      deleteHomeworkTool,
+      { homeworkId: id },
+      { mastra, telegramUserId, language },
+    );
+    return {
+      text: escapeHtml(result.message),
+      replyMarkup: result.success
+        ? {
+            inline_keyboard: button(
+              t(language, "button.restore"),
+              "hw_restore",
+              id,
+            ),
+          }
+        : undefined,
+    };
+  },
+
+  hw_restore: async ({ mastra, telegramUserId, language, id }) => {
+    const result = await runTool(
+      restoreHomeworkTool,
+      { homeworkId: id },
+      { mastra, telegramUserId, language },
+    );
+    return { text: escapeHtml(result.message) };
+  },
+
+  poll_results: async ({ mastra, telegramUserId, language, id }) => {
+    const result = await runTool(
+      pollResultsTool,
+      { pollId: id },
+      { mastra, telegramUserId, language },
+    );
+    return {
+      text: escapeHtml(result.message),
+      replyMarkup:
+        result.tally && !result.tally.closed
+          ? {
+              inline_keyboard: button(
+                t(language, "button.closePoll"),
+                "poll_close",
+                id,
+              ),
+            }
+          : undefined,
+    };
+  },
+
+  poll_close: async ({ mastra, telegramUserId, language, id }) => {
+    const result = await runTool(
+      closePollTool,
+      { pollId: id },
+      { mastra, telegramUserId, language },
+    );
+    return { text: escapeHtml(result.message) };
+  },
+};
+
+// Executes a button action directly, without the agent. Returns null when the button isn't one of ours.
+export async function runCallbackAction(
+  mastra: Mastra,
+  {
+    telegramUserId,
+    chatId,
+    language,
+    data,
+  }: {
+    telegramUserId: number;
+    chatId: number;
+    language: Language;
+    data: string;
+  },
+): Promise<CallbackActionResult | null> {
+  const match = data.match(CALLBACK_DATA_PATTERN);
+  const action = match && CALLBACK_ACTIONS[match[1]];
+  if (!match || !action) {
+    return null;
+  }
+
+  const logger = mastra.getLogger();
+  logger?.info("🔧 [CallbackAction] Running button action:", {
+    telegramUserId,
+    data,
+  });
+
+  // Buttons stay in old messages, so whoever presses one must still be an active student
+  const verification = await runTool(
+    studentVerificationTool,
+    {},
+    { mastra, telegramUserId, language },
+  );
+  if (!verification.isVerified) {
+    return { text: escapeHtml(verification.message) };
+  }
+
+  return action({
+    mastra,
+    telegramUserId,
+    chatId,
+    language,
+    id: Number(match[2]),
+  });
+}
@@ -0,0 +1,404 @@
+import type { Mastra } from "@mastra/core";
+import type { IMastraLogger } from "@mastra/core/logger";
+import { studentVerificationTool } from "./studentVerification";
+import { viewHomeworkTool, addHomeworkTool } from "./homeworkManagement";
+import { sendBroadcastTool } from "./broadcasts";
+import {
+  runCallbackAction,
+  type CallbackActionResult,
+} from "./callbackActions";
+import {
+  callTelegramApi,
+  escapeHtml,
+  type InlineKeyboard,
+} from "./telegramMessaging";
+import { runTool } from "../utils/runTool";
+import { startWizard } from "../utils/wizard";
+import { claimBootstrapOwner } from "../utils/bootstrapOwner";
+import { addHomeworkWizard, registrationWizard } from "./wizards";
+import { ACCESS_LEVEL_LABELS } from "./roleManagement";
+import { setUserLanguage } from "../utils/userLanguage";
+import {
+  t,
+  isLanguage,
+  DEFAULT_LANGUAGE,
+  LANGUAGE_NAMES,
+  SUPPORTED_LANGUAGES,
+  type Language,
+  type MessageKey,
+} from "../i18n";
+
+// Commands shown in the Telegram menu. They are answered from fixed templates without the agent.
+export const BOT_COMMANDS: { command: string; description: MessageKey }[] = [
+  { command: "start", description: "command.start" },
+  { command: "help", description: "command.help" },
+  { command: "me", description: "command.me" },
+  { command: "hw", description: "command.hw" },
+  { command: "hw_add", description: "command.hwAdd" },
+  { command: "hw_del", description: "command.hwDel" },
+  { command: "announce", description: "command.announce" },
+  { command: "register", description: "command.register" },
+  { command: "lang", description: "command.lang" },
+  { command: "cancel", description: "command.cancel" },
+];
+
+const COMMAND_PATTERN = /^\/([a-z_]+)(?:@\w+)?(?:\s+([\s\S]*))?$/;
+
+type CommandContext = {
+  mastra: Mastra;
+  telegramUserId: number;
+  username?: string;
+  chatId: number;
+  language: Language;
+  args: string;
+  attachment?: {
+    fileId: string;
+    fileType: "document" | "photo";
+    fileName?: string;
+    mediaGroupId?: string;
+  };
+};
+
+type Verification = Awaited<ReturnType<typeof verify>>;
+
+function verify({
+  mastra,
+  telegramUserId,
+  username,
+  language,
+}: CommandContext) {
+  return runTool(
+    studentVerificationTool,
+    { telegramUsername: username },
+    { mastra, telegramUserId, language },
+  );
+}
+
+function isStaff(verification: Verification): boolean {
+  return ["monitor", "admin", "owner"].includes(
+    verification.student?.accessLevel || "student",
+  );
+}
+
+function formatProfile(
+  verification: Verification,
+  telegramUserId: number,
+  language: Language,
+): string {
+  const student = verification.student;
+  if (!student) {
+    return escapeHtml(verification.message);
+  }
+  const name =
+    [student.firstName, student.lastName].filter(Boolean).join(" ") ||
+    student.studentId;
+  // Group IDs are shown because /announce takes them
+  const additional = student.additionalGroups.map(
+    (group: { id: number; groupName: string }) =>
+      `${escapeHtml(group.groupName)} (ID ${group.id})`,
+  );
+
+  return [
+    `👤 <b>${escapeHtml(name)}</b>`,
+    `Telegram ID: <code>${telegramUserId}</code>`,
+    t(language, "command.profileStudentId", {
+      value: escapeHtml(student.studentId),
+    }),
+    t(language, "command.profileGroup", {
+      value: student.groupName
+        ? `${escapeHtml(student.groupName)} (ID ${student.groupId})`
+        : t(language, "command.profileNoGroup"),
+    }),
+    additional.length > 0
+      ? t(language, "command.profileAdditional", {
+          value: additional.join(", "),
+        })
+      : null,
+    t(language, "command.profileRole", {
+      value: t(
+        language,
+        ACCESS_LEVEL_LABELS[
+          student.accessLevel as keyof typeof ACCESS_LEVEL_LABELS
+        ] ?? "role.student",
+      ),
+    }),
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+}
+
+function formatHelp(verification: Verification, language: Language): string {
+  const lines = [
+    t(language, "command.helpTitle"),
+    t(language, "command.helpMe"),
+    t(language, "command.helpHw"),
+  ];
+  if (isStaff(verification)) {
+    lines.push(
+      t(language, "command.helpHwAdd"),
+      t(language, "command.helpHwDel"),
+      t(language, "command.helpAnnounce"),
+    );
+  }
+  lines.push(
+    t(language, "command.helpLang"),
+    "",
+    t(language, "command.helpFreeText"),
+  );
+  return lines.join("\n");
+}
+
+function languageMenu(language: Language): CallbackActionResult {
+  return {
+    text: t(language, "command.langChoose", {
+      current: LANGUAGE_NAMES[language],
+    }),
+    replyMarkup: {
+      inline_keyboard: SUPPORTED_LANGUAGES.map((code) => [
+        { text: LANGUAGE_NAMES[code], callback_data: `/lang ${code}` },
+      ]),
+    },
+  };
+}
+
+const COMMANDS: Record<
+  string,
+  (ctx: CommandContext) => Promise<CallbackActionResult>
+> = {
+  start: async (ctx) => {
+    const claimed = await claimBootstrapOwner(
+      ctx.telegramUserId,
+      ctx.username,
+      ctx.mastra.getLogger(),
+    );
+    const verification = await verify(ctx);
+    if (!verification.isVerified) {
+      return {
+        text: t(ctx.language, "command.welcomeUnregistered", {
+          telegramUserId: ctx.telegramUserId,
+        }),
+      };
+    }
+    return {
+      text:
+        `${t(ctx.language, "command.welcome")}\n\n` +
+        (claimed ? `${t(ctx.language, "command.ownerClaimed")}\n\n` : "") +
+        `${formatProfile(verification, ctx.telegramUserId, ctx.language)}\n\n${formatHelp(verification, ctx.language)}`,
+    };
+  },
+
+  help: async (ctx) => {
+    const verification = await verify(ctx);
+    return { text: formatHelp(verification, ctx.language) };
+  },
+
+  me: async (ctx) => {
+    const verification = await verify(ctx);
+    if (!verification.isVerified) {
+      return { text: escapeHtml(verification.message) };
+    }
+    return {
+      text: formatProfile(verification, ctx.telegramUserId, ctx.language),
+    };
+  },
+
+  hw: async ({ mastra, telegramUserId, chatId, language }) => {
+    const result = await runTool(
+      viewHomeworkTool,
+      { chatId, limit: 10 },
+      { mastra, telegramUserId, language },
+    );
+    if (!result.success || result.homeworkList.length === 0) {
+      return { text: escapeHtml(result.message) };
+    }
+
+    const lines = result.homeworkList.map(
+      (hw) =>
+        `<b>#${hw.id}</b> ${hw.subject ? `${escapeHtml(hw.subject)}: ` : ""}${escapeHtml(hw.title)}` +
+        (hw.dueDateText
+          ? ` — ${t(language, "command.hwDue", { date: hw.dueDateText })}`
+          : "") +
+        (hw.attachmentCount > 0 ? " 📎" : ""),
+    );
+    const keyboard: InlineKeyboard["inline_keyboard"] = result.homeworkList.map(
+      (hw) => [
+        {
+          text: `#${hw.id} ${hw.title}`.slice(0, 60),
+          callback_data: `hw_view:${hw.id}`,
+        },
+      ],
+    );
+
+    return {
+      text: `${t(language, "command.hwTitle")}\n\n${lines.join("\n")}`,
+      replyMarkup: { inline_keyboard: keyboard },
+    };
+  },
+
+  hw_add: async (ctx) => {
+    const { mastra, telegramUserId, language, args, attachment } = ctx;
+    if (!args && !attachment) {
+      return startWizard(addHomeworkWizard, ctx);
+    }
+
+    const [subject, title, dueDate, ...rest] = args
+      .split(";")
+      .map((part) => part.trim());
+    if (!subject || !title) {
+      return { text: t(language, "command.hwAddUsage") };
+    }
+
+    const result = await runTool(
+      addHomeworkTool,
+      {
+        subject,
+        title,
+        dueDate: dueDate || undefined,
+        description: rest.join(";").trim() || undefined,
+        attachments: attachment ? [attachment] : undefined,
+        mediaGroupId: attachment?.mediaGroupId,
+      },
+      { mastra, telegramUserId, language },
+    );
+
+    // The command has no way to pick a group; ask to phrase the request so the agent can clarify
+    if (result.groupOptions?.length) {
+      const groups = result.groupOptions
+        .map((group: { groupName: string }) => escapeHtml(group.groupName))
+        .join(", ");
+      return { text: t(language, "command.severalGroups", { groups }) };
+    }
+
+    return {
+      text: escapeHtml(result.message),
+      replyMarkup: result.homework
+        ? {
+            inline_keyboard: [
+              [
+                {
+                  text: t(language, "hwWizard.open"),
+                  callback_data: `hw_view:${result.homework.id}`,
+                },
+              ],
+            ],
+          }
+        : undefined,
+    };
+  },
+
+  // The announcement goes out character for character, without passing through the agent
+  announce: async ({ mastra, telegramUserId, language, args }) => {
+    const match = args.match(/^(\d+(?:\s*,\s*\d+)*)\s+([\s\S]+)$/);
+    const input = match && {
+      groupIds: match[1].split(",").map(Number),
+      text: match[2],
+    };
+    if (!input || !sendBroadcastTool.inputSchema?.safeParse(input).success) {
+      return { text: t(language, "command.announceUsage") };
+    }
+    const result = await runTool(sendBroadcastTool, input, {
+      mastra,
+      telegramUserId,
+      language,
+    });
+    return { text: escapeHtml(result.message) };
+  },
+
+  register: async (ctx) => startWizard(registrationWizard, ctx),
+
+  // Reached only when no wizard is active; an active one handles /cancel itself
+  cancel: async ({ language }) => ({
+    text: t(language, "command.nothingToCancel"),
+  }),
+
+  hw_del: async ({ mastra, telegramUserId, chatId, language, args }) => {
+    const homeworkId = args.match(/^#?(\d+)$/)?.[1];
+    if (!homeworkId) {
+      return { text: t(language, "command.hwDelUsage") };
+    }
+    const result = await runCallbackAction(mastra, {
+      telegramUserId,
+      chatId,
+      language,
+      data: `hw_del:${homeworkId}`,
+    });
+    return result ?? { text: t(language, "homework.deleteError") };
+  },
+
+  // Without an argument shows the language buttons, which send "/lang <code>" back
+  lang: async ({ mastra, telegramUserId, language, args }) => {
+    if (!args) {
+      return languageMenu(language);
+    }
+
+    const chosen = args.toLowerCase();
+    if (!isLanguage(chosen)) {
+      return {
+        text: t(language, "command.langUnknown", {
+          languages: SUPPORTED_LANGUAGES.join(", "),
+        }),
+      };
+    }
+
+    const saved = await setUserLanguage(
+      telegramUserId,
+      chosen,
+      mastra.getLogger(),
+    );
+    if (!saved) {
+      return { text: t(language, "common.notRegistered") };
+    }
+    return { text: t(chosen, "command.langChanged") };
+  },
+};
+
+// Answers a known slash command directly. Returns null for anything else, which then goes to the agent.
+export async function runCommand(
+  mastra: Mastra,
+  { text, ...rest }: Omit<CommandContext, "mastra" | "args"> & { text: string },
+): Promise<CallbackActionResult | null> {
+  const match = text.trim().match(COMMAND_PATTERN);
+  const command = match && COMMANDS[match[1]];
+  if (!match || !command) {
+    return null;
+  }
+
+  const logger = mastra.getLogger();
+  logger?.info("🔧 [Command] Running command:", {
+    telegramUserId: rest.telegramUserId,
+    command: match[1],
+  });
+
+  return command({ mastra, ...rest, args: (match[2] || "").trim() });
+}
+
+// Publishes the command list to the Telegram menu: the default list, plus one per language
+// that Telegram shows to users whose app is in that language
+export async function registerBotCommands(
+  logger?: IMastraLogger,
+): Promise<void> {
+  const commandsIn = (language: Language) =>
+    BOT_COMMANDS.map(({ command, description }) => ({
+      command,
+      description: t(language, description),
+    }));
+
+  const response = await callTelegramApi(
+    "setMyCommands",
+    { commands: commandsIn(DEFAULT_LANGUAGE) },
+    logger,
+  );
+  for (const language of SUPPORTED_LANGUAGES) {
+    await callTelegramApi(
+      "setMyCommands",
+      { commands: commandsIn(language), language_code: language },
+      logger,
+    );
+  }
+  if (response.ok) {
+    logger?.info("✅ [Command] Bot commands registered:", {
+      count: BOT_COMMANDS.length,
+      languages: SUPPORTED_LANGUAGES,
+    });
+  }
+}
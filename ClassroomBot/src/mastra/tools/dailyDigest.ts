@@ -0,0 +1,148 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { students } from "../../../shared/schema";
+import { eq } from "drizzle-orm";
+import { zonedParts } from "../utils/dates";
+import { getGroupSettings } from "../utils/groupSettings";
+import { t, languageOf } from "../i18n";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+const timeString = z
+  .string()
+  .regex(/^\d{1,2}:\d{2}$/, "Time must be in format HH:MM");
+
+// Tool for turning the morning digest on or off
+export const setDailyDigestTool = createTool({
+  id: "set-daily-digest-tool",
+  description:
+    "Turn the daily morning digest (homework due today and tomorrow, overdue homework, today's lessons) on or off and choose its delivery time",
+  inputSchema: z.object({
+    enabled: z
+      .boolean()
+      .describe("true to receive the digest, false to stop it"),
+    time: timeString
+      .optional()
+      .describe("Delivery time HH:MM (keeps the current time if omitted)"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    enabled: z.boolean(),
+    time: z.string().nullable(),
+    message: z.string(),
+  }),
+  execute: async ({ context: { enabled, time }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [SetDailyDigestTool] Starting digest settings change with params:",
+      {
+        telegramUserId,
+        enabled,
+        time,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [SetDailyDigestTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          enabled: false,
+          time: null,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({
+          id: students.id,
+          groupId: students.groupId,
+          digestTime: students.digestTime,
+        })
+        .from(students)
+        .where(isActiveUser(telegramUserId))
+        .limit(1);
+
+      if (user.length === 0) {
+        await client.end();
+        logger?.info("❌ [SetDailyDigestTool] User not found in database");
+        return {
+          success: false,
+          enabled: false,
+          time: null,
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const digestTime = time
+        ? time.padStart(5, "0")
+        : user[0].digestTime.slice(0, 5);
+      const [hours, minutes] = digestTime.split(":").map(Number);
+      if (hours > 23 || minutes > 59) {
+        await client.end();
+        return {
+          success: false,
+          enabled: false,
+          time: null,
+          message: t(language, "digestSettings.badTime"),
+        };
+      }
+
+      // The time is on the clock of the student's group. When today's delivery time has already passed,
+      // the first digest comes tomorrow.
+      const { timeZone } = await getGroupSettings(db, user[0].groupId);
+      const local = zonedParts(new Date(), timeZone);
+      const passedToday = digestTime <= local.time;
+
+      await db
+        .update(students)
+        .set({
+          digestEnabled: enabled,
+          digestTime,
+          ...(enabled && passedToday ? { digestLastSentOn: local.day } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(students.id, user[0].id));
+
+      await client.end();
+
+      logger?.info("✅ [SetDailyDigestTool] Digest settings updated:", {
+        telegramUserId,
+        enabled,
+        digestTime,
+      });
+
+      return {
+        success: true,
+        enabled,
+        time: digestTime,
+        message: enabled
+          ? t(language, "digestSettings.enabled", {
+              time: digestTime,
+              timeZone,
+            })
+          : t(language, "digestSettings.disabled"),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [SetDailyDigestTool] Error updating digest settings:",
+        error,
+      );
+      return {
+        success: false,
+        enabled: false,
+        time: null,
+        message: t(language, "digestSettings.error"),
+      };
+    }
+  },
+});
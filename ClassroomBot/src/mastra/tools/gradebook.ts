@@ -0,0 +1,417 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { students, homework, grades } from "../../../shared/schema";
+import { eq, and, desc, isNull } from "drizzle-orm";
+import { getStudentGroupIds } from "../utils/groupMembership";
+import { writeAuditLog } from "../utils/auditLog";
+import { t, languageOf } from "../i18n";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+// Five-point scale used by the class
+const MIN_GRADE = 1;
+const MAX_GRADE = 5;
+
+// Tool for setting or changing a grade
+export const setGradeTool = createTool({
+  id: "set-grade-tool",
+  description:
+    "Set or change a student's grade for a homework assignment (only for monitors, admins, and owners)",
+  inputSchema: z.object({
+    homeworkId: z.number().describe("ID of the graded homework"),
+    studentId: z
+      .string()
+      .describe("Student ID (e.g. ST001) of the graded student"),
+    grade: z
+      .number()
+      .int()
+      .min(MIN_GRADE)
+      .max(MAX_GRADE)
+      .describe(`Grade from ${MIN_GRADE} to ${MAX_GRADE}`),
+    comment: z.string().optional().describe("Optional comment for the student"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    grade: z
+      .object({
+        id: z.number(),
+        homeworkTitle: z.string(),
+        studentName: z.string(),
+        grade: z.number(),
+        previousGrade: z.number().nullable(),
+      })
+      .nullable(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { homeworkId, studentId, grade, comment },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const gradedByTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [SetGradeTool] Starting grading with params:", {
+      gradedByTelegramId,
+      homeworkId,
+      studentId,
+      grade,
+    });
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error("❌ [SetGradeTool] Database connection string not found");
+        return {
+          success: false,
+          grade: null,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      // Verify user has permission to grade
+      const grader = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(gradedByTelegramId))
+        .limit(1);
+
+      if (grader.length === 0) {
+        await client.end();
+        logger?.info("❌ [SetGradeTool] Grader not found in database");
+        return {
+          success: false,
+          grade: null,
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const graderData = grader[0];
+      const accessLevel = graderData.accessLevel || "student";
+      const hasPermission = ["monitor", "admin", "owner"].includes(accessLevel);
+
+      if (!hasPermission) {
+        await client.end();
+        logger?.info("❌ [SetGradeTool] User lacks permission:", accessLevel);
+        return {
+          success: false,
+          grade: null,
+          message: t(language, "grade.noPermission"),
+        };
+      }
+
+      const existingHomework = await db
+        .select({
+          id: homework.id,
+          title: homework.title,
+          groupId: homework.groupId,
+        })
+        .from(homework)
+        .where(and(eq(homework.id, homeworkId), isNull(homework.deletedAt)))
+        .limit(1);
+
+      if (existingHomework.length === 0) {
+        await client.end();
+        logger?.info("❌ [SetGradeTool] Homework not found:", homeworkId);
+        return {
+          success: false,
+          grade: null,
+          message: t(language, "homework.notFound"),
+        };
+      }
+
+      const hw = existingHomework[0];
+
+      // Monitors only grade their own groups
+      if (
+        accessLevel === "monitor" &&
+        !(await getStudentGroupIds(db, graderData)).includes(hw.groupId!)
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [SetGradeTool] Monitor graded another group:",
+          hw.groupId,
+        );
+        return {
+          success: false,
+          grade: null,
+          message: t(language, "grade.ownGroupOnly"),
+        };
+      }
+
+      const student = await db
+        .select({
+          id: students.id,
+          groupId: students.groupId,
+          firstName: students.firstName,
+          lastName: students.lastName,
+          studentId: students.studentId,
+        })
+        .from(students)
+        .where(eq(students.studentId, studentId.toUpperCase()))
+        .limit(1);
+
+      if (student.length === 0) {
+        await client.end();
+        logger?.info("❌ [SetGradeTool] Student not found:", studentId);
+        return {
+          success: false,
+          grade: null,
+          message: t(language, "common.studentNotFound", { studentId }),
+        };
+      }
+
+      const studentData = student[0];
+      if (
+        !hw.groupId ||
+        !(await getStudentGroupIds(db, studentData)).includes(hw.groupId)
+      ) {
+        await client.end();
+        logger?.info("❌ [SetGradeTool] Student is not in homework group");
+        return {
+          success: false,
+          grade: null,
+          message: t(language, "grade.wrongGroup"),
+        };
+      }
+
+      const previous = await db
+        .select()
+        .from(grades)
+        .where(
+          and(
+            eq(grades.homeworkId, hw.id),
+            eq(grades.studentId, studentData.id),
+          ),
+        )
+        .limit(1);
+
+      const now = new Date();
+      const result = await db
+        .insert(grades)
+        .values({
+          homeworkId: hw.id,
+          studentId: studentData.id,
+          grade,
+          comment: comment || null,
+          gradedBy: graderData.id,
+        })
+        .onConflictDoUpdate({
+          target: [grades.homeworkId, grades.studentId],
+          set: {
+            grade,
+            comment: comment || null,
+            gradedBy: graderData.id,
+            updatedAt: now,
+          },
+        })
+        .returning();
+
+      await writeAuditLog(db, {
+        actorId: graderData.id,
+        actorTelegramId: gradedByTelegramId,
+        action: "grade.set",
+        targetType: "grade",
+        targetId: result[0].id,
+        groupId: hw.groupId,
+        before: previous[0] ?? null,
+        after: result[0],
+      });
+
+      await client.end();
+
+      const studentName = studentData.firstName
+        ? `${studentData.firstName} ${studentData.lastName || ""}`.trim()
+        : studentData.studentId;
+      const previousGrade = previous[0]?.grade ?? null;
+
+      logger?.info("✅ [SetGradeTool] Grade saved:", result[0].id);
+
+      return {
+        success: true,
+        grade: {
+          id: result[0].id,
+          homeworkTitle: hw.title,
+          studentName,
+          grade,
+          previousGrade,
+        },
+        message:
+          previousGrade !== null
+            ? t(language, "grade.changed", {
+                name: studentName,
+                title: hw.title,
+                from: previousGrade,
+                to: grade,
+              })
+            : t(language, "grade.set", {
+                grade,
+                title: hw.title,
+                name: studentName,
+              }),
+      };
+    } catch (error) {
+      logger?.error("❌ [SetGradeTool] Error setting grade:", error);
+      return {
+        success: false,
+        grade: null,
+        message: t(language, "grade.setError"),
+      };
+    }
+  },
+});
+
+// Tool for viewing own grades with per-subject averages
+export const viewMyGradesTool = createTool({
+  id: "view-my-grades-tool",
+  description: "Show the student's own grades with per-subject averages",
+  inputSchema: z.object({
+    subject: z
+      .string()
+      .optional()
+      .describe("Only show grades for this subject"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    grades: z.array(
+      z.object({
+        homeworkId: z.number(),
+        homeworkTitle: z.string(),
+        subject: z.string().nullable(),
+        grade: z.number(),
+        comment: z.string().nullable(),
+        gradedAt: z.string(),
+      }),
+    ),
+    averages: z.array(
+      z.object({
+        subject: z.string(),
+        average: z.number(),
+        count: z.number(),
+      }),
+    ),
+    message: z.string(),
+  }),
+  execute: async ({ context: { subject }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [ViewMyGradesTool] Starting grades view with params:", {
+      telegramUserId,
+      subject,
+    });
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [ViewMyGradesTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          grades: [],
+          averages: [],
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({ id: students.id })
+        .from(students)
+        .where(isActiveUser(telegramUserId))
+        .limit(1);
+
+      if (user.length === 0) {
+        await client.end();
+        logger?.info("❌ [ViewMyGradesTool] User not found in database");
+        return {
+          success: false,
+          grades: [],
+          averages: [],
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const rows = await db
+        .select({
+          homeworkId: homework.id,
+          homeworkTitle: homework.title,
+          subject: homework.subject,
+          grade: grades.grade,
+          comment: grades.comment,
+          updatedAt: grades.updatedAt,
+        })
+        .from(grades)
+        .innerJoin(homework, eq(grades.homeworkId, homework.id))
+        .where(
+          and(eq(grades.studentId, user[0].id), isNull(homework.deletedAt)),
+        )
+        .orderBy(desc(grades.updatedAt));
+
+      await client.end();
+
+      const filtered = subject
+        ? rows.filter(
+            (row) =>
+              (row.subject || "").toLowerCase() === subject.toLowerCase(),
+          )
+        : rows;
+
+      const bySubject = new Map<string, number[]>();
+      for (const row of filtered) {
+        const key = row.subject || t(language, "grade.noSubject");
+        bySubject.set(key, [...(bySubject.get(key) || []), row.grade]);
+      }
+
+      const averages = Array.from(bySubject.entries()).map(
+        ([name, values]) => ({
+          subject: name,
+          average:
+            Math.round(
+              (values.reduce((sum, value) => sum + value, 0) / values.length) *
+                100,
+            ) / 100,
+          count: values.length,
+        }),
+      );
+
+      logger?.info("✅ [ViewMyGradesTool] Retrieved grades:", filtered.length);
+
+      return {
+        success: true,
+        grades: filtered.map((row) => ({
+          homeworkId: row.homeworkId,
+          homeworkTitle: row.homeworkTitle,
+          subject: row.subject,
+          grade: row.grade,
+          comment: row.comment,
+          gradedAt: row.updatedAt?.toISOString() || "",
+        })),
+        averages,
+        message:
+          filtered.length > 0
+            ? t(language, "grade.found", { count: filtered.length })
+            : t(language, "grade.none"),
+      };
+    } catch (error) {
+      logger?.error("❌ [ViewMyGradesTool] Error viewing grades:", error);
+      return {
+        success: false,
+        grades: [],
+        averages: [],
+        message: t(language, "grade.viewError"),
+      };
+    }
+  },
+});
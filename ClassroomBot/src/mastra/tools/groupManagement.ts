@@ -0,0 +1,1081 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import {
+  students,
+  groups,
+  roster,
+  groupMemberships,
+} from "../../../shared/schema";
+import { eq, and, ne, asc, count, isNull, sql } from "drizzle-orm";
+import { isGroupMember } from "../utils/groupMembership";
+import { writeAuditLog } from "../utils/auditLog";
+import {
+  DEFAULT_GROUP_SETTINGS,
+  isValidTimeZone,
+  isValidLocale,
+} from "../utils/groupSettings";
+import { weekdayName } from "../utils/dates";
+import { t, languageOf } from "../i18n";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+// Tool for creating a group
+export const createGroupTool = createTool({
+  id: "create-group-tool",
+  description: "Create a new group (only for admins and owners)",
+  inputSchema: z.object({
+    groupName: z.string().min(1).describe("Unique group name"),
+    description: z.string().optional().describe("Group description"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    group: z
+      .object({
+        id: z.number(),
+        groupName: z.string(),
+        description: z.string().nullable(),
+      })
+      .nullable(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { groupName, description },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const adminTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [CreateGroupTool] Starting group creation with params:", {
+      adminTelegramId,
+      groupName,
+    });
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [CreateGroupTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          group: null,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      // Verify user has permission to manage groups
+      const admin = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(adminTelegramId))
+        .limit(1);
+
+      if (admin.length === 0) {
+        await client.end();
+        logger?.info("❌ [CreateGroupTool] User not found in database");
+        return {
+          success: false,
+          group: null,
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const hasPermission = ["admin", "owner"].includes(
+        admin[0].accessLevel || "student",
+      );
+      if (!hasPermission) {
+        await client.end();
+        logger?.info(
+          "❌ [CreateGroupTool] User lacks permission:",
+          admin[0].accessLevel,
+        );
+        return {
+          success: false,
+          group: null,
+          message: t(language, "group.noPermission"),
+        };
+      }
+
+      const name = groupName.trim();
+      const existing = await db
+        .select({ id: groups.id })
+        .from(groups)
+        .where(eq(groups.groupName, name))
+        .limit(1);
+
+      if (existing.length > 0) {
+        await client.end();
+        logger?.info("❌ [CreateGroupTool] Group name already taken:", name);
+        return {
+          success: false,
+          group: null,
+          message: t(language, "group.exists", { groupName: name }),
+        };
+      }
+
+      const created = await db
+        .insert(groups)
+        .values({
+          groupName: name,
+          description: description || null,
+          timezone: DEFAULT_GROUP_SETTINGS.timeZone,
+          locale: DEFAULT_GROUP_SETTINGS.locale,
+          weekStart: DEFAULT_GROUP_SETTINGS.weekStart,
+        })
+        .returning();
+
+      await writeAuditLog(db, {
+        actorId: admin[0].id,
+        actorTelegramId: adminTelegramId,
+        action: "group.create",
+        targetType: "group",
+        targetId: created[0].id,
+        groupId: created[0].id,
+        after: created[0],
+      });
+
+      await client.end();
+
+      logger?.info("✅ [CreateGroupTool] Group created:", created[0].id);
+
+      return {
+        success: true,
+        group: {
+          id: created[0].id,
+          groupName: created[0].groupName,
+          description: created[0].description,
+        },
+        message: t(language, "group.created", {
+          groupName: name,
+          id: created[0].id,
+        }),
+      };
+    } catch (error) {
+      logger?.error("❌ [CreateGroupTool] Error creating group:", error);
+      return {
+        success: false,
+        group: null,
+        message: t(language, "group.createError"),
+      };
+    }
+  },
+});
+
+// Tool for renaming a group and/or changing its description
+export const updateGroupTool = createTool({
+  id: "update-group-tool",
+  description:
+    "Rename a group and/or change its description (only for admins and owners)",
+  inputSchema: z.object({
+    groupId: z.number().describe("Group ID"),
+    groupName: z.string().min(1).optional().describe("New group name"),
+    description: z
+      .string()
+      .optional()
+      .describe("New description (empty string clears it)"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { groupId, groupName, description },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const adminTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [UpdateGroupTool] Starting group update with params:", {
+      adminTelegramId,
+      groupId,
+      groupName,
+    });
+
+    if (groupName === undefined && description === undefined) {
+      return { success: false, message: t(language, "group.nothingToUpdate") };
+    }
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [UpdateGroupTool] Database connection string not found",
+        );
+        return { success: false, message: t(language, "common.dbError") };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const admin = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(adminTelegramId))
+        .limit(1);
+
+      if (admin.length === 0) {
+        await client.end();
+        logger?.info("❌ [UpdateGroupTool] User not found in database");
+        return { success: false, message: t(language, "common.userNotFound") };
+      }
+
+      const hasPermission = ["admin", "owner"].includes(
+        admin[0].accessLevel || "student",
+      );
+      if (!hasPermission) {
+        await client.end();
+        logger?.info(
+          "❌ [UpdateGroupTool] User lacks permission:",
+          admin[0].accessLevel,
+        );
+        return { success: false, message: t(language, "group.noPermission") };
+      }
+
+      const existing = await db
+        .select()
+        .from(groups)
+        .where(eq(groups.id, groupId))
+        .limit(1);
+
+      if (existing.length === 0) {
+        await client.end();
+        logger?.info("❌ [UpdateGroupTool] Group not found:", groupId);
+        return { success: false, message: t(language, "common.groupNotFound") };
+      }
+
+      const newName = groupName?.trim();
+      if (newName) {
+        const taken = await db
+          .select({ id: groups.id })
+          .from(groups)
+          .where(and(eq(groups.groupName, newName), ne(groups.id, groupId)))
+          .limit(1);
+
+        if (taken.length > 0) {
+          await client.end();
+          logger?.info(
+            "❌ [UpdateGroupTool] Group name already taken:",
+            newName,
+          );
+          return {
+            success: false,
+            message: t(language, "group.exists", { groupName: newName }),
+          };
+        }
+      }
+
+      const updated = await db
+        .update(groups)
+        .set({
+          ...(newName ? { groupName: newName } : {}),
+          ...(description !== undefined
+            ? { description: description || null }
+            : {}),
+        })
+        .where(eq(groups.id, groupId))
+        .returning();
+
+      await writeAuditLog(db, {
+        actorId: admin[0].id,
+        actorTelegramId: adminTelegramId,
+        action: "group.update",
+        targetType: "group",
+        targetId: groupId,
+        groupId,
+        before: existing[0],
+        after: updated[0],
+      });
+
+      await client.end();
+
+      logger?.info("✅ [UpdateGroupTool] Group updated:", groupId);
+
+      return {
+        success: true,
+        message:
+          newName && newName !== existing[0].groupName
+            ? t(language, "group.renamed", {
+                from: existing[0].groupName,
+                to: newName,
+              })
+            : t(language, "group.updated", {
+                groupName: existing[0].groupName,
+              }),
+      };
+    } catch (error) {
+      logger?.error("❌ [UpdateGroupTool] Error updating group:", error);
+      return { success: false, message: t(language, "group.updateError") };
+    }
+  },
+});
+
+// Tool for changing a group's time zone, locale and first day of the week
+export const setGroupSettingsTool = createTool({
+  id: "set-group-settings-tool",
+  description:
+    "Change a group's time zone, locale and first day of the week, used for due dates, reminders and the morning digest (only for admins and owners)",
+  inputSchema: z.object({
+    groupId: z.number().describe("Group ID"),
+    timezone: z
+      .string()
+      .optional()
+      .describe("IANA time zone, e.g. 'Europe/Moscow', 'Asia/Yekaterinburg'"),
+    locale: z
+      .string()
+      .optional()
+      .describe("Locale for dates, e.g. 'ru-RU', 'en-GB'"),
+    weekStart: z
+      .number()
+      .int()
+      .min(1)
+      .max(7)
+      .optional()
+      .describe("First day of the week: 1 = Monday ... 7 = Sunday"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { groupId, timezone, locale, weekStart },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const adminTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [SetGroupSettingsTool] Starting settings update with params:",
+      {
+        adminTelegramId,
+        groupId,
+        timezone,
+        locale,
+        weekStart,
+      },
+    );
+
+    if (
+      timezone === undefined &&
+      locale === undefined &&
+      weekStart === undefined
+    ) {
+      return { success: false, message: t(language, "group.noSettings") };
+    }
+    if (timezone !== undefined && !isValidTimeZone(timezone)) {
+      return {
+        success: false,
+        message: t(language, "group.badTimeZone", { timeZone: timezone }),
+      };
+    }
+    if (locale !== undefined && !isValidLocale(locale)) {
+      return {
+        success: false,
+        message: t(language, "group.badLocale", { locale }),
+      };
+    }
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [SetGroupSettingsTool] Database connection string not found",
+        );
+        return { success: false, message: t(language, "common.dbError") };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const admin = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(adminTelegramId))
+        .limit(1);
+
+      if (admin.length === 0) {
+        await client.end();
+        logger?.info("❌ [SetGroupSettingsTool] User not found in database");
+        return { success: false, message: t(language, "common.userNotFound") };
+      }
+
+      const hasPermission = ["admin", "owner"].includes(
+        admin[0].accessLevel || "student",
+      );
+      if (!hasPermission) {
+        await client.end();
+        logger?.info(
+          "❌ [SetGroupSettingsTool] User lacks permission:",
+          admin[0].accessLevel,
+        );
+        return { success: false, message: t(language, "group.noPermission") };
+      }
+
+      const existing = await db
+        .select()
+        .from(groups)
+        .where(eq(groups.id, groupId))
+        .limit(1);
+
+      if (existing.length === 0) {
+        await client.end();
+        logger?.info("❌ [SetGroupSettingsTool] Group not found:", groupId);
+        return { success: false, message: t(language, "common.groupNotFound") };
+      }
+
+      const updated = await db
+        .update(groups)
+        .set({
+          ...(timezone !== undefined ? { timezone } : {}),
+          ...(locale !== undefined ? { locale } : {}),
+          ...(weekStart !== undefined ? { weekStart } : {}),
+        })
+        .where(eq(groups.id, groupId))
+        .returning();
+
+      await writeAuditLog(db, {
+        actorId: admin[0].id,
+        actorTelegramId: adminTelegramId,
+        action: "group.settings",
+        targetType: "group",
+        targetId: groupId,
+        groupId,
+        before: {
+          timezone: existing[0].timezone,
+          locale: existing[0].locale,
+          weekStart: existing[0].weekStart,
+        },
+        after: {
+          timezone: updated[0].timezone,
+          locale: updated[0].locale,
+          weekStart: updated[0].weekStart,
+        },
+      });
+
+      await client.end();
+
+      logger?.info(
+        "✅ [SetGroupSettingsTool] Group settings updated:",
+        groupId,
+      );
+
+      return {
+        success: true,
+        message: t(language, "group.settingsSaved", {
+          groupName: existing[0].groupName,
+          timeZone: updated[0].timezone,
+          locale: updated[0].locale,
+          weekStart: weekdayName(updated[0].weekStart, language),
+        }),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [SetGroupSettingsTool] Error updating group settings:",
+        error,
+      );
+      return { success: false, message: t(language, "group.settingsError") };
+    }
+  },
+});
+
+// Tool for archiving (or restoring) a group
+export const archiveGroupTool = createTool({
+  id: "archive-group-tool",
+  description:
+    "Archive a group so it is hidden and no one can be moved into it, or restore an archived group (only for admins and owners)",
+  inputSchema: z.object({
+    groupId: z.number().describe("Group ID"),
+    archived: z
+      .boolean()
+      .default(true)
+      .describe("true to archive, false to restore"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { groupId, archived },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const adminTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [ArchiveGroupTool] Starting group archive with params:", {
+      adminTelegramId,
+      groupId,
+      archived,
+    });
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [ArchiveGroupTool] Database connection string not found",
+        );
+        return { success: false, message: t(language, "common.dbError") };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const admin = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(adminTelegramId))
+        .limit(1);
+
+      if (admin.length === 0) {
+        await client.end();
+        logger?.info("❌ [ArchiveGroupTool] User not found in database");
+        return { success: false, message: t(language, "common.userNotFound") };
+      }
+
+      const hasPermission = ["admin", "owner"].includes(
+        admin[0].accessLevel || "student",
+      );
+      if (!hasPermission) {
+        await client.end();
+        logger?.info(
+          "❌ [ArchiveGroupTool] User lacks permission:",
+          admin[0].accessLevel,
+        );
+        return { success: false, message: t(language, "group.noPermission") };
+      }
+
+      const updated = await db
+        .update(groups)
+        .set({ archivedAt: archived ? new Date() : null })
+        .where(eq(groups.id, groupId))
+        .returning({ groupName: groups.groupName });
+
+      if (updated.length === 0) {
+        await client.end();
+        logger?.info("❌ [ArchiveGroupTool] Group not found:", groupId);
+        return { success: false, message: t(language, "common.groupNotFound") };
+      }
+
+      await writeAuditLog(db, {
+        actorId: admin[0].id,
+        actorTelegramId: adminTelegramId,
+        action: archived ? "group.archive" : "group.restore",
+        targetType: "group",
+        targetId: groupId,
+        groupId,
+      });
+
+      const [{ value: activeStudents }] = await db
+        .select({ value: count() })
+        .from(students)
+        .where(and(isGroupMember(groupId), eq(students.isActive, true)));
+
+      await client.end();
+
+      logger?.info("✅ [ArchiveGroupTool] Group archive state changed:", {
+        groupId,
+        archived,
+      });
+
+      if (!archived) {
+        return {
+          success: true,
+          message: t(language, "group.restored", {
+            groupName: updated[0].groupName,
+          }),
+        };
+      }
+
+      return {
+        success: true,
+        message:
+          t(language, "group.archived", { groupName: updated[0].groupName }) +
+          (activeStudents > 0
+            ? t(language, "group.archivedActive", { count: activeStudents })
+            : ""),
+      };
+    } catch (error) {
+      logger?.error("❌ [ArchiveGroupTool] Error archiving group:", error);
+      return { success: false, message: t(language, "group.archiveError") };
+    }
+  },
+});
+
+// Tool for listing groups
+export const listGroupsTool = createTool({
+  id: "list-groups-tool",
+  description:
+    "List groups with their student counts and date settings (only for admins and owners)",
+  inputSchema: z.object({
+    includeArchived: z
+      .boolean()
+      .default(false)
+      .describe("Also list archived groups"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    groups: z.array(
+      z.object({
+        id: z.number(),
+        groupName: z.string(),
+        description: z.string().nullable(),
+        studentCount: z.number(),
+        archived: z.boolean(),
+        timezone: z.string(),
+        locale: z.string(),
+        weekStart: z.number(),
+      }),
+    ),
+    message: z.string(),
+  }),
+  execute: async ({ context: { includeArchived }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const adminTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [ListGroupsTool] Starting group list with params:", {
+      adminTelegramId,
+      includeArchived,
+    });
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [ListGroupsTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          groups: [],
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const admin = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(adminTelegramId))
+        .limit(1);
+
+      if (admin.length === 0) {
+        await client.end();
+        logger?.info("❌ [ListGroupsTool] User not found in database");
+        return {
+          success: false,
+          groups: [],
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const hasPermission = ["admin", "owner"].includes(
+        admin[0].accessLevel || "student",
+      );
+      if (!hasPermission) {
+        await client.end();
+        logger?.info(
+          "❌ [ListGroupsTool] User lacks permission:",
+          admin[0].accessLevel,
+        );
+        return {
+          success: false,
+          groups: [],
+          message: t(language, "group.noPermission"),
+        };
+      }
+
+      // Counts primary and additional members alike
+      const rows = await db
+        .select({
+          id: groups.id,
+          groupName: groups.groupName,
+          description: groups.description,
+          archivedAt: groups.archivedAt,
+          timezone: groups.timezone,
+          locale: groups.locale,
+          weekStart: groups.weekStart,
+          studentCount: sql<number>`(
+            select count(*) from ${students}
+            where ${students.isActive} = true and (${students.groupId} = ${groups.id} or exists (
+              select 1 from ${groupMemberships}
+              where ${groupMemberships.studentId} = ${students.id} and ${groupMemberships.groupId} = ${groups.id}
+            ))
+          )`.mapWith(Number),
+        })
+        .from(groups)
+        .where(includeArchived ? undefined : isNull(groups.archivedAt))
+        .orderBy(asc(groups.groupName));
+
+      await client.end();
+
+      const groupList = rows.map((row) => ({
+        id: row.id,
+        groupName: row.groupName,
+        description: row.description,
+        studentCount: row.studentCount,
+        archived: row.archivedAt !== null,
+        timezone: row.timezone,
+        locale: row.locale,
+        weekStart: row.weekStart,
+      }));
+
+      logger?.info("✅ [ListGroupsTool] Retrieved groups:", groupList.length);
+
+      return {
+        success: true,
+        groups: groupList,
+        message:
+          groupList.length > 0
+            ? t(language, "group.found", { count: groupList.length })
+            : t(language, "group.noneFound"),
+      };
+    } catch (error) {
+      logger?.error("❌ [ListGroupsTool] Error listing groups:", error);
+      return {
+        success: false,
+        groups: [],
+        message: t(language, "group.listError"),
+      };
+    }
+  },
+});
+
+// Tool for moving a student to another group
+export const moveStudentTool = createTool({
+  id: "move-student-tool",
+  description:
+    "Move a student (registered or only on the roster) to another primary group (only for admins and owners)",
+  inputSchema: z.object({
+    studentId: z.string().describe("Student ID, e.g. ST001"),
+    groupId: z.number().describe("Target group ID"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { studentId, groupId },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const adminTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [MoveStudentTool] Starting student move with params:", {
+      adminTelegramId,
+      studentId,
+      groupId,
+    });
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [MoveStudentTool] Database connection string not found",
+        );
+        return { success: false, message: t(language, "common.dbError") };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const admin = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(adminTelegramId))
+        .limit(1);
+
+      if (admin.length === 0) {
+        await client.end();
+        logger?.info("❌ [MoveStudentTool] User not found in database");
+        return { success: false, message: t(language, "common.userNotFound") };
+      }
+
+      const hasPermission = ["admin", "owner"].includes(
+        admin[0].accessLevel || "student",
+      );
+      if (!hasPermission) {
+        await client.end();
+        logger?.info(
+          "❌ [MoveStudentTool] User lacks permission:",
+          admin[0].accessLevel,
+        );
+        return { success: false, message: t(language, "group.noPermission") };
+      }
+
+      const target = await db
+        .select({ groupName: groups.groupName, archivedAt: groups.archivedAt })
+        .from(groups)
+        .where(eq(groups.id, groupId))
+        .limit(1);
+
+      if (target.length === 0) {
+        await client.end();
+        logger?.info("❌ [MoveStudentTool] Group not found:", groupId);
+        return { success: false, message: t(language, "common.groupNotFound") };
+      }
+
+      if (target[0].archivedAt) {
+        await client.end();
+        logger?.info("❌ [MoveStudentTool] Target group is archived:", groupId);
+        return {
+          success: false,
+          message: t(language, "group.inArchive", {
+            groupName: target[0].groupName,
+          }),
+        };
+      }
+
+      const normalizedId = studentId.toUpperCase();
+      const now = new Date();
+
+      const previous = await db
+        .select({ groupId: roster.groupId })
+        .from(roster)
+        .where(eq(roster.studentId, normalizedId))
+        .limit(1);
+
+      const movedStudents = await db
+        .update(students)
+        .set({ groupId, updatedAt: now })
+        .where(eq(students.studentId, normalizedId))
+        .returning({ id: students.id });
+
+      const movedRoster = await db
+        .update(roster)
+        .set({ groupId, updatedAt: now })
+        .where(eq(roster.studentId, normalizedId))
+        .returning({ id: roster.id });
+
+      if (movedStudents.length === 0 && movedRoster.length === 0) {
+        await client.end();
+        logger?.info("❌ [MoveStudentTool] Student not found:", normalizedId);
+        return {
+          success: false,
+          message: t(language, "common.studentNotFound", {
+            studentId: normalizedId,
+          }),
+        };
+      }
+
+      await writeAuditLog(db, {
+        actorId: admin[0].id,
+        actorTelegramId: adminTelegramId,
+        action: "student.move",
+        targetType: "student",
+        targetId: normalizedId,
+        groupId,
+        before: previous[0] ? { groupId: previous[0].groupId } : null,
+        after: { groupId },
+      });
+
+      await client.end();
+
+      logger?.info("✅ [MoveStudentTool] Student moved:", {
+        normalizedId,
+        groupId,
+      });
+
+      return {
+        success: true,
+        message: t(language, "group.moved", {
+          studentId: normalizedId,
+          groupName: target[0].groupName,
+        }),
+      };
+    } catch (error) {
+      logger?.error("❌ [MoveStudentTool] Error moving student:", error);
+      return { success: false, message: t(language, "group.moveError") };
+    }
+  },
+});
+
+// Tool for adding or removing additional group memberships (language, elective subgroups)
+export const setGroupMembershipTool = createTool({
+  id: "set-group-membership-tool",
+  description:
+    "Add a registered student to an additional group (e.g. a language or elective subgroup) or remove them from it; the primary group is changed with move-student-tool (only for admins and owners)",
+  inputSchema: z.object({
+    studentId: z.string().describe("Student ID, e.g. ST001"),
+    groupId: z.number().describe("Additional group ID"),
+    member: z
+      .boolean()
+      .default(true)
+      .describe("true to add to the group, false to remove"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { studentId, groupId, member },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const adminTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [SetGroupMembershipTool] Starting membership change with params:",
+      {
+        adminTelegramId,
+        studentId,
+        groupId,
+        member,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [SetGroupMembershipTool] Database connection string not found",
+        );
+        return { success: false, message: t(language, "common.dbError") };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const admin = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(adminTelegramId))
+        .limit(1);
+
+      if (admin.length === 0) {
+        await client.end();
+        logger?.info("❌ [SetGroupMembershipTool] User not found in database");
+        return { success: false, message: t(language, "common.userNotFound") };
+      }
+
+      const hasPermission = ["admin", "owner"].includes(
+        admin[0].accessLevel || "student",
+      );
+      if (!hasPermission) {
+        await client.end();
+        logger?.info(
+          "❌ [SetGroupMembershipTool] User lacks permission:",
+          admin[0].accessLevel,
+        );
+        return { success: false, message: t(language, "group.noPermission") };
+      }
+
+      const normalizedId = studentId.toUpperCase();
+      const student = await db
+        .select({ id: students.id, groupId: students.groupId })
+        .from(students)
+        .where(eq(students.studentId, normalizedId))
+        .limit(1);
+
+      if (student.length === 0) {
+        await client.end();
+        logger?.info(
+          "❌ [SetGroupMembershipTool] Student not found:",
+          normalizedId,
+        );
+        return {
+          success: false,
+          message: t(language, "common.registeredStudentNotFound", {
+            studentId: normalizedId,
+          }),
+        };
+      }
+
+      const target = await db
+        .select({ groupName: groups.groupName, archivedAt: groups.archivedAt })
+        .from(groups)
+        .where(eq(groups.id, groupId))
+        .limit(1);
+
+      if (target.length === 0) {
+        await client.end();
+        logger?.info("❌ [SetGroupMembershipTool] Group not found:", groupId);
+        return { success: false, message: t(language, "common.groupNotFound") };
+      }
+
+      if (student[0].groupId === groupId) {
+        await client.end();
+        return {
+          success: false,
+          message: t(language, "group.isPrimary", {
+            groupName: target[0].groupName,
+          }),
+        };
+      }
+
+      if (member) {
+        if (target[0].archivedAt) {
+          await client.end();
+          logger?.info(
+            "❌ [SetGroupMembershipTool] Target group is archived:",
+            groupId,
+          );
+          return {
+            success: false,
+            message: t(language, "group.inArchive", {
+              groupName: target[0].groupName,
+            }),
+          };
+        }
+
+        await db
+          .insert(groupMemberships)
+          .values({ studentId: student[0].id, groupId })
+          .onConflictDoNothing();
+      } else {
+        await db
+          .delete(groupMemberships)
+          .where(
+            and(
+              eq(groupMemberships.studentId, student[0].id),
+              eq(groupMemberships.groupId, groupId),
+            ),
+          );
+      }
+
+      await writeAuditLog(db, {
+        actorId: admin[0].id,
+        actorTelegramId: adminTelegramId,
+        action: member ? "group.member_add" : "group.member_remove",
+        targetType: "student",
+        targetId: normalizedId,
+        groupId,
+      });
+
+      await client.end();
+
+      logger?.info("✅ [SetGroupMembershipTool] Membership changed:", {
+        normalizedId,
+        groupId,
+        member,
+      });
+
+      return {
+        success: true,
+        message: member
+          ? t(language, "group.memberAdded", {
+              studentId: normalizedId,
+              groupName: target[0].groupName,
+            })
+          : t(language, "group.memberRemoved", {
+              studentId: normalizedId,
+              groupName: target[0].groupName,
+            }),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [SetGroupMembershipTool] Error changing membership:",
+        error,
+      );
+      return { success: false, message: t(language, "group.membershipError") };
+    }
+  },
+});
@@ -1,32 +1,112 @@
 import { createTool } from "@mastra/core/tools";
 import type { IMastraLogger } from "@mastra/core/logger";
 import { z } from "zod";
-import { drizzle } from "drizzle-orm/postgres-js";
+import { drizzle, type PostgresJsDatabase } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { students, groups, homework } from "../../../shared/schema";
-import { eq, and, desc, sql } from "drizzle-orm";
+import {
+  students,
+  groups,
+  homework,
+  homeworkRevisions,
+  homeworkAttachments,
+} from "../../../shared/schema";
+import {
+  eq,
+  and,
+  or,
+  asc,
+  desc,
+  sql,
+  count,
+  inArray,
+  isNull,
+  isNotNull,
+} from "drizzle-orm";
+import { writeAuditLog } from "../utils/auditLog";
+import { getStudentGroupIds, isGroupMember } from "../utils/groupMembership";
+import { formatLocalDateTime } from "../utils/dates";
+import { resolveDueDate } from "../utils/dueDates";
+import {
+  getGroupSettings,
+  toGroupSettings,
+  withReaderLanguage,
+  type GroupSettings,
+} from "../utils/groupSettings";
+import { studentLanguage } from "../utils/userLanguage";
+import { t, languageOf, type Language, type MessageKey } from "../i18n";
+import {
+  sendTelegramMessage,
+  sendTelegramFile,
+  escapeHtml,
+} from "./telegramMessaging";
+import {
+  takePendingAttachments,
+  type IncomingAttachment,
+} from "../utils/pendingAttachments";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+// Deleted homework stays in the trash this many days before the scheduled purge removes it
+export const HOMEWORK_RETENTION_DAYS =
+  Number(process.env.HOMEWORK_RETENTION_DAYS) || 30;
+
+const attachmentInputSchema = z.object({
+  fileId: z.string().describe("Telegram file_id"),
+  fileType: z.enum(["document", "photo"]),
+  fileName: z.string().optional(),
+});
+
+// Files for a homework: the whole album when a media group is given, otherwise the files passed explicitly
+async function collectAttachments(
+  db: Pick<PostgresJsDatabase, "delete">,
+  telegramUserId: number,
+  attachments: IncomingAttachment[] | undefined,
+  mediaGroupId: string | undefined,
+): Promise<IncomingAttachment[]> {
+  if (mediaGroupId) {
+    const album = await takePendingAttachments(
+      db,
+      telegramUserId,
+      mediaGroupId,
+    );
+    if (album.length > 0) {
+      return album;
+    }
+  }
+  return attachments || [];
+}
 
 // Tool for adding new homework
 export const addHomeworkTool = createTool({
   id: "add-homework-tool",
   description:
-    "Add new homework assignment (only for monitors, admins, and owners)",
+    "Add new homework assignment (only for monitors, admins, and owners). If the due date is ambiguous or not understood, nothing is saved and a clarification question is returned",
   inputSchema: z.object({
-    createdByTelegramId: z
-      .number()
-      .describe("Telegram ID of the person creating homework"),
     title: z.string().describe("Homework title"),
     description: z.string().optional().describe("Homework description"),
     subject: z.string().optional().describe("Subject name"),
     dueDate: z
       .string()
       .optional()
-      .describe("Due date in format YYYY-MM-DD HH:MM"),
+      .describe(
+        "Due date exactly as the user wrote it, e.g. 'до пятницы', 'к следующему уроку', 'через неделю', '25.10 18:00', or YYYY-MM-DD HH:MM (group's local time)",
+      ),
     groupId: z
       .number()
       .optional()
       .describe(
-        "Specific group ID (if not provided, will use creator's group)",
+        "Specific group ID (required when the creator belongs to several groups)",
+      ),
+    attachments: z
+      .array(attachmentInputSchema)
+      .optional()
+      .describe(
+        "Files sent with the message (photos of the board, worksheets)",
+      ),
+    mediaGroupId: z
+      .string()
+      .optional()
+      .describe(
+        "media_group_id when the files were sent as an album; all files of the album are attached",
       ),
   }),
   outputSchema: z.object({
@@ -39,21 +119,35 @@ export const addHomeworkTool = createTool({
         subject: z.string().nullable(),
         dueDate: z.string().nullable(),
         groupName: z.string(),
+        attachmentCount: z.number(),
       })
       .nullable(),
+    groupOptions: z
+      .array(
+        z.object({
+          id: z.number(),
+          groupName: z.string(),
+        }),
+      )
+      .optional()
+      .describe("Groups to choose from when the target group is ambiguous"),
     message: z.string(),
   }),
   execute: async ({
     context: {
-      createdByTelegramId,
       title,
       description,
       subject,
       dueDate,
       groupId,
+      attachments,
+      mediaGroupId,
     },
+    runtimeContext,
     mastra,
   }) => {
+    const language = languageOf(runtimeContext);
+    const createdByTelegramId = actorOf(runtimeContext);
     const logger = mastra?.getLogger();
     logger?.info(
       "🔧 [AddHomeworkTool] Starting homework creation with params:",
@@ -62,6 +156,8 @@ export const addHomeworkTool = createTool({
         title,
         subject,
         groupId,
+        attachments: attachments?.length,
+        mediaGroupId,
       },
     );
 
@@ -74,7 +170,7 @@ export const addHomeworkTool = createTool({
         return {
           success: false,
           homework: null,
-          message: "Ошибка подключения к базе данных",
+          message: t(language, "common.dbError"),
         };
       }
 
@@ -90,7 +186,7 @@ export const addHomeworkTool = createTool({
           firstName: students.firstName,
         })
         .from(students)
-        .where(eq(students.telegramUserId, createdByTelegramId))
+        .where(isActiveUser(createdByTelegramId))
         .limit(1);
 
       if (creator.length === 0) {
@@ -99,7 +195,7 @@ export const addHomeworkTool = createTool({
         return {
           success: false,
           homework: null,
-          message: "Пользователь не найден в базе данных",
+          message: t(language, "common.userNotFound"),
         };
       }
 
@@ -117,13 +213,59 @@ export const addHomeworkTool = createTool({
         return {
           success: false,
           homework: null,
-          message:
-            "У вас нет прав для добавления домашних заданий. Обратитесь к старосте или администратору.",
+          message: t(language, "homework.noAddPermission"),
+        };
+      }
+
+      // Determine target group from the creator's memberships
+      const isAdmin = ["admin", "owner"].includes(
+        creatorData.accessLevel || "student",
+      );
+      const memberGroupIds = await getStudentGroupIds(db, creatorData);
+      let targetGroupId = groupId;
+
+      if (
+        targetGroupId &&
+        !isAdmin &&
+        !memberGroupIds.includes(targetGroupId)
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [AddHomeworkTool] Creator is not a member of group:",
+          targetGroupId,
+        );
+        return {
+          success: false,
+          homework: null,
+          message: t(language, "homework.ownGroupsOnlyAdd"),
         };
       }
 
-      // Determine target group
-      const targetGroupId = groupId || creatorData.groupId;
+      if (!targetGroupId && memberGroupIds.length > 1) {
+        const groupOptions = await db
+          .select({ id: groups.id, groupName: groups.groupName })
+          .from(groups)
+          .where(
+            and(inArray(groups.id, memberGroupIds), isNull(groups.archivedAt)),
+          );
+
+        await client.end();
+        logger?.info(
+          "📝 [AddHomeworkTool] Creator has several groups, asking which one",
+        );
+        return {
+          success: false,
+          homework: null,
+          groupOptions,
+          message: t(language, "homework.chooseGroup", {
+            groups: groupOptions
+              .map((g) => `${g.groupName} (ID ${g.id})`)
+              .join(", "),
+          }),
+        };
+      }
+
+      targetGroupId = targetGroupId || memberGroupIds[0];
       if (!targetGroupId) {
         await client.end();
         logger?.info(
@@ -132,13 +274,13 @@ export const addHomeworkTool = createTool({
         return {
           success: false,
           homework: null,
-          message: "Не удалось определить группу для домашнего задания",
+          message: t(language, "homework.groupUnknown"),
         };
       }
 
       // Get group name
       const groupResult = await db
-        .select({ groupName: groups.groupName })
+        .select({ groupName: groups.groupName, archivedAt: groups.archivedAt })
         .from(groups)
         .where(eq(groups.id, targetGroupId))
         .limit(1);
@@ -146,41 +288,94 @@ export const addHomeworkTool = createTool({
       if (groupResult.length === 0) {
         await client.end();
         logger?.info("❌ [AddHomeworkTool] Group not found:", targetGroupId);
-        return { success: false, homework: null, message: "Группа не найдена" };
+        return {
+          success: false,
+          homework: null,
+          message: t(language, "common.groupNotFound"),
+        };
+      }
+
+      if (groupResult[0].archivedAt) {
+        await client.end();
+        logger?.info("❌ [AddHomeworkTool] Group is archived:", targetGroupId);
+        return {
+          success: false,
+          homework: null,
+          message: t(language, "group.inArchive", {
+            groupName: groupResult[0].groupName,
+          }),
+        };
       }
 
-      // Parse due date
+      // Parse due date; a deadline that can't be resolved is asked about rather than dropped
       let parsedDueDate: Date | null = null;
+      let dueDateLabel: string | null = null;
       if (dueDate) {
-        try {
-          parsedDueDate = new Date(dueDate);
-          if (isNaN(parsedDueDate.getTime())) {
-            parsedDueDate = null;
-          }
-        } catch (error) {
-          logger?.warn(
-            "⚠️ [AddHomeworkTool] Invalid due date format:",
+        const resolved = await resolveDueDate(db, dueDate, {
+          groupId: targetGroupId,
+          subject,
+          language,
+        });
+        if ("question" in resolved) {
+          await client.end();
+          logger?.info(
+            "❌ [AddHomeworkTool] Due date needs clarification:",
             dueDate,
           );
+          return { success: false, homework: null, message: resolved.question };
         }
+        parsedDueDate = resolved.dueDate;
+        dueDateLabel = resolved.label;
       }
 
-      // Create homework
-      const newHomework = await db
-        .insert(homework)
-        .values({
-          title,
-          description: description || null,
-          subject: subject || null,
-          dueDate: parsedDueDate,
+      // Taking the album and saving the homework is one transaction, so a failed insert
+      // leaves the uploaded files pending instead of losing them
+      const { created, files } = await db.transaction(async (tx) => {
+        const files = await collectAttachments(
+          tx,
+          createdByTelegramId,
+          attachments,
+          mediaGroupId,
+        );
+
+        const [created] = await tx
+          .insert(homework)
+          .values({
+            title,
+            description: description || null,
+            subject: subject || null,
+            dueDate: parsedDueDate,
+            groupId: targetGroupId,
+            createdBy: creatorData.id,
+          })
+          .returning();
+
+        if (files.length > 0) {
+          await tx.insert(homeworkAttachments).values(
+            files.map((file, index) => ({
+              homeworkId: created.id,
+              fileId: file.fileId,
+              fileType: file.fileType,
+              fileName: file.fileName || null,
+              position: index,
+            })),
+          );
+        }
+
+        await writeAuditLog(tx, {
+          actorId: creatorData.id,
+          actorTelegramId: createdByTelegramId,
+          action: "homework.create",
+          targetType: "homework",
+          targetId: created.id,
           groupId: targetGroupId,
-          createdBy: creatorData.id,
-        })
-        .returning();
+          after: { ...created, attachmentCount: files.length },
+        });
+        return { created, files };
+      });
 
       await client.end();
 
-      const created = newHomework[0];
       logger?.info(
         "✅ [AddHomeworkTool] Homework created successfully:",
         created.id,
@@ -195,15 +390,26 @@ export const addHomeworkTool = createTool({
           subject: created.subject,
           dueDate: created.dueDate?.toISOString() || null,
           groupName: groupResult[0].groupName,
+          attachmentCount: files.length,
         },
-        message: `Домашнее задание "${title}" успешно добавлено для группы "${groupResult[0].groupName}".`,
+        message:
+          t(language, "homework.added", {
+            title,
+            groupName: groupResult[0].groupName,
+          }) +
+          (dueDateLabel
+            ? t(language, "homework.addedDue", { date: dueDateLabel })
+            : "") +
+          (files.length > 0
+            ? t(language, "homework.addedFiles", { count: files.length })
+            : ""),
       };
     } catch (error) {
       logger?.error("❌ [AddHomeworkTool] Error creating homework:", error);
       return {
         success: false,
         homework: null,
-        message: "Произошла ошибка при создании домашнего задания",
+        message: t(language, "homework.addError"),
       };
     }
   },
@@ -213,15 +419,24 @@ export const addHomeworkTool = createTool({
 export const viewHomeworkTool = createTool({
   id: "view-homework-tool",
   description:
-    "View homework assignments for student's group or all groups (for admins)",
+    "View homework assignments across all of the student's groups, or for a specific group. When a single homeworkId is given, its attached files are sent to the chat",
   inputSchema: z.object({
-    telegramUserId: z
+    chatId: z
       .number()
-      .describe("Telegram ID of the person viewing homework"),
+      .optional()
+      .describe(
+        "Chat to send attachments to (defaults to the user's private chat)",
+      ),
+    homeworkId: z
+      .number()
+      .optional()
+      .describe("Show only this assignment and send its attachments"),
     groupId: z
       .number()
       .optional()
-      .describe("Specific group ID (for admins only)"),
+      .describe(
+        "Specific group ID (admins: any group; others: one of their own groups)",
+      ),
     limit: z
       .number()
       .default(10)
@@ -236,17 +451,32 @@ export const viewHomeworkTool = createTool({
         description: z.string().nullable(),
         subject: z.string().nullable(),
         dueDate: z.string().nullable(),
+        dueDateText: z
+          .string()
+          .nullable()
+          .describe(
+            "Due date in the group's time zone and language, show this one to the user",
+          ),
         groupName: z.string(),
         creatorName: z.string().nullable(),
         createdAt: z.string(),
+        attachmentCount: z.number(),
       }),
     ),
+    attachmentsSent: z.number(),
     message: z.string(),
   }),
-  execute: async ({ context: { telegramUserId, groupId, limit }, mastra }) => {
+  execute: async ({
+    context: { chatId, homeworkId, groupId, limit },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
     const logger = mastra?.getLogger();
     logger?.info("🔧 [ViewHomeworkTool] Starting homework view with params:", {
       telegramUserId,
+      homeworkId,
       groupId,
       limit,
     });
@@ -260,7 +490,8 @@ export const viewHomeworkTool = createTool({
         return {
           success: false,
           homeworkList: [],
-          message: "Ошибка подключения к базе данных",
+          attachmentsSent: 0,
+          message: t(language, "common.dbError"),
         };
       }
 
@@ -276,7 +507,7 @@ export const viewHomeworkTool = createTool({
           firstName: students.firstName,
         })
         .from(students)
-        .where(eq(students.telegramUserId, telegramUserId))
+        .where(isActiveUser(telegramUserId))
         .limit(1);
 
       if (user.length === 0) {
@@ -285,7 +516,8 @@ export const viewHomeworkTool = createTool({
         return {
           success: false,
           homeworkList: [],
-          message: "Пользователь не найден в базе данных",
+          attachmentsSent: 0,
+          message: t(language, "common.userNotFound"),
         };
       }
 
@@ -295,18 +527,20 @@ export const viewHomeworkTool = createTool({
       );
 
       // Determine which group(s) to show homework for
-      let targetGroupId = groupId;
-      if (!isAdmin || !groupId) {
-        targetGroupId = userData.groupId || undefined;
+      const memberGroupIds = await getStudentGroupIds(db, userData);
+      let targetGroupIds = memberGroupIds;
+      if (groupId && (isAdmin || memberGroupIds.includes(groupId))) {
+        targetGroupIds = [groupId];
       }
 
-      if (!targetGroupId) {
+      if (targetGroupIds.length === 0) {
         await client.end();
         logger?.info("❌ [ViewHomeworkTool] No group to show homework for");
         return {
           success: false,
           homeworkList: [],
-          message: "Группа не определена",
+          attachmentsSent: 0,
+          message: t(language, "common.noGroup"),
         };
       }
 
@@ -320,50 +554,120 @@ export const viewHomeworkTool = createTool({
           dueDate: homework.dueDate,
           createdAt: homework.createdAt,
           groupName: groups.groupName,
+          groupTimezone: groups.timezone,
+          groupLocale: groups.locale,
+          groupWeekStart: groups.weekStart,
           creatorFirstName: students.firstName,
           creatorLastName: students.lastName,
         })
         .from(homework)
         .leftJoin(groups, eq(homework.groupId, groups.id))
         .leftJoin(students, eq(homework.createdBy, students.id))
-        .where(eq(homework.groupId, targetGroupId))
+        .where(
+          and(
+            inArray(homework.groupId, targetGroupIds),
+            isNull(homework.deletedAt),
+            homeworkId ? eq(homework.id, homeworkId) : undefined,
+          ),
+        )
         .orderBy(desc(homework.createdAt))
         .limit(limit);
 
+      const homeworkIds = homeworkResults.map((hw) => hw.id);
+      const attachmentCounts =
+        homeworkIds.length > 0
+          ? await db
+              .select({
+                homeworkId: homeworkAttachments.homeworkId,
+                value: count(),
+              })
+              .from(homeworkAttachments)
+              .where(inArray(homeworkAttachments.homeworkId, homeworkIds))
+              .groupBy(homeworkAttachments.homeworkId)
+          : [];
+
+      // Attachments are only re-sent when a single assignment is opened, not for whole lists
+      const files =
+        homeworkId && homeworkResults.length > 0
+          ? await db
+              .select()
+              .from(homeworkAttachments)
+              .where(eq(homeworkAttachments.homeworkId, homeworkId))
+              .orderBy(
+                asc(homeworkAttachments.position),
+                asc(homeworkAttachments.id),
+              )
+          : [];
+
       await client.end();
 
+      let attachmentsSent = 0;
+      for (const file of files) {
+        const result = await sendTelegramFile(chatId || telegramUserId, file, {
+          caption:
+            attachmentsSent === 0
+              ? `📎 ${escapeHtml(homeworkResults[0].title)}`
+              : undefined,
+          logger,
+        });
+        if (result.success) {
+          attachmentsSent++;
+        }
+      }
+
       const homeworkList = homeworkResults.map((hw) => ({
         id: hw.id,
         title: hw.title,
         description: hw.description,
         subject: hw.subject,
         dueDate: hw.dueDate?.toISOString() || null,
-        groupName: hw.groupName || "Неизвестно",
+        dueDateText:
+          hw.dueDate && hw.groupTimezone
+            ? formatLocalDateTime(
+                hw.dueDate,
+                withReaderLanguage(
+                  toGroupSettings({
+                    timezone: hw.groupTimezone,
+                    locale: hw.groupLocale!,
+                    weekStart: hw.groupWeekStart!,
+                  }),
+                  language,
+                ),
+              )
+            : null,
+        groupName: hw.groupName || t(language, "common.unknownGroup"),
         creatorName: hw.creatorFirstName
           ? `${hw.creatorFirstName} ${hw.creatorLastName || ""}`.trim()
           : null,
         createdAt: hw.createdAt?.toISOString() || "",
+        attachmentCount:
+          attachmentCounts.find((row) => row.homeworkId === hw.id)?.value || 0,
       }));
 
-      logger?.info(
-        "✅ [ViewHomeworkTool] Retrieved homework list:",
-        homeworkList.length,
-      );
+      logger?.info("✅ [ViewHomeworkTool] Retrieved homework list:", {
+        count: homeworkList.length,
+        attachmentsSent,
+      });
 
       return {
         success: true,
         homeworkList,
+        attachmentsSent,
         message:
           homeworkList.length > 0
-            ? `Найдено ${homeworkList.length} домашних заданий`
-            : "Домашние задания не найдены",
+            ? t(language, "homework.found", { count: homeworkList.length }) +
+              (attachmentsSent > 0
+                ? t(language, "homework.filesSent", { count: attachmentsSent })
+                : "")
+            : t(language, "homework.noneFound"),
       };
     } catch (error) {
       logger?.error("❌ [ViewHomeworkTool] Error viewing homework:", error);
       return {
         success: false,
         homeworkList: [],
-        message: "Произошла ошибка при получении домашних заданий",
+        attachmentsSent: 0,
+        message: t(language, "homework.viewError"),
       };
     }
   },
@@ -373,18 +677,17 @@ export const viewHomeworkTool = createTool({
 export const deleteHomeworkTool = createTool({
   id: "delete-homework-tool",
   description:
-    "Delete homework assignment (only for monitors, admins, and owners)",
+    "Move homework assignment to the trash; it can be restored until it is purged (only for monitors, admins, and owners)",
   inputSchema: z.object({
-    telegramUserId: z
-      .number()
-      .describe("Telegram ID of the person deleting homework"),
     homeworkId: z.number().describe("ID of homework to delete"),
   }),
   outputSchema: z.object({
     success: z.boolean(),
     message: z.string(),
   }),
-  execute: async ({ context: { telegramUserId, homeworkId }, mastra }) => {
+  execute: async ({ context: { homeworkId }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
     const logger = mastra?.getLogger();
     logger?.info(
       "🔧 [DeleteHomeworkTool] Starting homework deletion with params:",
@@ -400,7 +703,7 @@ export const deleteHomeworkTool = createTool({
         logger?.error(
           "❌ [DeleteHomeworkTool] Database connection string not found",
         );
-        return { success: false, message: "Ошибка подключения к базе данных" };
+        return { success: false, message: t(language, "common.dbError") };
       }
 
       const client = postgres(connectionString);
@@ -410,19 +713,17 @@ export const deleteHomeworkTool = createTool({
       const user = await db
         .select({
           id: students.id,
+          groupId: students.groupId,
           accessLevel: students.accessLevel,
         })
         .from(students)
-        .where(eq(students.telegramUserId, telegramUserId))
+        .where(isActiveUser(telegramUserId))
         .limit(1);
 
       if (user.length === 0) {
         await client.end();
         logger?.info("❌ [DeleteHomeworkTool] User not found in database");
-        return {
-          success: false,
-          message: "Пользователь не найден в базе данных",
-        };
+        return { success: false, message: t(language, "common.userNotFound") };
       }
 
       const userData = user[0];
@@ -438,43 +739,1145 @@ export const deleteHomeworkTool = createTool({
         );
         return {
           success: false,
-          message:
-            "У вас нет прав для удаления домашних заданий. Обратитесь к старосте или администратору.",
+          message: t(language, "homework.noDeletePermission"),
         };
       }
 
       // Check if homework exists and get its details
       const existingHomework = await db
-        .select({ id: homework.id, title: homework.title })
+        .select()
         .from(homework)
-        .where(eq(homework.id, homeworkId))
+        .where(and(eq(homework.id, homeworkId), isNull(homework.deletedAt)))
         .limit(1);
 
       if (existingHomework.length === 0) {
         await client.end();
         logger?.info("❌ [DeleteHomeworkTool] Homework not found:", homeworkId);
-        return { success: false, message: "Домашнее задание не найдено" };
+        return { success: false, message: t(language, "homework.notFound") };
+      }
+
+      if (
+        userData.accessLevel === "monitor" &&
+        !(await getStudentGroupIds(db, userData)).includes(
+          existingHomework[0].groupId!,
+        )
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [DeleteHomeworkTool] Monitor deleted another group:",
+          existingHomework[0].groupId,
+        );
+        return {
+          success: false,
+          message: t(language, "homework.ownGroupOnlyDelete"),
+        };
       }
 
-      // Delete homework
-      await db.delete(homework).where(eq(homework.id, homeworkId));
+      const deletedAt = new Date();
+      await db.transaction(async (tx) => {
+        await tx
+          .update(homework)
+          .set({ deletedAt, deletedBy: userData.id })
+          .where(eq(homework.id, homeworkId));
+        await writeAuditLog(tx, {
+          actorId: userData.id,
+          actorTelegramId: telegramUserId,
+          action: "homework.delete",
+          targetType: "homework",
+          targetId: homeworkId,
+          groupId: existingHomework[0].groupId,
+          before: existingHomework[0],
+          after: { deletedAt: deletedAt.toISOString() },
+        });
+      });
 
       await client.end();
 
       logger?.info(
-        "✅ [DeleteHomeworkTool] Homework deleted successfully:",
+        "✅ [DeleteHomeworkTool] Homework moved to trash:",
         homeworkId,
       );
 
       return {
         success: true,
-        message: `Домашнее задание "${existingHomework[0].title}" успешно удалено.`,
+        message: t(language, "homework.movedToTrash", {
+          title: existingHomework[0].title,
+          days: HOMEWORK_RETENTION_DAYS,
+        }),
       };
     } catch (error) {
       logger?.error("❌ [DeleteHomeworkTool] Error deleting homework:", error);
+      return { success: false, message: t(language, "homework.deleteError") };
+    }
+  },
+});
+
+// Tool for listing deleted homework
+export const listDeletedHomeworkTool = createTool({
+  id: "list-deleted-homework-tool",
+  description:
+    "Show homework in the trash that can still be restored (only for monitors, admins, and owners; monitors see their own groups)",
+  inputSchema: z.object({
+    groupId: z.number().optional().describe("Only show this group"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    homeworkList: z.array(
+      z.object({
+        id: z.number(),
+        title: z.string(),
+        subject: z.string().nullable(),
+        groupName: z.string(),
+        deletedAt: z.string(),
+        deletedByName: z.string().nullable(),
+        purgeAt: z.string(),
+      }),
+    ),
+    message: z.string(),
+  }),
+  execute: async ({ context: { groupId }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [ListDeletedHomeworkTool] Starting trash listing with params:",
+      {
+        telegramUserId,
+        groupId,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [ListDeletedHomeworkTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          homeworkList: [],
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(telegramUserId))
+        .limit(1);
+
+      if (user.length === 0) {
+        await client.end();
+        logger?.info("❌ [ListDeletedHomeworkTool] User not found in database");
+        return {
+          success: false,
+          homeworkList: [],
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const userData = user[0];
+      const accessLevel = userData.accessLevel || "student";
+      if (!["monitor", "admin", "owner"].includes(accessLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [ListDeletedHomeworkTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          homeworkList: [],
+          message: t(language, "homework.trashStaffOnly"),
+        };
+      }
+
+      const conditions = [isNotNull(homework.deletedAt)];
+      if (groupId) {
+        conditions.push(eq(homework.groupId, groupId));
+      }
+      // Monitors only see their own groups
+      if (accessLevel === "monitor") {
+        conditions.push(
+          inArray(homework.groupId, await getStudentGroupIds(db, userData)),
+        );
+      }
+
+      const rows = await db
+        .select({
+          id: homework.id,
+          title: homework.title,
+          subject: homework.subject,
+          deletedAt: homework.deletedAt,
+          groupName: groups.groupName,
+          deleterFirstName: students.firstName,
+          deleterLastName: students.lastName,
+        })
+        .from(homework)
+        .leftJoin(groups, eq(homework.groupId, groups.id))
+        .leftJoin(students, eq(homework.deletedBy, students.id))
+        .where(and(...conditions))
+        .orderBy(desc(homework.deletedAt));
+
+      await client.end();
+
+      const homeworkList = rows.map((hw) => ({
+        id: hw.id,
+        title: hw.title,
+        subject: hw.subject,
+        groupName: hw.groupName || t(language, "common.unknownGroup"),
+        deletedAt: hw.deletedAt!.toISOString(),
+        deletedByName: hw.deleterFirstName
+          ? `${hw.deleterFirstName} ${hw.deleterLastName || ""}`.trim()
+          : null,
+        purgeAt: new Date(
+          hw.deletedAt!.getTime() +
+            HOMEWORK_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+        ).toISOString(),
+      }));
+
+      logger?.info(
+        "✅ [ListDeletedHomeworkTool] Trash entries found:",
+        homeworkList.length,
+      );
+
+      return {
+        success: true,
+        homeworkList,
+        message:
+          homeworkList.length > 0
+            ? t(language, "homework.trashCount", { count: homeworkList.length })
+            : t(language, "homework.trashEmpty"),
+      };
+    } catch (error) {
+      logger?.error("❌ [ListDeletedHomeworkTool] Error listing trash:", error);
+      return {
+        success: false,
+        homeworkList: [],
+        message: t(language, "homework.trashError"),
+      };
+    }
+  },
+});
+
+// Tool for restoring deleted homework
+export const restoreHomeworkTool = createTool({
+  id: "restore-homework-tool",
+  description:
+    "Restore a homework assignment from the trash (only for monitors, admins, and owners; monitors only in their own groups)",
+  inputSchema: z.object({
+    homeworkId: z.number().describe("ID of homework to restore"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({ context: { homeworkId }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [RestoreHomeworkTool] Starting homework restore with params:",
+      {
+        telegramUserId,
+        homeworkId,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [RestoreHomeworkTool] Database connection string not found",
+        );
+        return { success: false, message: t(language, "common.dbError") };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(telegramUserId))
+        .limit(1);
+
+      if (user.length === 0) {
+        await client.end();
+        logger?.info("❌ [RestoreHomeworkTool] User not found in database");
+        return { success: false, message: t(language, "common.userNotFound") };
+      }
+
+      const userData = user[0];
+      const accessLevel = userData.accessLevel || "student";
+      if (!["monitor", "admin", "owner"].includes(accessLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [RestoreHomeworkTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          message: t(language, "homework.noRestorePermission"),
+        };
+      }
+
+      const deleted = await db
+        .select()
+        .from(homework)
+        .where(and(eq(homework.id, homeworkId), isNotNull(homework.deletedAt)))
+        .limit(1);
+
+      if (deleted.length === 0) {
+        await client.end();
+        logger?.info(
+          "❌ [RestoreHomeworkTool] Homework not in trash:",
+          homeworkId,
+        );
+        return { success: false, message: t(language, "homework.notInTrash") };
+      }
+
+      if (
+        accessLevel === "monitor" &&
+        !(await getStudentGroupIds(db, userData)).includes(deleted[0].groupId!)
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [RestoreHomeworkTool] Monitor restored another group:",
+          deleted[0].groupId,
+        );
+        return {
+          success: false,
+          message: t(language, "homework.ownGroupOnlyRestore"),
+        };
+      }
+
+      await db.transaction(async (tx) => {
+        await tx
+          .update(homework)
+          .set({ deletedAt: null, deletedBy: null })
+          .where(eq(homework.id, homeworkId));
+        await writeAuditLog(tx, {
+          actorId: userData.id,
+          actorTelegramId: telegramUserId,
+          action: "homework.restore",
+          targetType: "homework",
+          targetId: homeworkId,
+          groupId: deleted[0].groupId,
+          before: {
+            deletedAt: deleted[0].deletedAt?.toISOString(),
+            deletedBy: deleted[0].deletedBy,
+          },
+        });
+      });
+
+      await client.end();
+
+      logger?.info("✅ [RestoreHomeworkTool] Homework restored:", homeworkId);
+
+      return {
+        success: true,
+        message: t(language, "homework.restored", { title: deleted[0].title }),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [RestoreHomeworkTool] Error restoring homework:",
+        error,
+      );
+      return { success: false, message: t(language, "homework.restoreError") };
+    }
+  },
+});
+
+const HOMEWORK_FIELD_LABELS: Record<string, MessageKey> = {
+  title: "homework.field.title",
+  description: "homework.field.description",
+  subject: "homework.field.subject",
+  dueDate: "homework.field.dueDate",
+  groupId: "homework.field.groupId",
+};
+
+// Revisions keep raw values (due dates as ISO strings, group IDs) and are formatted only for
+// display. Older revisions stored display strings, which are shown as they are.
+function formatRevisionValue(
+  field: string,
+  value: unknown,
+  settings: GroupSettings,
+  groupNames: Map<number, string>,
+): string | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return formatLocalDateTime(value, settings);
+  if (
+    field === "dueDate" &&
+    typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}T/.test(value)
+  )
+    return formatLocalDateTime(new Date(value), settings);
+  if (field === "groupId" && typeof value === "number")
+    return groupNames.get(value) || String(value);
+  return String(value);
+}
+
+// Tool for editing homework in place
+export const updateHomeworkTool = createTool({
+  id: "update-homework-tool",
+  description:
+    "Edit an existing homework assignment (title, description, subject, due date or group) keeping its ID and creator; the edit is saved in the revision history and affected students are notified (only for monitors, admins, and owners; monitors only in their own groups)",
+  inputSchema: z.object({
+    homeworkId: z.number().describe("ID of homework to edit"),
+    title: z.string().optional().describe("New title"),
+    description: z
+      .string()
+      .optional()
+      .describe("New description (empty string clears it)"),
+    subject: z
+      .string()
+      .optional()
+      .describe("New subject (empty string clears it)"),
+    dueDate: z
+      .string()
+      .optional()
+      .describe(
+        "New due date as the user wrote it, e.g. 'до пятницы', 'через неделю', '25.10 18:00', or YYYY-MM-DD HH:MM (empty string clears it)",
+      ),
+    groupId: z.number().optional().describe("Move the homework to this group"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    changes: z.array(
+      z.object({
+        field: z.string(),
+        from: z.string().nullable(),
+        to: z.string().nullable(),
+      }),
+    ),
+    notified: z.number(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { homeworkId, title, description, subject, dueDate, groupId },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const editedByTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [UpdateHomeworkTool] Starting homework update with params:",
+      {
+        editedByTelegramId,
+        homeworkId,
+        title,
+        subject,
+        dueDate,
+        groupId,
+      },
+    );
+
+    const empty = { changes: [], notified: 0 };
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [UpdateHomeworkTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const editor = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(editedByTelegramId))
+        .limit(1);
+
+      if (editor.length === 0) {
+        await client.end();
+        logger?.info("❌ [UpdateHomeworkTool] Editor not found in database");
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const editorData = editor[0];
+      const accessLevel = editorData.accessLevel || "student";
+      if (!["monitor", "admin", "owner"].includes(accessLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [UpdateHomeworkTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "homework.noEditPermission"),
+        };
+      }
+
+      const existingHomework = await db
+        .select()
+        .from(homework)
+        .where(and(eq(homework.id, homeworkId), isNull(homework.deletedAt)))
+        .limit(1);
+
+      if (existingHomework.length === 0) {
+        await client.end();
+        logger?.info("❌ [UpdateHomeworkTool] Homework not found:", homeworkId);
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "homework.notFound"),
+        };
+      }
+
+      const hw = existingHomework[0];
+
+      // Monitors only edit homework of their own groups, and can't move it elsewhere
+      if (accessLevel === "monitor") {
+        const memberGroupIds = await getStudentGroupIds(db, editorData);
+        if (
+          !memberGroupIds.includes(hw.groupId!) ||
+          (groupId && !memberGroupIds.includes(groupId))
+        ) {
+          await client.end();
+          logger?.info(
+            "❌ [UpdateHomeworkTool] Monitor edited another group:",
+            { from: hw.groupId, to: groupId },
+          );
+          return {
+            success: false,
+            ...empty,
+            message: t(language, "homework.ownGroupsOnlyEdit"),
+          };
+        }
+      }
+
+      const updates: Partial<typeof homework.$inferInsert> = {};
+      if (title !== undefined && title.trim() && title.trim() !== hw.title) {
+        updates.title = title.trim();
+      }
+      if (
+        description !== undefined &&
+        (description || null) !== hw.description
+      ) {
+        updates.description = description || null;
+      }
+      if (subject !== undefined && (subject || null) !== hw.subject) {
+        updates.subject = subject || null;
+      }
+      if (dueDate !== undefined) {
+        let parsedDueDate: Date | null = null;
+        if (dueDate) {
+          const resolved = await resolveDueDate(db, dueDate, {
+            groupId: groupId ?? hw.groupId!,
+            subject: subject || hw.subject,
+            language,
+          });
+          if ("question" in resolved) {
+            await client.end();
+            logger?.info(
+              "❌ [UpdateHomeworkTool] Due date needs clarification:",
+              dueDate,
+            );
+            return { success: false, ...empty, message: resolved.question };
+          }
+          parsedDueDate = resolved.dueDate;
+        }
+        if (parsedDueDate?.getTime() !== hw.dueDate?.getTime()) {
+          updates.dueDate = parsedDueDate;
+        }
+      }
+
+      const groupNames = new Map<number, string>();
+      if (groupId !== undefined && groupId !== hw.groupId) {
+        const target = await db
+          .select({
+            groupName: groups.groupName,
+            archivedAt: groups.archivedAt,
+          })
+          .from(groups)
+          .where(eq(groups.id, groupId))
+          .limit(1);
+
+        if (target.length === 0 || target[0].archivedAt) {
+          await client.end();
+          logger?.info(
+            "❌ [UpdateHomeworkTool] Target group not available:",
+            groupId,
+          );
+          return {
+            success: false,
+            ...empty,
+            message: t(language, "homework.groupNotFoundOrArchived"),
+          };
+        }
+        updates.groupId = groupId;
+        groupNames.set(groupId, target[0].groupName);
+      }
+
+      const changedFields = Object.keys(updates) as Array<keyof typeof updates>;
+      if (changedFields.length === 0) {
+        await client.end();
+        logger?.info("📝 [UpdateHomeworkTool] Nothing to change");
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "homework.nothingChanged"),
+        };
+      }
+
+      if (hw.groupId) {
+        const current = await db
+          .select({ groupName: groups.groupName })
+          .from(groups)
+          .where(eq(groups.id, hw.groupId))
+          .limit(1);
+        groupNames.set(
+          hw.groupId,
+          current[0]?.groupName || t(language, "common.unknownGroup"),
+        );
+      }
+
+      // Human-readable before/after values for the notice, dates in the group's settings
+      const settings = await getGroupSettings(
+        db,
+        updates.groupId ?? hw.groupId,
+      );
+      const changes = changedFields.map((field) => ({
+        field,
+        from: formatRevisionValue(field, hw[field], settings, groupNames),
+        to: formatRevisionValue(field, updates[field], settings, groupNames),
+      }));
+
+      const updated = await db.transaction(async (tx) => {
+        const result = await tx
+          .update(homework)
+          .set({ ...updates, updatedAt: new Date() })
+          .where(eq(homework.id, homeworkId))
+          .returning();
+
+        await tx.insert(homeworkRevisions).values({
+          homeworkId,
+          editedBy: editorData.id,
+          changes: Object.fromEntries(
+            changedFields.map((field) => [
+              field,
+              {
+                from: hw[field] ?? null,
+                to: updates[field] ?? null,
+              },
+            ]),
+          ),
+        });
+
+        await writeAuditLog(tx, {
+          actorId: editorData.id,
+          actorTelegramId: editedByTelegramId,
+          action: "homework.update",
+          targetType: "homework",
+          targetId: homeworkId,
+          groupId: result[0].groupId,
+          before: hw,
+          after: result[0],
+        });
+
+        return result[0];
+      });
+
+      // Students of the old and the new group hear about the change
+      const affectedGroupIds = [
+        ...new Set(
+          [hw.groupId, updated.groupId].filter(
+            (id): id is number => id !== null,
+          ),
+        ),
+      ];
+      const recipients =
+        affectedGroupIds.length > 0
+          ? await db
+              .select({
+                telegramUserId: students.telegramUserId,
+                language: students.language,
+                telegramLanguageCode: students.telegramLanguageCode,
+              })
+              .from(students)
+              .where(
+                and(
+                  eq(students.isActive, true),
+                  or(...affectedGroupIds.map((id) => isGroupMember(id))),
+                ),
+              )
+          : [];
+
+      await client.end();
+
+      // Each student gets the notice in their own language
+      const notice = (noticeLanguage: Language) =>
+        [
+          t(noticeLanguage, "homework.changedNotice", {
+            title: escapeHtml(updated.title),
+          }),
+          ...changes.map(
+            (change) =>
+              `${t(noticeLanguage, HOMEWORK_FIELD_LABELS[change.field])}: ${escapeHtml(change.from ?? "—")} → ${escapeHtml(change.to ?? "—")}`,
+          ),
+        ].join("\n");
+
+      let notified = 0;
+      for (const recipient of recipients) {
+        if (recipient.telegramUserId === editedByTelegramId) {
+          continue;
+        }
+        const result = await sendTelegramMessage(
+          recipient.telegramUserId,
+          notice(studentLanguage(recipient)),
+          { logger },
+        );
+        if (result.success) {
+          notified++;
+        }
+      }
+
+      logger?.info("✅ [UpdateHomeworkTool] Homework updated:", {
+        homeworkId,
+        fields: changedFields,
+        notified,
+      });
+
+      return {
+        success: true,
+        changes,
+        notified,
+        message: t(language, "homework.updated", {
+          title: updated.title,
+          fields: changes
+            .map((change) =>
+              t(language, HOMEWORK_FIELD_LABELS[change.field]).toLowerCase(),
+            )
+            .join(", "),
+          notified,
+        }),
+      };
+    } catch (error) {
+      logger?.error("❌ [UpdateHomeworkTool] Error updating homework:", error);
+      return {
+        success: false,
+        ...empty,
+        message: t(language, "homework.updateError"),
+      };
+    }
+  },
+});
+
+// Tool for viewing the edit history of a homework assignment
+export const viewHomeworkHistoryTool = createTool({
+  id: "view-homework-history-tool",
+  description:
+    "Show who changed a homework assignment, when, and what was changed (only for monitors, admins, and owners)",
+  inputSchema: z.object({
+    homeworkId: z.number().describe("ID of homework"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    revisions: z.array(
+      z.object({
+        editedAt: z.string(),
+        editorName: z.string().nullable(),
+        changes: z.array(
+          z.object({
+            field: z.string(),
+            from: z.string().nullable(),
+            to: z.string().nullable(),
+          }),
+        ),
+      }),
+    ),
+    message: z.string(),
+  }),
+  execute: async ({ context: { homeworkId }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [ViewHomeworkHistoryTool] Starting history view with params:",
+      {
+        telegramUserId,
+        homeworkId,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [ViewHomeworkHistoryTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          revisions: [],
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(telegramUserId))
+        .limit(1);
+
+      const accessLevel = user[0]?.accessLevel || "student";
+      if (
+        user.length === 0 ||
+        !["monitor", "admin", "owner"].includes(accessLevel)
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [ViewHomeworkHistoryTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          revisions: [],
+          message: t(language, "homework.historyStaffOnly"),
+        };
+      }
+
+      // Deleted homework keeps its history, so the trash is searched too
+      const hw = await db
+        .select({ groupId: homework.groupId })
+        .from(homework)
+        .where(eq(homework.id, homeworkId))
+        .limit(1);
+
+      if (hw.length === 0) {
+        await client.end();
+        logger?.info(
+          "❌ [ViewHomeworkHistoryTool] Homework not found:",
+          homeworkId,
+        );
+        return {
+          success: false,
+          revisions: [],
+          message: t(language, "homework.notFound"),
+        };
+      }
+
+      if (accessLevel === "monitor") {
+        const memberGroupIds = await getStudentGroupIds(db, user[0]);
+        if (!memberGroupIds.includes(hw[0].groupId!)) {
+          await client.end();
+          logger?.info(
+            "❌ [ViewHomeworkHistoryTool] Monitor viewed another group:",
+            hw[0].groupId,
+          );
+          return {
+            success: false,
+            revisions: [],
+            message: t(language, "homework.ownGroupsOnlyHistory"),
+          };
+        }
+      }
+
+      const rows = await db
+        .select({
+          createdAt: homeworkRevisions.createdAt,
+          changes: homeworkRevisions.changes,
+          editorFirstName: students.firstName,
+          editorLastName: students.lastName,
+        })
+        .from(homeworkRevisions)
+        .leftJoin(students, eq(homeworkRevisions.editedBy, students.id))
+        .where(eq(homeworkRevisions.homeworkId, homeworkId))
+        .orderBy(desc(homeworkRevisions.createdAt));
+
+      const settings = await getGroupSettings(db, hw[0].groupId);
+      const revisionGroupIds = rows.flatMap((row) =>
+        [row.changes.groupId?.from, row.changes.groupId?.to].filter(
+          (value): value is number => typeof value === "number",
+        ),
+      );
+      const groupNames = new Map(
+        revisionGroupIds.length > 0
+          ? (
+              await db
+                .select({ id: groups.id, groupName: groups.groupName })
+                .from(groups)
+                .where(inArray(groups.id, revisionGroupIds))
+            ).map((group) => [group.id, group.groupName])
+          : [],
+      );
+
+      await client.end();
+
+      const revisions = rows.map((row) => ({
+        editedAt: row.createdAt.toISOString(),
+        editorName: row.editorFirstName
+          ? `${row.editorFirstName} ${row.editorLastName || ""}`.trim()
+          : null,
+        changes: Object.entries(row.changes).map(([field, change]) => ({
+          field: HOMEWORK_FIELD_LABELS[field]
+            ? t(language, HOMEWORK_FIELD_LABELS[field])
+            : field,
+          from: formatRevisionValue(field, change.from, settings, groupNames),
+          to: formatRevisionValue(field, change.to, settings, groupNames),
+        })),
+      }));
+
+      logger?.info(
+        "✅ [ViewHomeworkHistoryTool] Revisions found:",
+        revisions.length,
+      );
+
+      return {
+        success: true,
+        revisions,
+        message:
+          revisions.length > 0
+            ? t(language, "homework.revisionCount", { count: revisions.length })
+            : t(language, "homework.neverChanged"),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [ViewHomeworkHistoryTool] Error viewing history:",
+        error,
+      );
+      return {
+        success: false,
+        revisions: [],
+        message: t(language, "homework.historyError"),
+      };
+    }
+  },
+});
+
+// Tool for attaching files to an existing homework assignment
+export const addHomeworkAttachmentsTool = createTool({
+  id: "add-homework-attachments-tool",
+  description:
+    "Attach photos or documents to an existing homework assignment (only for monitors, admins, and owners; monitors only in their own groups)",
+  inputSchema: z.object({
+    homeworkId: z.number().describe("ID of homework"),
+    attachments: z
+      .array(attachmentInputSchema)
+      .optional()
+      .describe("Files sent with the message"),
+    mediaGroupId: z
+      .string()
+      .optional()
+      .describe(
+        "media_group_id when the files were sent as an album; all files of the album are attached",
+      ),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    attachmentCount: z.number(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { homeworkId, attachments, mediaGroupId },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [AddHomeworkAttachmentsTool] Starting attachment upload with params:",
+      {
+        telegramUserId,
+        homeworkId,
+        attachments: attachments?.length,
+        mediaGroupId,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [AddHomeworkAttachmentsTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          attachmentCount: 0,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(telegramUserId))
+        .limit(1);
+
+      const accessLevel = user[0]?.accessLevel || "student";
+      if (
+        user.length === 0 ||
+        !["monitor", "admin", "owner"].includes(accessLevel)
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [AddHomeworkAttachmentsTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          attachmentCount: 0,
+          message: t(language, "homework.attachStaffOnly"),
+        };
+      }
+
+      const existingHomework = await db
+        .select({
+          id: homework.id,
+          title: homework.title,
+          groupId: homework.groupId,
+        })
+        .from(homework)
+        .where(and(eq(homework.id, homeworkId), isNull(homework.deletedAt)))
+        .limit(1);
+
+      if (existingHomework.length === 0) {
+        await client.end();
+        logger?.info(
+          "❌ [AddHomeworkAttachmentsTool] Homework not found:",
+          homeworkId,
+        );
+        return {
+          success: false,
+          attachmentCount: 0,
+          message: t(language, "homework.notFound"),
+        };
+      }
+
+      const hw = existingHomework[0];
+      if (
+        accessLevel === "monitor" &&
+        !(await getStudentGroupIds(db, user[0])).includes(hw.groupId!)
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [AddHomeworkAttachmentsTool] Monitor attached to another group:",
+          hw.groupId,
+        );
+        return {
+          success: false,
+          attachmentCount: 0,
+          message: t(language, "homework.ownGroupsOnlyEdit"),
+        };
+      }
+
+      // The album is only taken from the pending list together with saving it
+      const attached = await db.transaction(async (tx) => {
+        const files = await collectAttachments(
+          tx,
+          telegramUserId,
+          attachments,
+          mediaGroupId,
+        );
+        if (files.length === 0) {
+          return null;
+        }
+
+        const [{ value: existingCount }] = await tx
+          .select({ value: count() })
+          .from(homeworkAttachments)
+          .where(eq(homeworkAttachments.homeworkId, homeworkId));
+
+        await tx.insert(homeworkAttachments).values(
+          files.map((file, index) => ({
+            homeworkId,
+            fileId: file.fileId,
+            fileType: file.fileType,
+            fileName: file.fileName || null,
+            position: existingCount + index,
+          })),
+        );
+
+        await writeAuditLog(tx, {
+          actorId: user[0].id,
+          actorTelegramId: telegramUserId,
+          action: "homework.attach",
+          targetType: "homework",
+          targetId: homeworkId,
+          groupId: hw.groupId,
+          after: { files },
+        });
+        return { files, existingCount };
+      });
+
+      if (!attached) {
+        await client.end();
+        logger?.info("❌ [AddHomeworkAttachmentsTool] No files to attach");
+        return {
+          success: false,
+          attachmentCount: 0,
+          message: t(language, "homework.noFiles"),
+        };
+      }
+      const { files, existingCount } = attached;
+
+      await client.end();
+
+      logger?.info("✅ [AddHomeworkAttachmentsTool] Files attached:", {
+        homeworkId,
+        count: files.length,
+      });
+
+      return {
+        success: true,
+        attachmentCount: existingCount + files.length,
+        message: t(language, "homework.filesAttached", {
+          title: hw.title,
+          count: files.length,
+        }),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [AddHomeworkAttachmentsTool] Error attaching files:",
+        error,
+      );
       return {
         success: false,
-        message: "Произошла ошибка при удалении домашнего задания",
+        attachmentCount: 0,
+        message: t(language, "homework.attachError"),
       };
     }
   },
@@ -0,0 +1,430 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { students, homework, submissions } from "../../../shared/schema";
+import { eq, and, asc, isNull } from "drizzle-orm";
+import { getStudentGroupIds, isGroupMember } from "../utils/groupMembership";
+import { writeAuditLog } from "../utils/auditLog";
+import { t, languageOf } from "../i18n";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+// Tool for submitting homework (text answer and/or a Telegram file)
+export const submitHomeworkTool = createTool({
+  id: "submit-homework-tool",
+  description:
+    "Submit (or resubmit) a student's work for a homework assignment. Accepts a text answer and/or a Telegram document or photo file_id",
+  inputSchema: z.object({
+    homeworkId: z.number().describe("ID of the homework being submitted"),
+    content: z
+      .string()
+      .optional()
+      .describe("Text answer or comment for the submission"),
+    fileId: z
+      .string()
+      .optional()
+      .describe("Telegram file_id of the attached document or photo"),
+    fileType: z
+      .enum(["document", "photo"])
+      .optional()
+      .describe("Type of the attached file"),
+    fileName: z
+      .string()
+      .optional()
+      .describe("Original file name (documents only)"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    submission: z
+      .object({
+        id: z.number(),
+        homeworkId: z.number(),
+        homeworkTitle: z.string(),
+        hasFile: z.boolean(),
+        submittedAt: z.string(),
+        isLate: z.boolean(),
+      })
+      .nullable(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { homeworkId, content, fileId, fileType, fileName },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [SubmitHomeworkTool] Starting submission with params:", {
+      telegramUserId,
+      homeworkId,
+      hasContent: !!content,
+      fileType,
+    });
+
+    if (!content && !fileId) {
+      logger?.info("❌ [SubmitHomeworkTool] Empty submission");
+      return {
+        success: false,
+        submission: null,
+        message: t(language, "submission.empty"),
+      };
+    }
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [SubmitHomeworkTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          submission: null,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({
+          id: students.id,
+          groupId: students.groupId,
+          isActive: students.isActive,
+        })
+        .from(students)
+        .where(eq(students.telegramUserId, telegramUserId))
+        .limit(1);
+
+      if (user.length === 0 || !user[0].isActive) {
+        await client.end();
+        logger?.info("❌ [SubmitHomeworkTool] Student not found or inactive");
+        return {
+          success: false,
+          submission: null,
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const userData = user[0];
+
+      const existingHomework = await db
+        .select({
+          id: homework.id,
+          title: homework.title,
+          groupId: homework.groupId,
+          dueDate: homework.dueDate,
+        })
+        .from(homework)
+        .where(and(eq(homework.id, homeworkId), isNull(homework.deletedAt)))
+        .limit(1);
+
+      if (existingHomework.length === 0) {
+        await client.end();
+        logger?.info("❌ [SubmitHomeworkTool] Homework not found:", homeworkId);
+        return {
+          success: false,
+          submission: null,
+          message: t(language, "homework.notFound"),
+        };
+      }
+
+      const hw = existingHomework[0];
+      const memberGroupIds = await getStudentGroupIds(db, userData);
+      if (!hw.groupId || !memberGroupIds.includes(hw.groupId)) {
+        await client.end();
+        logger?.info(
+          "❌ [SubmitHomeworkTool] Homework belongs to another group:",
+          hw.groupId,
+        );
+        return {
+          success: false,
+          submission: null,
+          message: t(language, "submission.wrongGroup"),
+        };
+      }
+
+      const now = new Date();
+      const values = {
+        content: content || null,
+        fileId: fileId || null,
+        fileType: fileId ? fileType || "document" : null,
+        fileName: fileName || null,
+      };
+
+      // Resubmitting replaces the previous attempt
+      const result = await db
+        .insert(submissions)
+        .values({
+          homeworkId,
+          studentId: userData.id,
+          ...values,
+        })
+        .onConflictDoUpdate({
+          target: [submissions.homeworkId, submissions.studentId],
+          set: { ...values, submittedAt: now, updatedAt: now },
+        })
+        .returning();
+
+      const saved = result[0];
+
+      await writeAuditLog(db, {
+        actorId: userData.id,
+        actorTelegramId: telegramUserId,
+        action: "submission.submit",
+        targetType: "submission",
+        targetId: saved.id,
+        groupId: hw.groupId,
+        after: saved,
+      });
+
+      await client.end();
+
+      const submittedAt = saved.submittedAt || now;
+      const isLate = !!hw.dueDate && submittedAt > hw.dueDate;
+
+      logger?.info("✅ [SubmitHomeworkTool] Submission saved:", saved.id);
+
+      return {
+        success: true,
+        submission: {
+          id: saved.id,
+          homeworkId: hw.id,
+          homeworkTitle: hw.title,
+          hasFile: !!saved.fileId,
+          submittedAt: submittedAt.toISOString(),
+          isLate,
+        },
+        message: isLate
+          ? t(language, "submission.late", { title: hw.title })
+          : t(language, "submission.done", { title: hw.title }),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [SubmitHomeworkTool] Error submitting homework:",
+        error,
+      );
+      return {
+        success: false,
+        submission: null,
+        message: t(language, "submission.error"),
+      };
+    }
+  },
+});
+
+// Tool for listing who has and hasn't submitted a homework
+export const viewSubmissionsTool = createTool({
+  id: "view-submissions-tool",
+  description:
+    "List which students have and have not submitted a given homework (only for monitors, admins, and owners)",
+  inputSchema: z.object({
+    homeworkId: z.number().describe("ID of the homework to check"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    homeworkTitle: z.string().nullable(),
+    submitted: z.array(
+      z.object({
+        studentId: z.string(),
+        name: z.string(),
+        submittedAt: z.string(),
+        isLate: z.boolean(),
+        hasFile: z.boolean(),
+      }),
+    ),
+    missing: z.array(
+      z.object({
+        studentId: z.string(),
+        name: z.string(),
+      }),
+    ),
+    message: z.string(),
+  }),
+  execute: async ({ context: { homeworkId }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [ViewSubmissionsTool] Starting submissions view with params:",
+      {
+        telegramUserId,
+        homeworkId,
+      },
+    );
+
+    const empty = { homeworkTitle: null, submitted: [], missing: [] };
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [ViewSubmissionsTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(telegramUserId))
+        .limit(1);
+
+      if (user.length === 0) {
+        await client.end();
+        logger?.info("❌ [ViewSubmissionsTool] User not found in database");
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const userData = user[0];
+      const accessLevel = userData.accessLevel || "student";
+      const hasPermission = ["monitor", "admin", "owner"].includes(accessLevel);
+
+      if (!hasPermission) {
+        await client.end();
+        logger?.info(
+          "❌ [ViewSubmissionsTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "submission.noViewPermission"),
+        };
+      }
+
+      const existingHomework = await db
+        .select({
+          id: homework.id,
+          title: homework.title,
+          groupId: homework.groupId,
+          dueDate: homework.dueDate,
+        })
+        .from(homework)
+        .where(and(eq(homework.id, homeworkId), isNull(homework.deletedAt)))
+        .limit(1);
+
+      if (existingHomework.length === 0 || !existingHomework[0].groupId) {
+        await client.end();
+        logger?.info(
+          "❌ [ViewSubmissionsTool] Homework not found:",
+          homeworkId,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "homework.notFound"),
+        };
+      }
+
+      const hw = existingHomework[0];
+
+      // Monitors only see their own groups
+      if (
+        accessLevel === "monitor" &&
+        !(await getStudentGroupIds(db, userData)).includes(hw.groupId!)
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [ViewSubmissionsTool] Monitor requested another group:",
+          hw.groupId,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "submission.ownGroupOnly"),
+        };
+      }
+
+      const rows = await db
+        .select({
+          studentId: students.studentId,
+          firstName: students.firstName,
+          lastName: students.lastName,
+          submittedAt: submissions.submittedAt,
+          fileId: submissions.fileId,
+        })
+        .from(students)
+        .leftJoin(
+          submissions,
+          and(
+            eq(submissions.studentId, students.id),
+            eq(submissions.homeworkId, hw.id),
+          ),
+        )
+        .where(and(isGroupMember(hw.groupId!), eq(students.isActive, true)))
+        .orderBy(asc(students.lastName), asc(students.firstName));
+
+      await client.end();
+
+      const nameOf = (row: {
+        firstName: string | null;
+        lastName: string | null;
+        studentId: string;
+      }) =>
+        row.firstName
+          ? `${row.firstName} ${row.lastName || ""}`.trim()
+          : row.studentId;
+
+      const submitted = rows
+        .filter((row) => row.submittedAt)
+        .map((row) => ({
+          studentId: row.studentId,
+          name: nameOf(row),
+          submittedAt: row.submittedAt!.toISOString(),
+          isLate: !!hw.dueDate && row.submittedAt! > hw.dueDate,
+          hasFile: !!row.fileId,
+        }));
+
+      const missing = rows
+        .filter((row) => !row.submittedAt)
+        .map((row) => ({
+          studentId: row.studentId,
+          name: nameOf(row),
+        }));
+
+      logger?.info("✅ [ViewSubmissionsTool] Retrieved submissions:", {
+        submitted: submitted.length,
+        missing: missing.length,
+      });
+
+      return {
+        success: true,
+        homeworkTitle: hw.title,
+        submitted,
+        missing,
+        message: t(language, "submission.summary", {
+          title: hw.title,
+          submitted: submitted.length,
+          missing: missing.length,
+        }),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [ViewSubmissionsTool] Error viewing submissions:",
+        error,
+      );
+      return {
+        success: false,
+        ...empty,
+        message: t(language, "submission.listError"),
+      };
+    }
+  },
+});
@@ -0,0 +1,757 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { drizzle, type PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import {
+  students,
+  groups,
+  homework,
+  homeworkTemplates,
+  lessons,
+} from "../../../shared/schema";
+import { eq, and, asc, gt, inArray, isNull, sql } from "drizzle-orm";
+import { zonedParts, weekdayName } from "../utils/dates";
+import { getStudentGroupIds } from "../utils/groupMembership";
+import { writeAuditLog } from "../utils/auditLog";
+import { generateFromTemplate } from "../jobs/homeworkTemplates";
+import { t, languageOf, type Language } from "../i18n";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in format YYYY-MM-DD");
+const timeString = z
+  .string()
+  .regex(/^\d{1,2}:\d{2}$/, "Time must be in format HH:MM");
+
+type HomeworkTemplate = typeof homeworkTemplates.$inferSelect;
+
+function describeRecurrence(
+  template: HomeworkTemplate,
+  language: Language,
+): string {
+  const dueTime = template.dueTime
+    ? t(language, "template.dueTime", { time: template.dueTime.slice(0, 5) })
+    : "";
+  switch (template.recurrence) {
+    case "weekly":
+      return t(language, "template.weekly", {
+        weekdays: (template.weekdays || [])
+          .map((day) => weekdayName(day, language))
+          .join(", "),
+        dueTime,
+      });
+    case "interval":
+      return t(language, "template.interval", {
+        days: template.intervalDays!,
+        startDate: template.startDate,
+        dueTime,
+      });
+    case "lesson":
+      return t(language, "template.lesson", { subject: template.subject! });
+  }
+}
+
+// Loads the template and checks that the user is a monitor of its group, or an admin
+async function loadManagedTemplate(
+  db: PostgresJsDatabase,
+  telegramUserId: number,
+  templateId: number,
+  language: Language,
+): Promise<{ userId: number; template: HomeworkTemplate } | { error: string }> {
+  const user = await db
+    .select({
+      id: students.id,
+      accessLevel: students.accessLevel,
+      groupId: students.groupId,
+    })
+    .from(students)
+    .where(isActiveUser(telegramUserId))
+    .limit(1);
+
+  const accessLevel = user[0]?.accessLevel || "student";
+  if (
+    user.length === 0 ||
+    !["monitor", "admin", "owner"].includes(accessLevel)
+  ) {
+    return { error: t(language, "template.staffOnly") };
+  }
+
+  const template = await db
+    .select()
+    .from(homeworkTemplates)
+    .where(eq(homeworkTemplates.id, templateId))
+    .limit(1);
+
+  if (template.length === 0) {
+    return { error: t(language, "template.notFound") };
+  }
+
+  if (
+    accessLevel === "monitor" &&
+    !(await getStudentGroupIds(db, user[0])).includes(template[0].groupId)
+  ) {
+    return { error: t(language, "template.ownGroupsOnly") };
+  }
+
+  return { userId: user[0].id, template: template[0] };
+}
+
+// Tool for creating a recurring homework template
+export const createHomeworkTemplateTool = createTool({
+  id: "create-homework-template-tool",
+  description:
+    "Create a recurring homework assignment: weekly on given weekdays, every N days, or due at every lesson of a subject. Concrete homework is created automatically a few days ahead (only for monitors, admins, and owners)",
+  inputSchema: z.object({
+    title: z.string().describe("Homework title"),
+    description: z.string().optional().describe("Homework description"),
+    subject: z
+      .string()
+      .optional()
+      .describe('Subject name (required for recurrence "lesson")'),
+    recurrence: z
+      .enum(["weekly", "interval", "lesson"])
+      .describe(
+        "weekly: on given weekdays; interval: every N days; lesson: due at every timetable lesson of the subject",
+      ),
+    weekdays: z
+      .array(z.number().int().min(1).max(7))
+      .optional()
+      .describe(
+        "For weekly: ISO weekdays the homework is due, 1 = Monday ... 7 = Sunday",
+      ),
+    intervalDays: z
+      .number()
+      .int()
+      .min(1)
+      .max(365)
+      .optional()
+      .describe("For interval: number of days between due dates"),
+    startDate: dateString
+      .optional()
+      .describe("First possible due date in format YYYY-MM-DD (default today)"),
+    dueTime: timeString
+      .optional()
+      .describe("Due time HH:MM for weekly and interval (default 23:59)"),
+    leadDays: z
+      .number()
+      .int()
+      .min(1)
+      .max(30)
+      .default(7)
+      .describe("How many days ahead the homework appears"),
+    groupId: z
+      .number()
+      .optional()
+      .describe(
+        "Group ID (required when the creator belongs to several groups)",
+      ),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    templateId: z.number().nullable(),
+    createdHomework: z.number(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: {
+      title,
+      description,
+      subject,
+      recurrence,
+      weekdays,
+      intervalDays,
+      startDate,
+      dueTime,
+      leadDays,
+      groupId,
+    },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const createdByTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [CreateHomeworkTemplateTool] Starting template creation with params:",
+      {
+        createdByTelegramId,
+        title,
+        subject,
+        recurrence,
+        weekdays,
+        intervalDays,
+        groupId,
+      },
+    );
+
+    const empty = { templateId: null, createdHomework: 0 };
+
+    if (recurrence === "weekly" && (!weekdays || weekdays.length === 0)) {
+      return {
+        success: false,
+        ...empty,
+        message: t(language, "template.weekdaysRequired"),
+      };
+    }
+    if (recurrence === "interval" && !intervalDays) {
+      return {
+        success: false,
+        ...empty,
+        message: t(language, "template.intervalRequired"),
+      };
+    }
+    if (recurrence === "lesson" && !subject) {
+      return {
+        success: false,
+        ...empty,
+        message: t(language, "template.subjectRequired"),
+      };
+    }
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [CreateHomeworkTemplateTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const creator = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(createdByTelegramId))
+        .limit(1);
+
+      const accessLevel = creator[0]?.accessLevel || "student";
+      if (
+        creator.length === 0 ||
+        !["monitor", "admin", "owner"].includes(accessLevel)
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [CreateHomeworkTemplateTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "template.createStaffOnly"),
+        };
+      }
+
+      const memberGroupIds = await getStudentGroupIds(db, creator[0]);
+      if (
+        groupId &&
+        accessLevel === "monitor" &&
+        !memberGroupIds.includes(groupId)
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [CreateHomeworkTemplateTool] Creator is not a member of group:",
+          groupId,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "template.ownGroupsOnlyCreate"),
+        };
+      }
+      if (!groupId && memberGroupIds.length > 1) {
+        await client.end();
+        logger?.info(
+          "📝 [CreateHomeworkTemplateTool] Creator has several groups, asking which one",
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "template.chooseGroup"),
+        };
+      }
+
+      const targetGroupId = groupId || memberGroupIds[0];
+      const group = targetGroupId
+        ? await db
+            .select({ groupName: groups.groupName, timezone: groups.timezone })
+            .from(groups)
+            .where(eq(groups.id, targetGroupId))
+            .limit(1)
+        : [];
+
+      if (group.length === 0) {
+        await client.end();
+        logger?.info(
+          "❌ [CreateHomeworkTemplateTool] Group not found:",
+          targetGroupId,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.groupNotFound"),
+        };
+      }
+
+      if (recurrence === "lesson") {
+        const subjectLessons = await db
+          .select({ id: lessons.id })
+          .from(lessons)
+          .where(
+            and(
+              eq(lessons.groupId, targetGroupId),
+              sql`lower(${lessons.subject}) = ${subject!.toLowerCase()}`,
+            ),
+          )
+          .limit(1);
+
+        if (subjectLessons.length === 0) {
+          await client.end();
+          logger?.info(
+            "❌ [CreateHomeworkTemplateTool] No lessons of subject in timetable:",
+            subject,
+          );
+          return {
+            success: false,
+            ...empty,
+            message: t(language, "template.noLessons", {
+              groupName: group[0].groupName,
+              subject: subject!,
+            }),
+          };
+        }
+      }
+
+      const created = await db
+        .insert(homeworkTemplates)
+        .values({
+          groupId: targetGroupId,
+          title,
+          description: description || null,
+          subject: subject || null,
+          recurrence,
+          weekdays:
+            recurrence === "weekly"
+              ? [...new Set<number>(weekdays)].sort((a, b) => a - b)
+              : null,
+          intervalDays: recurrence === "interval" ? intervalDays : null,
+          startDate: startDate || zonedParts(new Date(), group[0].timezone).day,
+          dueTime: recurrence === "lesson" ? null : dueTime || null,
+          leadDays: leadDays || 7,
+          createdBy: creator[0].id,
+        })
+        .returning();
+
+      await writeAuditLog(db, {
+        actorId: creator[0].id,
+        actorTelegramId: createdByTelegramId,
+        action: "template.create",
+        targetType: "homework_template",
+        targetId: created[0].id,
+        groupId: targetGroupId,
+        after: created[0],
+      });
+
+      // Fill the first lead window right away instead of waiting for the nightly run
+      const createdHomework = await generateFromTemplate(db, created[0].id);
+
+      await client.end();
+
+      logger?.info("✅ [CreateHomeworkTemplateTool] Template created:", {
+        templateId: created[0].id,
+        createdHomework,
+      });
+
+      return {
+        success: true,
+        templateId: created[0].id,
+        createdHomework,
+        message: t(language, "template.created", {
+          title,
+          groupName: group[0].groupName,
+          schedule: describeRecurrence(created[0], language),
+          count: createdHomework,
+        }),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [CreateHomeworkTemplateTool] Error creating template:",
+        error,
+      );
+      return {
+        success: false,
+        ...empty,
+        message: t(language, "template.createError"),
+      };
+    }
+  },
+});
+
+// Tool for listing recurring homework templates
+export const listHomeworkTemplatesTool = createTool({
+  id: "list-homework-templates-tool",
+  description:
+    "List recurring homework templates with their schedule and paused state (only for monitors, admins, and owners; monitors see their own groups)",
+  inputSchema: z.object({
+    groupId: z.number().optional().describe("Only show this group"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    templates: z.array(
+      z.object({
+        id: z.number(),
+        title: z.string(),
+        subject: z.string().nullable(),
+        groupName: z.string(),
+        schedule: z.string(),
+        paused: z.boolean(),
+        generatedUntil: z.string().nullable(),
+      }),
+    ),
+    message: z.string(),
+  }),
+  execute: async ({ context: { groupId }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [ListHomeworkTemplatesTool] Starting template listing with params:",
+      {
+        telegramUserId,
+        groupId,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [ListHomeworkTemplatesTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          templates: [],
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(telegramUserId))
+        .limit(1);
+
+      const accessLevel = user[0]?.accessLevel || "student";
+      if (
+        user.length === 0 ||
+        !["monitor", "admin", "owner"].includes(accessLevel)
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [ListHomeworkTemplatesTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          templates: [],
+          message: t(language, "template.listStaffOnly"),
+        };
+      }
+
+      const conditions = [];
+      if (groupId) {
+        conditions.push(eq(homeworkTemplates.groupId, groupId));
+      }
+      if (accessLevel === "monitor") {
+        conditions.push(
+          inArray(
+            homeworkTemplates.groupId,
+            await getStudentGroupIds(db, user[0]),
+          ),
+        );
+      }
+
+      const rows = await db
+        .select({ template: homeworkTemplates, groupName: groups.groupName })
+        .from(homeworkTemplates)
+        .leftJoin(groups, eq(homeworkTemplates.groupId, groups.id))
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(asc(groups.groupName), asc(homeworkTemplates.title));
+
+      await client.end();
+
+      const templates = rows.map(({ template, groupName }) => ({
+        id: template.id,
+        title: template.title,
+        subject: template.subject,
+        groupName: groupName || t(language, "common.unknownGroup"),
+        schedule: describeRecurrence(template, language),
+        paused: !!template.pausedAt,
+        generatedUntil: template.generatedUntil,
+      }));
+
+      logger?.info(
+        "✅ [ListHomeworkTemplatesTool] Templates found:",
+        templates.length,
+      );
+
+      return {
+        success: true,
+        templates,
+        message:
+          templates.length > 0
+            ? t(language, "template.count", { count: templates.length })
+            : t(language, "template.none"),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [ListHomeworkTemplatesTool] Error listing templates:",
+        error,
+      );
+      return {
+        success: false,
+        templates: [],
+        message: t(language, "template.listError"),
+      };
+    }
+  },
+});
+
+// Tool for pausing and resuming a template
+export const setHomeworkTemplatePausedTool = createTool({
+  id: "set-homework-template-paused-tool",
+  description:
+    "Pause a recurring homework template (no new homework is created, e.g. during holidays) or resume it (only for monitors, admins, and owners)",
+  inputSchema: z.object({
+    templateId: z.number().describe("Template ID"),
+    paused: z.boolean().describe("true to pause, false to resume"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { templateId, paused },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [SetHomeworkTemplatePausedTool] Starting pause change with params:",
+      {
+        telegramUserId,
+        templateId,
+        paused,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [SetHomeworkTemplatePausedTool] Database connection string not found",
+        );
+        return { success: false, message: t(language, "common.dbError") };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const loaded = await loadManagedTemplate(
+        db,
+        telegramUserId,
+        templateId,
+        language,
+      );
+      if ("error" in loaded) {
+        await client.end();
+        logger?.info(
+          "❌ [SetHomeworkTemplatePausedTool] Template not manageable:",
+          loaded.error,
+        );
+        return { success: false, message: loaded.error };
+      }
+
+      await db
+        .update(homeworkTemplates)
+        .set({ pausedAt: paused ? new Date() : null })
+        .where(eq(homeworkTemplates.id, templateId));
+
+      await writeAuditLog(db, {
+        actorId: loaded.userId,
+        actorTelegramId: telegramUserId,
+        action: paused ? "template.pause" : "template.resume",
+        targetType: "homework_template",
+        targetId: templateId,
+        groupId: loaded.template.groupId,
+      });
+
+      // Resuming doesn't backfill the paused period: generation starts from today
+      const createdHomework = paused
+        ? 0
+        : await generateFromTemplate(db, templateId);
+
+      await client.end();
+
+      logger?.info(
+        "✅ [SetHomeworkTemplatePausedTool] Template pause changed:",
+        { templateId, paused },
+      );
+
+      return {
+        success: true,
+        message: paused
+          ? t(language, "template.paused", { title: loaded.template.title })
+          : t(language, "template.resumed", {
+              title: loaded.template.title,
+              count: createdHomework,
+            }),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [SetHomeworkTemplatePausedTool] Error changing pause state:",
+        error,
+      );
+      return { success: false, message: t(language, "template.updateError") };
+    }
+  },
+});
+
+// Tool for deleting a template
+export const deleteHomeworkTemplateTool = createTool({
+  id: "delete-homework-template-tool",
+  description:
+    "Delete a recurring homework template. Homework already created from it stays unless removeUpcoming is set, which moves its not-yet-due homework to the trash (only for monitors, admins, and owners)",
+  inputSchema: z.object({
+    templateId: z.number().describe("Template ID"),
+    removeUpcoming: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Also move not-yet-due homework created from the template to the trash",
+      ),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { templateId, removeUpcoming },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [DeleteHomeworkTemplateTool] Starting template deletion with params:",
+      {
+        telegramUserId,
+        templateId,
+        removeUpcoming,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [DeleteHomeworkTemplateTool] Database connection string not found",
+        );
+        return { success: false, message: t(language, "common.dbError") };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const loaded = await loadManagedTemplate(
+        db,
+        telegramUserId,
+        templateId,
+        language,
+      );
+      if ("error" in loaded) {
+        await client.end();
+        logger?.info(
+          "❌ [DeleteHomeworkTemplateTool] Template not manageable:",
+          loaded.error,
+        );
+        return { success: false, message: loaded.error };
+      }
+
+      const removed = await db.transaction(async (tx) => {
+        const upcoming = removeUpcoming
+          ? await tx
+              .update(homework)
+              .set({ deletedAt: new Date(), deletedBy: loaded.userId })
+              .where(
+                and(
+                  eq(homework.templateId, templateId),
+                  isNull(homework.deletedAt),
+                  gt(homework.dueDate, new Date()),
+                ),
+              )
+              .returning({ id: homework.id })
+          : [];
+
+        await tx
+          .delete(homeworkTemplates)
+          .where(eq(homeworkTemplates.id, templateId));
+
+        await writeAuditLog(tx, {
+          actorId: loaded.userId,
+          actorTelegramId: telegramUserId,
+          action: "template.delete",
+          targetType: "homework_template",
+          targetId: templateId,
+          groupId: loaded.template.groupId,
+          before: loaded.template,
+          after: { trashedHomeworkIds: upcoming.map((row) => row.id) },
+        });
+
+        return upcoming.length;
+      });
+
+      await client.end();
+
+      logger?.info("✅ [DeleteHomeworkTemplateTool] Template deleted:", {
+        templateId,
+        removed,
+      });
+
+      return {
+        success: true,
+        message:
+          t(language, "template.deleted", { title: loaded.template.title }) +
+          (removeUpcoming
+            ? t(language, "template.upcomingRemoved", { count: removed })
+            : ""),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [DeleteHomeworkTemplateTool] Error deleting template:",
+        error,
+      );
+      return { success: false, message: t(language, "template.deleteError") };
+    }
+  },
+});
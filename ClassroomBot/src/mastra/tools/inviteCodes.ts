@@ -0,0 +1,192 @@
+import { createTool } from "@mastra/core/tools";
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { randomBytes } from "node:crypto";
+import { students, roster, inviteCodes } from "../../../shared/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { callTelegramApi } from "./telegramMessaging";
+import { writeAuditLog } from "../utils/auditLog";
+import { t, languageOf } from "../i18n";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+const DEFAULT_INVITE_VALID_HOURS = 72;
+
+// Deep-link payloads may only contain A-Z, a-z, 0-9, _ and - (up to 64 chars)
+function generateInviteCode(): string {
+  return randomBytes(12).toString("base64url");
+}
+
+async function getBotUsername(logger?: IMastraLogger): Promise<string | null> {
+  if (process.env.TELEGRAM_BOT_USERNAME) {
+    return process.env.TELEGRAM_BOT_USERNAME.replace(/^@/, "");
+  }
+  const response = await callTelegramApi("getMe", {}, logger);
+  return response.ok ? response.result?.username || null : null;
+}
+
+// Tool for issuing a registration link for a roster entry
+export const createInviteCodeTool = createTool({
+  id: "create-invite-code-tool",
+  description:
+    "Generate a single-use, expiring registration link (t.me/<bot>?start=<code>) for a roster entry; earlier unused links for that student stop working (only for admins and owners)",
+  inputSchema: z.object({
+    studentId: z.string().describe("Student ID of the roster entry"),
+    validHours: z
+      .number()
+      .int()
+      .min(1)
+      .max(24 * 30)
+      .default(DEFAULT_INVITE_VALID_HOURS)
+      .describe("How long the link stays valid, in hours"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    code: z.string().nullable(),
+    link: z.string().nullable(),
+    expiresAt: z.string().nullable(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { studentId, validHours },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const adminTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [CreateInviteCodeTool] Starting invite creation with params:",
+      {
+        adminTelegramId,
+        studentId,
+        validHours,
+      },
+    );
+
+    const empty = { code: null, link: null, expiresAt: null };
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [CreateInviteCodeTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const admin = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(adminTelegramId))
+        .limit(1);
+
+      const adminLevel = admin[0]?.accessLevel || "student";
+      if (admin.length === 0 || !["admin", "owner"].includes(adminLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [CreateInviteCodeTool] User lacks permission:",
+          adminLevel,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "invite.adminOnly"),
+        };
+      }
+
+      const normalizedId = studentId.toUpperCase();
+      const rosterEntry = await db
+        .select({ id: roster.id, groupId: roster.groupId })
+        .from(roster)
+        .where(eq(roster.studentId, normalizedId))
+        .limit(1);
+
+      if (rosterEntry.length === 0) {
+        await client.end();
+        logger?.info(
+          "❌ [CreateInviteCodeTool] Roster entry not found:",
+          normalizedId,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "invite.notInRoster", {
+            studentId: normalizedId,
+          }),
+        };
+      }
+
+      const now = new Date();
+      const expiresAt = new Date(
+        now.getTime() +
+          (validHours || DEFAULT_INVITE_VALID_HOURS) * 60 * 60 * 1000,
+      );
+      const code = generateInviteCode();
+
+      await db.transaction(async (tx) => {
+        // Only the newest link for a student stays valid
+        await tx
+          .update(inviteCodes)
+          .set({ expiresAt: now })
+          .where(
+            and(
+              eq(inviteCodes.rosterId, rosterEntry[0].id),
+              isNull(inviteCodes.usedAt),
+            ),
+          );
+
+        await tx.insert(inviteCodes).values({
+          code,
+          rosterId: rosterEntry[0].id,
+          createdBy: admin[0].id,
+          expiresAt,
+        });
+
+        // The code itself is a credential, so it is not stored in the log
+        await writeAuditLog(tx, {
+          actorId: admin[0].id,
+          actorTelegramId: adminTelegramId,
+          action: "invite.create",
+          targetType: "roster",
+          targetId: normalizedId,
+          groupId: rosterEntry[0].groupId,
+          after: { expiresAt: expiresAt.toISOString() },
+        });
+      });
+
+      await client.end();
+
+      const botUsername = await getBotUsername(logger);
+      const link = botUsername
+        ? `https://t.me/${botUsername}?start=${code}`
+        : null;
+
+      logger?.info(
+        "✅ [CreateInviteCodeTool] Invite created for:",
+        normalizedId,
+      );
+
+      return {
+        success: true,
+        code,
+        link,
+        expiresAt: expiresAt.toISOString(),
+        message: link
+          ? t(language, "invite.link", { studentId: normalizedId, link })
+          : t(language, "invite.code", { studentId: normalizedId, code }),
+      };
+    } catch (error) {
+      logger?.error("❌ [CreateInviteCodeTool] Error creating invite:", error);
+      return { success: false, ...empty, message: t(language, "invite.error") };
+    }
+  },
+});
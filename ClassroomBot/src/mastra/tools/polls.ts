@@ -0,0 +1,570 @@
+import { createTool } from "@mastra/core/tools";
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import { drizzle, type PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import {
+  students,
+  groups,
+  polls,
+  pollMessages,
+  pollVotes,
+} from "../../../shared/schema";
+import { eq, and, desc, count } from "drizzle-orm";
+import { getStudentGroupIds, isGroupMember } from "../utils/groupMembership";
+import { writeAuditLog } from "../utils/auditLog";
+import { callTelegramApi } from "./telegramMessaging";
+import { t, languageOf, type Language } from "../i18n";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+const tallySchema = z.object({
+  pollId: z.number(),
+  question: z.string(),
+  closed: z.boolean(),
+  recipients: z.number(),
+  voters: z.number(),
+  options: z.array(
+    z.object({
+      text: z.string(),
+      votes: z.number(),
+    }),
+  ),
+});
+
+type PollTally = z.infer<typeof tallySchema>;
+
+async function getPollTally(
+  db: PostgresJsDatabase,
+  poll: typeof polls.$inferSelect,
+): Promise<PollTally> {
+  const votes = await db
+    .select({ optionIds: pollVotes.optionIds })
+    .from(pollVotes)
+    .where(eq(pollVotes.pollId, poll.id));
+
+  const [{ value: recipients }] = await db
+    .select({ value: count() })
+    .from(pollMessages)
+    .where(eq(pollMessages.pollId, poll.id));
+
+  return {
+    pollId: poll.id,
+    question: poll.question,
+    closed: !!poll.closedAt,
+    recipients,
+    voters: votes.length,
+    options: poll.options.map((text, index) => ({
+      text,
+      votes: votes.filter((vote) => vote.optionIds.includes(index)).length,
+    })),
+  };
+}
+
+function formatTally(tally: PollTally, language: Language): string {
+  return t(language, "poll.tally", {
+    question: tally.question,
+    closed: tally.closed ? t(language, "poll.closedMark") : "",
+    voters: tally.voters,
+    recipients: tally.recipients,
+    options: tally.options
+      .map((option) => `${option.text} — ${option.votes}`)
+      .join("; "),
+  });
+}
+
+// Finds the poll and checks that the user created it or is an admin
+async function loadOwnPoll(
+  db: PostgresJsDatabase,
+  telegramUserId: number,
+  pollId: number | undefined,
+  language: Language,
+): Promise<
+  { userId: number; poll: typeof polls.$inferSelect } | { error: string }
+> {
+  const user = await db
+    .select({ id: students.id, accessLevel: students.accessLevel })
+    .from(students)
+    .where(isActiveUser(telegramUserId))
+    .limit(1);
+
+  if (user.length === 0) {
+    return { error: t(language, "common.userNotFound") };
+  }
+
+  const isAdmin = ["admin", "owner"].includes(user[0].accessLevel || "student");
+  const poll = await db
+    .select()
+    .from(polls)
+    .where(pollId ? eq(polls.id, pollId) : eq(polls.createdBy, user[0].id))
+    .orderBy(desc(polls.createdAt))
+    .limit(1);
+
+  if (poll.length === 0 || (!isAdmin && poll[0].createdBy !== user[0].id)) {
+    return { error: t(language, "poll.notFound") };
+  }
+
+  return { userId: user[0].id, poll: poll[0] };
+}
+
+// Records a poll_answer update from the webhook. An empty option list means the vote was retracted.
+export async function recordPollAnswer(
+  answer: {
+    telegramPollId: string;
+    telegramUserId: number;
+    optionIds: number[];
+  },
+  logger?: IMastraLogger,
+): Promise<void> {
+  logger?.info("🔧 [PollAnswer] Recording answer:", answer);
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    logger?.error("❌ [PollAnswer] Database connection string not found");
+    return;
+  }
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+
+  try {
+    const message = await db
+      .select({
+        pollId: pollMessages.pollId,
+        studentId: pollMessages.studentId,
+        recipientTelegramId: students.telegramUserId,
+        closedAt: polls.closedAt,
+      })
+      .from(pollMessages)
+      .innerJoin(polls, eq(pollMessages.pollId, polls.id))
+      .innerJoin(students, eq(pollMessages.studentId, students.id))
+      .where(eq(pollMessages.telegramPollId, answer.telegramPollId))
+      .limit(1);
+
+    if (message.length === 0 || message[0].closedAt) {
+      logger?.info(
+        "📝 [PollAnswer] Unknown or closed poll:",
+        answer.telegramPollId,
+      );
+      return;
+    }
+
+    // A forwarded poll keeps its poll_id, so only the student it was sent to may vote with it
+    if (message[0].recipientTelegramId !== answer.telegramUserId) {
+      logger?.info(
+        "📝 [PollAnswer] Vote from someone other than the recipient:",
+        {
+          telegramPollId: answer.telegramPollId,
+          telegramUserId: answer.telegramUserId,
+        },
+      );
+      return;
+    }
+
+    const { pollId, studentId } = message[0];
+    if (answer.optionIds.length === 0) {
+      await db
+        .delete(pollVotes)
+        .where(
+          and(eq(pollVotes.pollId, pollId), eq(pollVotes.studentId, studentId)),
+        );
+    } else {
+      await db
+        .insert(pollVotes)
+        .values({ pollId, studentId, optionIds: answer.optionIds })
+        .onConflictDoUpdate({
+          target: [pollVotes.pollId, pollVotes.studentId],
+          set: { optionIds: answer.optionIds, updatedAt: new Date() },
+        });
+    }
+
+    logger?.info("✅ [PollAnswer] Answer recorded:", { pollId, studentId });
+  } finally {
+    await client.end();
+  }
+}
+
+// Tool for starting a poll in a group
+export const createPollTool = createTool({
+  id: "create-poll-tool",
+  description:
+    'Send a native Telegram poll (e.g. "which day for the retake?") to every active student of a group and collect the votes (only for monitors, admins, and owners; monitors only in their own groups)',
+  inputSchema: z.object({
+    groupId: z.number().describe("Group ID"),
+    question: z.string().min(1).max(300).describe("Poll question"),
+    options: z
+      .array(z.string().min(1).max(100))
+      .min(2)
+      .max(10)
+      .describe("Answer options (2-10)"),
+    allowsMultipleAnswers: z
+      .boolean()
+      .default(false)
+      .describe("Whether students can pick several options"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    pollId: z.number().nullable(),
+    sent: z.number(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { groupId, question, options, allowsMultipleAnswers },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const creatorTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [CreatePollTool] Starting poll creation with params:", {
+      creatorTelegramId,
+      groupId,
+      question,
+      options,
+    });
+
+    const empty = { pollId: null, sent: 0 };
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [CreatePollTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const creator = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(creatorTelegramId))
+        .limit(1);
+
+      const accessLevel = creator[0]?.accessLevel || "student";
+      if (
+        creator.length === 0 ||
+        !["monitor", "admin", "owner"].includes(accessLevel)
+      ) {
+        await client.end();
+        logger?.info("❌ [CreatePollTool] User lacks permission:", accessLevel);
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "poll.staffOnly"),
+        };
+      }
+
+      if (
+        accessLevel === "monitor" &&
+        !(await getStudentGroupIds(db, creator[0])).includes(groupId)
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [CreatePollTool] Monitor targeted another group:",
+          groupId,
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "poll.ownGroupsOnly"),
+        };
+      }
+
+      const group = await db
+        .select({ groupName: groups.groupName })
+        .from(groups)
+        .where(eq(groups.id, groupId))
+        .limit(1);
+
+      if (group.length === 0) {
+        await client.end();
+        logger?.info("❌ [CreatePollTool] Group not found:", groupId);
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.groupNotFound"),
+        };
+      }
+
+      const recipients = await db
+        .select({ id: students.id, telegramUserId: students.telegramUserId })
+        .from(students)
+        .where(and(eq(students.isActive, true), isGroupMember(groupId)));
+
+      const created = await db
+        .insert(polls)
+        .values({
+          groupId,
+          question,
+          options,
+          allowsMultipleAnswers,
+          createdBy: creator[0].id,
+        })
+        .returning();
+
+      await writeAuditLog(db, {
+        actorId: creator[0].id,
+        actorTelegramId: creatorTelegramId,
+        action: "poll.create",
+        targetType: "poll",
+        targetId: created[0].id,
+        groupId,
+        after: created[0],
+      });
+
+      // Votes are only reported for non-anonymous polls
+      let sent = 0;
+      for (const recipient of recipients) {
+        const response = await callTelegramApi(
+          "sendPoll",
+          {
+            chat_id: recipient.telegramUserId,
+            question,
+            options: options.map((text: string) => ({ text })),
+            is_anonymous: false,
+            allows_multiple_answers: allowsMultipleAnswers,
+          },
+          logger,
+        );
+
+        if (!response.ok || !response.result?.poll?.id) {
+          continue;
+        }
+
+        await db.insert(pollMessages).values({
+          pollId: created[0].id,
+          studentId: recipient.id,
+          telegramPollId: response.result.poll.id,
+          chatId: recipient.telegramUserId,
+          messageId: response.result.message_id,
+        });
+        sent++;
+      }
+
+      await client.end();
+
+      logger?.info("✅ [CreatePollTool] Poll sent:", {
+        pollId: created[0].id,
+        sent,
+        recipients: recipients.length,
+      });
+
+      return {
+        success: true,
+        pollId: created[0].id,
+        sent,
+        message: t(language, "poll.sent", {
+          id: created[0].id,
+          sent,
+          total: recipients.length,
+          groupName: group[0].groupName,
+        }),
+      };
+    } catch (error) {
+      logger?.error("❌ [CreatePollTool] Error creating poll:", error);
+      return {
+        success: false,
+        ...empty,
+        message: t(language, "poll.createError"),
+      };
+    }
+  },
+});
+
+// Tool for viewing live results
+export const pollResultsTool = createTool({
+  id: "poll-results-tool",
+  description:
+    "Show current results of a poll: votes per option and how many students voted (for the poll creator and admins)",
+  inputSchema: z.object({
+    pollId: z
+      .number()
+      .optional()
+      .describe("Poll ID (defaults to the requester's latest poll)"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    tally: tallySchema.nullable(),
+    message: z.string(),
+  }),
+  execute: async ({ context: { pollId }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [PollResultsTool] Starting results view with params:", {
+      telegramUserId,
+      pollId,
+    });
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [PollResultsTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          tally: null,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const loaded = await loadOwnPoll(db, telegramUserId, pollId, language);
+      if ("error" in loaded) {
+        await client.end();
+        logger?.info("❌ [PollResultsTool] Poll not accessible:", loaded.error);
+        return { success: false, tally: null, message: loaded.error };
+      }
+
+      const tally = await getPollTally(db, loaded.poll);
+
+      await client.end();
+
+      logger?.info("✅ [PollResultsTool] Results built:", {
+        pollId: tally.pollId,
+        voters: tally.voters,
+      });
+
+      return { success: true, tally, message: formatTally(tally, language) };
+    } catch (error) {
+      logger?.error("❌ [PollResultsTool] Error building results:", error);
+      return {
+        success: false,
+        tally: null,
+        message: t(language, "poll.resultsError"),
+      };
+    }
+  },
+});
+
+// Tool for closing a poll
+export const closePollTool = createTool({
+  id: "close-poll-tool",
+  description:
+    "Close a poll: stops voting in every student's chat and returns the final results (for the poll creator and admins)",
+  inputSchema: z.object({
+    pollId: z
+      .number()
+      .optional()
+      .describe("Poll ID (defaults to the requester's latest poll)"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    tally: tallySchema.nullable(),
+    message: z.string(),
+  }),
+  execute: async ({ context: { pollId }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [ClosePollTool] Starting poll close with params:", {
+      telegramUserId,
+      pollId,
+    });
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [ClosePollTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          tally: null,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const loaded = await loadOwnPoll(db, telegramUserId, pollId, language);
+      if ("error" in loaded) {
+        await client.end();
+        logger?.info("❌ [ClosePollTool] Poll not accessible:", loaded.error);
+        return { success: false, tally: null, message: loaded.error };
+      }
+
+      if (loaded.poll.closedAt) {
+        const tally = await getPollTally(db, loaded.poll);
+        await client.end();
+        return {
+          success: true,
+          tally,
+          message: t(language, "poll.alreadyClosed", {
+            tally: formatTally(tally, language),
+          }),
+        };
+      }
+
+      const closed = await db
+        .update(polls)
+        .set({ closedAt: new Date() })
+        .where(eq(polls.id, loaded.poll.id))
+        .returning();
+
+      await writeAuditLog(db, {
+        actorId: loaded.userId,
+        actorTelegramId: telegramUserId,
+        action: "poll.close",
+        targetType: "poll",
+        targetId: loaded.poll.id,
+        groupId: loaded.poll.groupId,
+      });
+
+      const messages = await db
+        .select({
+          chatId: pollMessages.chatId,
+          messageId: pollMessages.messageId,
+        })
+        .from(pollMessages)
+        .where(eq(pollMessages.pollId, loaded.poll.id));
+
+      const tally = await getPollTally(db, closed[0]);
+
+      await client.end();
+
+      // Votes arriving after this point are ignored, so a failed stopPoll doesn't affect the result
+      for (const message of messages) {
+        await callTelegramApi(
+          "stopPoll",
+          { chat_id: message.chatId, message_id: message.messageId },
+          logger,
+        );
+      }
+
+      logger?.info("✅ [ClosePollTool] Poll closed:", {
+        pollId: tally.pollId,
+        voters: tally.voters,
+      });
+
+      return {
+        success: true,
+        tally,
+        message: t(language, "poll.closed", {
+          tally: formatTally(tally, language),
+        }),
+      };
+    } catch (error) {
+      logger?.error("❌ [ClosePollTool] Error closing poll:", error);
+      return {
+        success: false,
+        tally: null,
+        message: t(language, "poll.closeError"),
+      };
+    }
+  },
+});
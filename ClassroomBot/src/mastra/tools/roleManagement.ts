@@ -0,0 +1,288 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { students, groups } from "../../../shared/schema";
+import { eq, and } from "drizzle-orm";
+import { sendTelegramMessage, escapeHtml } from "./telegramMessaging";
+import { getStudentGroupIds } from "../utils/groupMembership";
+import { writeAuditLog } from "../utils/auditLog";
+import { studentLanguage } from "../utils/userLanguage";
+import { t, languageOf, type MessageKey } from "../i18n";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+const ACCESS_LEVELS = ["student", "monitor", "admin", "owner"] as const;
+type AccessLevel = (typeof ACCESS_LEVELS)[number];
+
+export const ACCESS_LEVEL_LABELS: Record<AccessLevel, MessageKey> = {
+  student: "role.student",
+  monitor: "role.monitor",
+  admin: "role.admin",
+  owner: "role.owner",
+};
+
+// Tool for promoting and demoting users
+export const setAccessLevelTool = createTool({
+  id: "set-access-level-tool",
+  description:
+    "Change a registered user's role. Owners can set any role; admins can only grant or revoke monitor within their own groups. The last owner can't be demoted. The affected user is notified in Telegram",
+  inputSchema: z.object({
+    studentId: z
+      .string()
+      .describe("Student ID of the user whose role changes, e.g. ST001"),
+    accessLevel: z.enum(ACCESS_LEVELS).describe("New role"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    notified: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { studentId, accessLevel },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const actorTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [SetAccessLevelTool] Starting role change with params:", {
+      actorTelegramId,
+      studentId,
+      accessLevel,
+    });
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [SetAccessLevelTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          notified: false,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const actor = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(actorTelegramId))
+        .limit(1);
+
+      if (actor.length === 0) {
+        await client.end();
+        logger?.info("❌ [SetAccessLevelTool] Actor not found in database");
+        return {
+          success: false,
+          notified: false,
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const actorData = actor[0];
+      const actorLevel = (actorData.accessLevel || "student") as AccessLevel;
+      if (!["admin", "owner"].includes(actorLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [SetAccessLevelTool] User lacks permission:",
+          actorLevel,
+        );
+        return {
+          success: false,
+          notified: false,
+          message: t(language, "role.noPermission"),
+        };
+      }
+
+      const target = await db
+        .select({
+          id: students.id,
+          telegramUserId: students.telegramUserId,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+          firstName: students.firstName,
+          lastName: students.lastName,
+          studentId: students.studentId,
+          language: students.language,
+          telegramLanguageCode: students.telegramLanguageCode,
+        })
+        .from(students)
+        .where(eq(students.studentId, studentId.toUpperCase()))
+        .limit(1);
+
+      if (target.length === 0) {
+        await client.end();
+        logger?.info("❌ [SetAccessLevelTool] Target not found:", studentId);
+        return {
+          success: false,
+          notified: false,
+          message: t(language, "common.registeredStudentNotFound", {
+            studentId,
+          }),
+        };
+      }
+
+      const targetData = target[0];
+      const currentLevel = (targetData.accessLevel || "student") as AccessLevel;
+      const newLevel = accessLevel as AccessLevel;
+      const targetName = targetData.firstName
+        ? `${targetData.firstName} ${targetData.lastName || ""}`.trim()
+        : targetData.studentId;
+
+      if (currentLevel === newLevel) {
+        await client.end();
+        return {
+          success: true,
+          notified: false,
+          message: t(language, "role.alreadyHas", {
+            name: targetName,
+            role: t(language, ACCESS_LEVEL_LABELS[newLevel]),
+          }),
+        };
+      }
+
+      // Admins: only student <-> monitor, only in groups they belong to
+      if (actorLevel === "admin") {
+        const monitorChange =
+          ["student", "monitor"].includes(currentLevel) &&
+          ["student", "monitor"].includes(newLevel);
+        if (!monitorChange) {
+          await client.end();
+          logger?.info(
+            "❌ [SetAccessLevelTool] Admin attempted non-monitor change:",
+            { currentLevel, newLevel },
+          );
+          return {
+            success: false,
+            notified: false,
+            message: t(language, "role.adminLimits"),
+          };
+        }
+        const actorGroupIds = await getStudentGroupIds(db, actorData);
+        const targetGroupIds = await getStudentGroupIds(db, targetData);
+        if (!targetGroupIds.some((id) => actorGroupIds.includes(id))) {
+          await client.end();
+          logger?.info(
+            "❌ [SetAccessLevelTool] Admin attempted change outside their groups",
+          );
+          return {
+            success: false,
+            notified: false,
+            message: t(language, "role.ownGroupsOnly"),
+          };
+        }
+      }
+
+      // Never leave the class without an owner. The owner rows stay locked until the role
+      // changes, so two owners demoting each other at once can't both pass the check.
+      const changed = await db.transaction(async (tx) => {
+        if (currentLevel === "owner") {
+          const owners = await tx
+            .select({ id: students.id })
+            .from(students)
+            .where(
+              and(
+                eq(students.accessLevel, "owner"),
+                eq(students.isActive, true),
+              ),
+            )
+            .for("update");
+          if (owners.length <= 1) {
+            return false;
+          }
+        }
+
+        await tx
+          .update(students)
+          .set({ accessLevel: newLevel, updatedAt: new Date() })
+          .where(eq(students.id, targetData.id));
+
+        await writeAuditLog(tx, {
+          actorId: actorData.id,
+          actorTelegramId,
+          action: "role.change",
+          targetType: "student",
+          targetId: targetData.studentId,
+          groupId: targetData.groupId,
+          before: { accessLevel: currentLevel },
+          after: { accessLevel: newLevel },
+        });
+        return true;
+      });
+
+      if (!changed) {
+        await client.end();
+        logger?.info(
+          "❌ [SetAccessLevelTool] Attempt to demote the last owner",
+        );
+        return {
+          success: false,
+          notified: false,
+          message: t(language, "role.lastOwner"),
+        };
+      }
+
+      const groupResult = targetData.groupId
+        ? await db
+            .select({ groupName: groups.groupName })
+            .from(groups)
+            .where(eq(groups.id, targetData.groupId))
+            .limit(1)
+        : [];
+
+      await client.end();
+
+      logger?.info("✅ [SetAccessLevelTool] Role changed:", {
+        studentId: targetData.studentId,
+        currentLevel,
+        newLevel,
+      });
+
+      // The notice goes out in the target's language, the reply in the actor's
+      const targetLanguage = studentLanguage(targetData);
+      const notification = await sendTelegramMessage(
+        targetData.telegramUserId,
+        t(targetLanguage, "role.changedNotice", {
+          from: t(targetLanguage, ACCESS_LEVEL_LABELS[currentLevel]),
+          to: t(targetLanguage, ACCESS_LEVEL_LABELS[newLevel]),
+          group: groupResult[0]
+            ? t(targetLanguage, "role.groupSuffix", {
+                groupName: escapeHtml(groupResult[0].groupName),
+              })
+            : "",
+        }),
+        { logger },
+      );
+
+      return {
+        success: true,
+        notified: notification.success,
+        message:
+          t(language, "role.changed", {
+            name: targetName,
+            from: t(language, ACCESS_LEVEL_LABELS[currentLevel]),
+            to: t(language, ACCESS_LEVEL_LABELS[newLevel]),
+          }) +
+          t(
+            language,
+            notification.success ? "role.notified" : "role.notNotified",
+          ),
+      };
+    } catch (error) {
+      logger?.error("❌ [SetAccessLevelTool] Error changing role:", error);
+      return {
+        success: false,
+        notified: false,
+        message: t(language, "role.error"),
+      };
+    }
+  },
+});
@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  canGrantRosterLevel,
+  filterGrantableEntries,
+} from "./rosterManagement";
+
+describe("canGrantRosterLevel", () => {
+  it("lets an owner put any level on a roster entry", () => {
+    for (const level of ["student", "monitor", "admin", "owner"] as const) {
+      assert.equal(canGrantRosterLevel("owner", level), true);
+    }
+  });
+
+  it("lets an admin grant only student and monitor", () => {
+    assert.equal(canGrantRosterLevel("admin", "student"), true);
+    assert.equal(canGrantRosterLevel("admin", "monitor"), true);
+    assert.equal(canGrantRosterLevel("admin", "admin"), false);
+    assert.equal(canGrantRosterLevel("admin", "owner"), false);
+  });
+});
+
+describe("filterGrantableEntries", () => {
+  const entry = (studentId: string, accessLevel: "student" | "admin") => ({
+    studentId,
+    firstName: null,
+    lastName: null,
+    accessLevel,
+  });
+
+  it("drops admin rows imported by an admin and reports each of them", () => {
+    const { allowed, errors } = filterGrantableEntries(
+      [entry("ST001", "student"), entry("ST002", "admin")],
+      "admin",
+      "en",
+    );
+
+    assert.deepEqual(
+      allowed.map((row) => row.studentId),
+      ["ST001"],
+    );
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /ST002/);
+  });
+
+  it("keeps admin rows imported by an owner", () => {
+    const { allowed, errors } = filterGrantableEntries(
+      [entry("ST001", "student"), entry("ST002", "admin")],
+      "owner",
+      "en",
+    );
+
+    assert.equal(allowed.length, 2);
+    assert.deepEqual(errors, []);
+  });
+});
@@ -0,0 +1,943 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { students, groups, roster } from "../../../shared/schema";
+import { eq, and, asc, sql, inArray } from "drizzle-orm";
+import { writeAuditLog } from "../utils/auditLog";
+import { t, languageOf, type Language } from "../i18n";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+const ACCESS_LEVELS = ["student", "monitor", "admin", "owner"] as const;
+type AccessLevel = (typeof ACCESS_LEVELS)[number];
+
+type RosterCsvEntry = {
+  studentId: string;
+  firstName: string | null;
+  lastName: string | null;
+  accessLevel: AccessLevel;
+};
+
+// Admin and owner rights come only from an owner, and that holds for the roster too: the level of a
+// roster entry is granted on registration, so an admin could otherwise invite a new admin
+export function canGrantRosterLevel(
+  actorLevel: string,
+  accessLevel: AccessLevel,
+): boolean {
+  return (
+    actorLevel === "owner" ||
+    (accessLevel !== "admin" && accessLevel !== "owner")
+  );
+}
+
+// Splits imported rows into those the actor may write and an error line for each of the rest
+export function filterGrantableEntries(
+  entries: RosterCsvEntry[],
+  actorLevel: string,
+  language: Language,
+): { allowed: RosterCsvEntry[]; errors: string[] } {
+  const allowed: RosterCsvEntry[] = [];
+  const errors: string[] = [];
+  for (const entry of entries) {
+    if (canGrantRosterLevel(actorLevel, entry.accessLevel)) {
+      allowed.push(entry);
+    } else {
+      errors.push(
+        t(language, "roster.csvStaffLevel", { studentId: entry.studentId }),
+      );
+    }
+  }
+  return { allowed, errors };
+}
+
+// Parses "student_id,first_name,last_name[,access_level]" lines; "," or ";" separated, optional header row
+function parseRosterCsv(
+  csv: string,
+  language: Language,
+): {
+  entries: RosterCsvEntry[];
+  errors: string[];
+} {
+  const entries: RosterCsvEntry[] = [];
+  const errors: string[] = [];
+  // Line each student ID was first seen on; a repeat would hit the same row twice in one upsert
+  const seen = new Map<string, number>();
+
+  const lines = csv
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  lines.forEach((line, index) => {
+    const cells = line
+      .split(/[;,]/)
+      .map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+    if (index === 0 && /student/i.test(cells[0])) {
+      return;
+    }
+
+    const [studentId, firstName, lastName, accessLevel] = cells;
+    if (!studentId) {
+      errors.push(t(language, "roster.csvNoId", { line: index + 1 }));
+      return;
+    }
+
+    const level = (accessLevel || "student").toLowerCase();
+    if (!ACCESS_LEVELS.includes(level as AccessLevel)) {
+      errors.push(
+        t(language, "roster.csvBadLevel", {
+          line: index + 1,
+          level: accessLevel,
+        }),
+      );
+      return;
+    }
+
+    const normalizedId = studentId.toUpperCase();
+    const firstLine = seen.get(normalizedId);
+    if (firstLine !== undefined) {
+      errors.push(
+        t(language, "roster.csvDuplicate", {
+          line: index + 1,
+          studentId: normalizedId,
+          firstLine,
+        }),
+      );
+      return;
+    }
+    seen.set(normalizedId, index + 1);
+
+    entries.push({
+      studentId: normalizedId,
+      firstName: firstName || null,
+      lastName: lastName || null,
+      accessLevel: level as AccessLevel,
+    });
+  });
+
+  return { entries, errors };
+}
+
+// Tool for adding a single roster entry
+export const addRosterEntryTool = createTool({
+  id: "add-roster-entry-tool",
+  description:
+    "Add a student to the class roster so they can register (only for admins and owners)",
+  inputSchema: z.object({
+    studentId: z.string().describe("Student ID, e.g. ST001"),
+    firstName: z.string().optional().describe("First name"),
+    lastName: z.string().optional().describe("Last name"),
+    groupId: z.number().describe("Group ID"),
+    accessLevel: z
+      .enum(ACCESS_LEVELS)
+      .default("student")
+      .describe("Access level granted on registration"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { studentId, firstName, lastName, groupId, accessLevel },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const adminTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [AddRosterEntryTool] Starting roster add with params:", {
+      adminTelegramId,
+      studentId,
+      groupId,
+      accessLevel,
+    });
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [AddRosterEntryTool] Database connection string not found",
+        );
+        return { success: false, message: t(language, "common.dbError") };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const admin = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(adminTelegramId))
+        .limit(1);
+
+      const adminLevel = admin[0]?.accessLevel || "student";
+      if (admin.length === 0 || !["admin", "owner"].includes(adminLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [AddRosterEntryTool] User lacks permission:",
+          adminLevel,
+        );
+        return { success: false, message: t(language, "roster.adminOnly") };
+      }
+
+      if (!canGrantRosterLevel(adminLevel, accessLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [AddRosterEntryTool] Admin tried to grant a staff level:",
+          accessLevel,
+        );
+        return { success: false, message: t(language, "roster.staffLevel") };
+      }
+
+      const groupResult = await db
+        .select({ groupName: groups.groupName, archivedAt: groups.archivedAt })
+        .from(groups)
+        .where(eq(groups.id, groupId))
+        .limit(1);
+
+      if (groupResult.length === 0) {
+        await client.end();
+        logger?.info("❌ [AddRosterEntryTool] Group not found:", groupId);
+        return { success: false, message: t(language, "common.groupNotFound") };
+      }
+
+      if (groupResult[0].archivedAt) {
+        await client.end();
+        logger?.info("❌ [AddRosterEntryTool] Group is archived:", groupId);
+        return {
+          success: false,
+          message: t(language, "group.inArchive", {
+            groupName: groupResult[0].groupName,
+          }),
+        };
+      }
+
+      const normalizedId = studentId.toUpperCase();
+      const existing = await db
+        .select({ id: roster.id })
+        .from(roster)
+        .where(eq(roster.studentId, normalizedId))
+        .limit(1);
+
+      if (existing.length > 0) {
+        await client.end();
+        logger?.info(
+          "❌ [AddRosterEntryTool] Student ID already on roster:",
+          normalizedId,
+        );
+        return {
+          success: false,
+          message: t(language, "roster.exists", { studentId: normalizedId }),
+        };
+      }
+
+      const created = await db
+        .insert(roster)
+        .values({
+          studentId: normalizedId,
+          firstName: firstName || null,
+          lastName: lastName || null,
+          groupId,
+          accessLevel,
+        })
+        .returning();
+
+      await writeAuditLog(db, {
+        actorId: admin[0].id,
+        actorTelegramId: adminTelegramId,
+        action: "roster.add",
+        targetType: "roster",
+        targetId: normalizedId,
+        groupId,
+        after: created[0],
+      });
+
+      await client.end();
+
+      logger?.info("✅ [AddRosterEntryTool] Roster entry added:", normalizedId);
+
+      return {
+        success: true,
+        message: t(language, "roster.added", {
+          studentId: normalizedId,
+          groupName: groupResult[0].groupName,
+        }),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [AddRosterEntryTool] Error adding roster entry:",
+        error,
+      );
+      return { success: false, message: t(language, "roster.addError") };
+    }
+  },
+});
+
+// Tool for editing a roster entry
+export const updateRosterEntryTool = createTool({
+  id: "update-roster-entry-tool",
+  description:
+    "Edit name, group or initial access level of a roster entry; name and group changes also apply to an already registered student (only for admins and owners)",
+  inputSchema: z.object({
+    studentId: z.string().describe("Student ID of the roster entry"),
+    firstName: z.string().optional().describe("New first name"),
+    lastName: z.string().optional().describe("New last name"),
+    groupId: z.number().optional().describe("New group ID"),
+    accessLevel: z
+      .enum(ACCESS_LEVELS)
+      .optional()
+      .describe("New initial access level"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { studentId, firstName, lastName, groupId, accessLevel },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const adminTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [UpdateRosterEntryTool] Starting roster update with params:",
+      {
+        adminTelegramId,
+        studentId,
+        groupId,
+        accessLevel,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [UpdateRosterEntryTool] Database connection string not found",
+        );
+        return { success: false, message: t(language, "common.dbError") };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const admin = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(adminTelegramId))
+        .limit(1);
+
+      const adminLevel = admin[0]?.accessLevel || "student";
+      if (admin.length === 0 || !["admin", "owner"].includes(adminLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [UpdateRosterEntryTool] User lacks permission:",
+          adminLevel,
+        );
+        return { success: false, message: t(language, "roster.adminOnly") };
+      }
+
+      if (accessLevel && !canGrantRosterLevel(adminLevel, accessLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [UpdateRosterEntryTool] Admin tried to grant a staff level:",
+          accessLevel,
+        );
+        return { success: false, message: t(language, "roster.staffLevel") };
+      }
+
+      const normalizedId = studentId.toUpperCase();
+      const existing = await db
+        .select()
+        .from(roster)
+        .where(eq(roster.studentId, normalizedId))
+        .limit(1);
+
+      if (existing.length === 0) {
+        await client.end();
+        logger?.info(
+          "❌ [UpdateRosterEntryTool] Roster entry not found:",
+          normalizedId,
+        );
+        return {
+          success: false,
+          message: t(language, "roster.notFound", { studentId: normalizedId }),
+        };
+      }
+
+      if (groupId) {
+        const groupResult = await db
+          .select({
+            groupName: groups.groupName,
+            archivedAt: groups.archivedAt,
+          })
+          .from(groups)
+          .where(eq(groups.id, groupId))
+          .limit(1);
+
+        if (groupResult.length === 0) {
+          await client.end();
+          logger?.info("❌ [UpdateRosterEntryTool] Group not found:", groupId);
+          return {
+            success: false,
+            message: t(language, "common.groupNotFound"),
+          };
+        }
+
+        if (groupResult[0].archivedAt) {
+          await client.end();
+          logger?.info(
+            "❌ [UpdateRosterEntryTool] Group is archived:",
+            groupId,
+          );
+          return {
+            success: false,
+            message: t(language, "group.inArchive", {
+              groupName: groupResult[0].groupName,
+            }),
+          };
+        }
+      }
+
+      const now = new Date();
+      const profileChanges = {
+        ...(firstName !== undefined ? { firstName } : {}),
+        ...(lastName !== undefined ? { lastName } : {}),
+        ...(groupId !== undefined ? { groupId } : {}),
+      };
+
+      const updated = await db
+        .update(roster)
+        .set({
+          ...profileChanges,
+          ...(accessLevel !== undefined ? { accessLevel } : {}),
+          updatedAt: now,
+        })
+        .where(eq(roster.id, existing[0].id))
+        .returning();
+
+      // Keep the registered account in sync with the roster
+      if (Object.keys(profileChanges).length > 0) {
+        await db
+          .update(students)
+          .set({ ...profileChanges, updatedAt: now })
+          .where(eq(students.studentId, normalizedId));
+      }
+
+      await writeAuditLog(db, {
+        actorId: admin[0].id,
+        actorTelegramId: adminTelegramId,
+        action: "roster.update",
+        targetType: "roster",
+        targetId: normalizedId,
+        groupId: updated[0].groupId,
+        before: existing[0],
+        after: updated[0],
+      });
+
+      await client.end();
+
+      logger?.info(
+        "✅ [UpdateRosterEntryTool] Roster entry updated:",
+        normalizedId,
+      );
+
+      return {
+        success: true,
+        message: t(language, "roster.updated", { studentId: normalizedId }),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [UpdateRosterEntryTool] Error updating roster entry:",
+        error,
+      );
+      return { success: false, message: t(language, "roster.updateError") };
+    }
+  },
+});
+
+// Tool for removing a roster entry
+export const removeRosterEntryTool = createTool({
+  id: "remove-roster-entry-tool",
+  description:
+    "Remove a student from the class roster and deactivate their account if registered (only for admins and owners)",
+  inputSchema: z.object({
+    studentId: z.string().describe("Student ID of the roster entry to remove"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({ context: { studentId }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const adminTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [RemoveRosterEntryTool] Starting roster removal with params:",
+      {
+        adminTelegramId,
+        studentId,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [RemoveRosterEntryTool] Database connection string not found",
+        );
+        return { success: false, message: t(language, "common.dbError") };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const admin = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(adminTelegramId))
+        .limit(1);
+
+      const adminLevel = admin[0]?.accessLevel || "student";
+      if (admin.length === 0 || !["admin", "owner"].includes(adminLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [RemoveRosterEntryTool] User lacks permission:",
+          adminLevel,
+        );
+        return { success: false, message: t(language, "roster.adminOnly") };
+      }
+
+      const normalizedId = studentId.toUpperCase();
+
+      // Removing an entry deactivates the account, so the same rules as for demotion apply:
+      // only an owner touches admins and owners, and the last owner stays
+      const [entry] = await db
+        .select({ accessLevel: roster.accessLevel })
+        .from(roster)
+        .where(eq(roster.studentId, normalizedId))
+        .limit(1);
+      const [registered] = await db
+        .select({
+          accessLevel: students.accessLevel,
+          isActive: students.isActive,
+        })
+        .from(students)
+        .where(eq(students.studentId, normalizedId))
+        .limit(1);
+
+      const levels = [entry?.accessLevel, registered?.accessLevel];
+      if (
+        adminLevel !== "owner" &&
+        levels.some((level) => level === "admin" || level === "owner")
+      ) {
+        await client.end();
+        logger?.info(
+          "❌ [RemoveRosterEntryTool] Only an owner can remove staff:",
+          normalizedId,
+        );
+        return {
+          success: false,
+          message: t(language, "roster.staffOwnerOnly"),
+        };
+      }
+
+      // The owner rows stay locked until the entry is gone, so two owners removing each other
+      // at once can't both pass the last-owner check
+      const removal = await db.transaction(async (tx) => {
+        if (registered?.accessLevel === "owner" && registered.isActive) {
+          const owners = await tx
+            .select({ id: students.id })
+            .from(students)
+            .where(
+              and(
+                eq(students.accessLevel, "owner"),
+                eq(students.isActive, true),
+              ),
+            )
+            .for("update");
+          if (owners.length <= 1) {
+            return "lastOwner" as const;
+          }
+        }
+
+        const deleted = await tx
+          .delete(roster)
+          .where(eq(roster.studentId, normalizedId))
+          .returning();
+        if (deleted.length === 0) {
+          return "notFound" as const;
+        }
+
+        const deactivated = await tx
+          .update(students)
+          .set({ isActive: false, updatedAt: new Date() })
+          .where(eq(students.studentId, normalizedId))
+          .returning({ id: students.id });
+
+        await writeAuditLog(tx, {
+          actorId: admin[0].id,
+          actorTelegramId: adminTelegramId,
+          action: "roster.remove",
+          targetType: "roster",
+          targetId: normalizedId,
+          groupId: deleted[0].groupId,
+          before: deleted[0],
+          after: { studentDeactivated: deactivated.length > 0 },
+        });
+        return { deactivated: deactivated.length > 0 };
+      });
+
+      if (removal === "lastOwner") {
+        await client.end();
+        logger?.info(
+          "❌ [RemoveRosterEntryTool] Attempt to remove the last owner",
+        );
+        return { success: false, message: t(language, "roster.lastOwner") };
+      }
+
+      if (removal === "notFound") {
+        await client.end();
+        logger?.info(
+          "❌ [RemoveRosterEntryTool] Roster entry not found:",
+          normalizedId,
+        );
+        return {
+          success: false,
+          message: t(language, "roster.notFound", { studentId: normalizedId }),
+        };
+      }
+
+      await client.end();
+
+      logger?.info(
+        "✅ [RemoveRosterEntryTool] Roster entry removed:",
+        normalizedId,
+      );
+
+      return {
+        success: true,
+        message: removal.deactivated
+          ? t(language, "roster.removedDeactivated", {
+              studentId: normalizedId,
+            })
+          : t(language, "roster.removed", { studentId: normalizedId }),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [RemoveRosterEntryTool] Error removing roster entry:",
+        error,
+      );
+      return { success: false, message: t(language, "roster.removeError") };
+    }
+  },
+});
+
+// Tool for importing a whole class from CSV
+export const importRosterCsvTool = createTool({
+  id: "import-roster-csv-tool",
+  description:
+    "Import a whole class into the roster from CSV lines 'student_id,first_name,last_name[,access_level]'; existing IDs are updated (only for admins and owners)",
+  inputSchema: z.object({
+    groupId: z.number().describe("Group ID all imported students belong to"),
+    csv: z
+      .string()
+      .describe(
+        "CSV text, one student per line; comma or semicolon separated; header row optional",
+      ),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    imported: z.number(),
+    errors: z.array(z.string()),
+    message: z.string(),
+  }),
+  execute: async ({ context: { groupId, csv }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const adminTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [ImportRosterCsvTool] Starting roster import with params:",
+      {
+        adminTelegramId,
+        groupId,
+        length: csv.length,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [ImportRosterCsvTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          imported: 0,
+          errors: [],
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const admin = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(adminTelegramId))
+        .limit(1);
+
+      const adminLevel = admin[0]?.accessLevel || "student";
+      if (admin.length === 0 || !["admin", "owner"].includes(adminLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [ImportRosterCsvTool] User lacks permission:",
+          adminLevel,
+        );
+        return {
+          success: false,
+          imported: 0,
+          errors: [],
+          message: t(language, "roster.adminOnly"),
+        };
+      }
+
+      const groupResult = await db
+        .select({ groupName: groups.groupName, archivedAt: groups.archivedAt })
+        .from(groups)
+        .where(eq(groups.id, groupId))
+        .limit(1);
+
+      if (groupResult.length === 0) {
+        await client.end();
+        logger?.info("❌ [ImportRosterCsvTool] Group not found:", groupId);
+        return {
+          success: false,
+          imported: 0,
+          errors: [],
+          message: t(language, "common.groupNotFound"),
+        };
+      }
+
+      if (groupResult[0].archivedAt) {
+        await client.end();
+        logger?.info("❌ [ImportRosterCsvTool] Group is archived:", groupId);
+        return {
+          success: false,
+          imported: 0,
+          errors: [],
+          message: t(language, "group.inArchive", {
+            groupName: groupResult[0].groupName,
+          }),
+        };
+      }
+
+      const parsed = parseRosterCsv(csv, language);
+      const { allowed, errors: levelErrors } = filterGrantableEntries(
+        parsed.entries,
+        adminLevel,
+        language,
+      );
+      const errors = [...parsed.errors, ...levelErrors];
+
+      if (allowed.length === 0) {
+        await client.end();
+        logger?.info("❌ [ImportRosterCsvTool] Nothing to import");
+        return {
+          success: false,
+          imported: 0,
+          errors,
+          message: t(language, "roster.csvEmpty"),
+        };
+      }
+
+      const now = new Date();
+      await db.transaction(async (tx) => {
+        await tx
+          .insert(roster)
+          .values(allowed.map((entry) => ({ ...entry, groupId })))
+          .onConflictDoUpdate({
+            target: roster.studentId,
+            set: {
+              firstName: sql`excluded.first_name`,
+              lastName: sql`excluded.last_name`,
+              groupId: sql`excluded.group_id`,
+              accessLevel: sql`excluded.access_level`,
+              updatedAt: now,
+            },
+          });
+
+        // Keep already registered accounts in sync with the roster, as an edit of a single entry does
+        await tx
+          .update(students)
+          .set({
+            firstName: sql`${roster.firstName}`,
+            lastName: sql`${roster.lastName}`,
+            groupId: sql`${roster.groupId}`,
+            updatedAt: now,
+          })
+          .from(roster)
+          .where(
+            and(
+              eq(roster.studentId, students.studentId),
+              inArray(
+                roster.studentId,
+                allowed.map((entry) => entry.studentId),
+              ),
+            ),
+          );
+
+        await writeAuditLog(tx, {
+          actorId: admin[0].id,
+          actorTelegramId: adminTelegramId,
+          action: "roster.import",
+          targetType: "group",
+          targetId: groupId,
+          groupId,
+          after: allowed,
+        });
+      });
+
+      await client.end();
+
+      logger?.info("✅ [ImportRosterCsvTool] Roster imported:", {
+        imported: allowed.length,
+        errors: errors.length,
+      });
+
+      return {
+        success: true,
+        imported: allowed.length,
+        errors,
+        message:
+          t(language, "roster.imported", {
+            count: allowed.length,
+            groupName: groupResult[0].groupName,
+          }) +
+          (errors.length > 0
+            ? t(language, "roster.importSkipped", { count: errors.length })
+            : ""),
+      };
+    } catch (error) {
+      logger?.error("❌ [ImportRosterCsvTool] Error importing roster:", error);
+      return {
+        success: false,
+        imported: 0,
+        errors: [],
+        message: t(language, "roster.importError"),
+      };
+    }
+  },
+});
+
+// Tool for listing the roster
+export const listRosterTool = createTool({
+  id: "list-roster-tool",
+  description:
+    "List roster entries, optionally for one group, with registration status (only for admins and owners)",
+  inputSchema: z.object({
+    groupId: z.number().optional().describe("Only list this group"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    entries: z.array(
+      z.object({
+        studentId: z.string(),
+        name: z.string(),
+        groupName: z.string(),
+        accessLevel: z.string(),
+        registered: z.boolean(),
+      }),
+    ),
+    message: z.string(),
+  }),
+  execute: async ({ context: { groupId }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const adminTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [ListRosterTool] Starting roster list with params:", {
+      adminTelegramId,
+      groupId,
+    });
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [ListRosterTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          entries: [],
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const admin = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(adminTelegramId))
+        .limit(1);
+
+      const adminLevel = admin[0]?.accessLevel || "student";
+      if (admin.length === 0 || !["admin", "owner"].includes(adminLevel)) {
+        await client.end();
+        logger?.info("❌ [ListRosterTool] User lacks permission:", adminLevel);
+        return {
+          success: false,
+          entries: [],
+          message: t(language, "roster.viewAdminOnly"),
+        };
+      }
+
+      const rows = await db
+        .select({
+          studentId: roster.studentId,
+          firstName: roster.firstName,
+          lastName: roster.lastName,
+          accessLevel: roster.accessLevel,
+          groupName: groups.groupName,
+          registeredId: students.id,
+        })
+        .from(roster)
+        .leftJoin(groups, eq(roster.groupId, groups.id))
+        .leftJoin(students, eq(students.studentId, roster.studentId))
+        .where(groupId ? eq(roster.groupId, groupId) : undefined)
+        .orderBy(asc(groups.groupName), asc(roster.studentId));
+
+      await client.end();
+
+      const entries = rows.map((row) => ({
+        studentId: row.studentId,
+        name:
+          `${row.firstName || ""} ${row.lastName || ""}`.trim() ||
+          row.studentId,
+        groupName: row.groupName || t(language, "common.unknownGroup"),
+        accessLevel: row.accessLevel,
+        registered: row.registeredId !== null,
+      }));
+
+      logger?.info("✅ [ListRosterTool] Retrieved roster:", entries.length);
+
+      return {
+        success: true,
+        entries,
+        message:
+          entries.length > 0
+            ? t(language, "roster.count", { count: entries.length })
+            : t(language, "roster.empty"),
+      };
+    } catch (error) {
+      logger?.error("❌ [ListRosterTool] Error listing roster:", error);
+      return {
+        success: false,
+        entries: [],
+        message: t(language, "roster.listError"),
+      };
+    }
+  },
+});
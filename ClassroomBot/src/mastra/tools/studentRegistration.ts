@@ -3,277 +3,343 @@ import type { IMastraLogger } from "@mastra/core/logger";
 import { z } from "zod";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { students, groups } from "../../../shared/schema";
-import { eq, and } from "drizzle-orm";
+import { students, groups, roster, inviteCodes } from "../../../shared/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { writeAuditLog } from "../utils/auditLog";
+import { t, languageOf, DEFAULT_LANGUAGE, type Language } from "../i18n";
+import { actorOf } from "../utils/actor";
 
-// Predefined student IDs and their group assignments
-// You can modify this data according to your class roster
-const AUTHORIZED_STUDENTS: Record<
-  string,
+const registrationResultSchema = z.object({
+  success: z.boolean(),
+  student: z
+    .object({
+      id: z.number(),
+      studentId: z.string(),
+      firstName: z.string().nullable(),
+      lastName: z.string().nullable(),
+      groupId: z.number(),
+      groupName: z.string(),
+      accessLevel: z.string(),
+    })
+    .nullable(),
+  message: z.string(),
+});
+
+export type RegistrationResult = z.infer<typeof registrationResultSchema>;
+
+// Registers a Telegram account with a single-use invite code.
+// Used by the agent tool and by the /start <code> deep link, which bypasses the agent.
+export async function registerWithInviteCode(
   {
-    groupId: number;
+    telegramUserId,
+    telegramUsername,
+    inviteCode,
+    firstName,
+    lastName,
+    language = DEFAULT_LANGUAGE,
+  }: {
+    telegramUserId: number;
+    telegramUsername?: string;
+    inviteCode: string;
     firstName?: string;
     lastName?: string;
-    accessLevel: "student" | "admin" | "monitor" | "owner";
-  }
-> = {
-  // Example student IDs - replace with your actual class roster
-  ST001: {
-    groupId: 1,
-    firstName: "Иван",
-    lastName: "Петров",
-    accessLevel: "student",
-  },
-  ST002: {
-    groupId: 1,
-    firstName: "Мария",
-    lastName: "Сидорова",
-    accessLevel: "monitor",
-  },
-  ST003: {
-    groupId: 2,
-    firstName: "Алексей",
-    lastName: "Козлов",
-    accessLevel: "student",
-  },
-  ST004: {
-    groupId: 2,
-    firstName: "Анна",
-    lastName: "Волкова",
-    accessLevel: "admin",
-  },
-  ST005: {
-    groupId: 3,
-    firstName: "Дмитрий",
-    lastName: "Новиков",
-    accessLevel: "owner",
+    language?: Language;
   },
-  ST006: {
-    groupId: 3,
-    firstName: "Екатерина",
-    lastName: "Смирнова",
-    accessLevel: "student",
-  },
-  // Add more students as needed...
-};
+  logger?: IMastraLogger,
+): Promise<RegistrationResult> {
+  logger?.info("🔧 [StudentRegistration] Starting registration with params:", {
+    telegramUserId,
+    telegramUsername,
+  });
 
-export const studentRegistrationTool = createTool({
-  id: "student-registration-tool",
-  description: "Register a new student in the system based on their student ID",
-  inputSchema: z.object({
-    telegramUserId: z.number().describe("Telegram user ID"),
-    telegramUsername: z
-      .string()
-      .optional()
-      .describe("Telegram username (if available)"),
-    studentId: z
-      .string()
-      .describe("Student ID to verify against authorized list"),
-    firstName: z
-      .string()
-      .optional()
-      .describe("First name (if provided by user)"),
-    lastName: z.string().optional().describe("Last name (if provided by user)"),
-  }),
-  outputSchema: z.object({
-    success: z.boolean(),
-    student: z
-      .object({
-        id: z.number(),
-        studentId: z.string(),
-        firstName: z.string().nullable(),
-        lastName: z.string().nullable(),
-        groupId: z.number(),
-        groupName: z.string(),
-        accessLevel: z.string(),
+  try {
+    // Initialize database connection
+    const connectionString = process.env.DATABASE_URL;
+    if (!connectionString) {
+      logger?.error(
+        "❌ [StudentRegistration] Database connection string not found",
+      );
+      return {
+        success: false,
+        student: null,
+        message: t(language, "common.dbError"),
+      };
+    }
+
+    const client = postgres(connectionString);
+    const db = drizzle(client);
+
+    // Look up the invite code and the roster entry it was issued for
+    const inviteResult = await db
+      .select({
+        inviteId: inviteCodes.id,
+        expiresAt: inviteCodes.expiresAt,
+        usedAt: inviteCodes.usedAt,
+        usedByTelegramId: inviteCodes.usedByTelegramId,
+        studentId: roster.studentId,
+        firstName: roster.firstName,
+        lastName: roster.lastName,
+        groupId: roster.groupId,
+        accessLevel: roster.accessLevel,
       })
-      .nullable(),
-    message: z.string(),
-  }),
-  execute: async ({
-    context: {
-      telegramUserId,
-      telegramUsername,
-      studentId,
-      firstName,
-      lastName,
-    },
-    mastra,
-  }) => {
-    const logger = mastra?.getLogger();
+      .from(inviteCodes)
+      .innerJoin(roster, eq(inviteCodes.rosterId, roster.id))
+      .where(eq(inviteCodes.code, inviteCode.trim()))
+      .limit(1);
+
+    if (inviteResult.length === 0) {
+      await client.end();
+      logger?.info("❌ [StudentRegistration] Invite code not found");
+      return {
+        success: false,
+        student: null,
+        message: t(language, "registration.codeNotFound"),
+      };
+    }
+
+    const invite = inviteResult[0];
+
     logger?.info(
-      "🔧 [StudentRegistrationTool] Starting registration with params:",
-      {
-        telegramUserId,
-        telegramUsername,
-        studentId,
-      },
+      "📝 [StudentRegistration] Checking if student already exists...",
     );
 
-    try {
-      // Check if student ID is authorized
-      const authorizedStudent = AUTHORIZED_STUDENTS[studentId.toUpperCase()];
-      if (!authorizedStudent) {
+    // Check if student is already registered
+    const existingStudent = await db
+      .select()
+      .from(students)
+      .where(eq(students.studentId, invite.studentId))
+      .limit(1);
+
+    // A student removed from the roster keeps a deactivated account; a fresh code for the same
+    // Telegram user brings it back with the new roster entry
+    const reactivated =
+      existingStudent[0]?.telegramUserId === telegramUserId &&
+      !existingStudent[0].isActive
+        ? existingStudent[0]
+        : null;
+
+    if (existingStudent.length > 0 && !reactivated) {
+      // Check if it's the same Telegram user
+      if (existingStudent[0].telegramUserId === telegramUserId) {
         logger?.info(
-          "❌ [StudentRegistrationTool] Student ID not authorized:",
-          studentId,
+          "📝 [StudentRegistration] Student already registered with same Telegram account",
         );
+
+        // Get group name
+        const groupResult = await db
+          .select({ groupName: groups.groupName })
+          .from(groups)
+          .where(eq(groups.id, existingStudent[0].groupId!))
+          .limit(1);
+
+        await client.end();
+
         return {
-          success: false,
-          student: null,
-          message: `ID студента "${studentId}" не найден в списке авторизованных. Доступ запрещен.`,
+          success: true,
+          student: {
+            id: existingStudent[0].id,
+            studentId: existingStudent[0].studentId,
+            firstName: existingStudent[0].firstName,
+            lastName: existingStudent[0].lastName,
+            groupId: existingStudent[0].groupId!,
+            groupName:
+              groupResult[0]?.groupName || t(language, "common.unknownGroup"),
+            accessLevel: existingStudent[0].accessLevel || "student",
+          },
+          message: t(language, "registration.alreadyRegistered"),
         };
-      }
-
-      // Initialize database connection
-      const connectionString = process.env.DATABASE_URL;
-      if (!connectionString) {
-        logger?.error(
-          "❌ [StudentRegistrationTool] Database connection string not found",
+      } else {
+        logger?.info(
+          "❌ [StudentRegistration] Student ID already taken by different Telegram user",
         );
+        await client.end();
         return {
           success: false,
           student: null,
-          message: "Ошибка подключения к базе данных",
+          message: t(language, "registration.studentIdTaken", {
+            studentId: invite.studentId,
+          }),
         };
       }
+    }
 
-      const client = postgres(connectionString);
-      const db = drizzle(client);
+    // Check if Telegram user is already registered with different student ID
+    const existingTelegramUser = await db
+      .select()
+      .from(students)
+      .where(eq(students.telegramUserId, telegramUserId))
+      .limit(1);
 
+    if (existingTelegramUser.length > 0 && !reactivated) {
       logger?.info(
-        "📝 [StudentRegistrationTool] Checking if student already exists...",
+        "❌ [StudentRegistration] Telegram user already registered with different student ID",
       );
+      await client.end();
+      return {
+        success: false,
+        student: null,
+        message: t(language, "registration.telegramTaken", {
+          studentId: existingTelegramUser[0].studentId,
+        }),
+      };
+    }
 
-      // Check if student is already registered
-      const existingStudent = await db
-        .select()
-        .from(students)
-        .where(eq(students.studentId, studentId.toUpperCase()))
-        .limit(1);
-
-      if (existingStudent.length > 0) {
-        // Check if it's the same Telegram user
-        if (existingStudent[0].telegramUserId === telegramUserId) {
-          logger?.info(
-            "📝 [StudentRegistrationTool] Student already registered with same Telegram account",
-          );
-
-          // Get group name
-          const groupResult = await db
-            .select({ groupName: groups.groupName })
-            .from(groups)
-            .where(eq(groups.id, existingStudent[0].groupId!))
-            .limit(1);
-
-          await client.end();
-
-          return {
-            success: true,
-            student: {
-              id: existingStudent[0].id,
-              studentId: existingStudent[0].studentId,
-              firstName: existingStudent[0].firstName,
-              lastName: existingStudent[0].lastName,
-              groupId: existingStudent[0].groupId!,
-              groupName: groupResult[0]?.groupName || "Неизвестно",
-              accessLevel: existingStudent[0].accessLevel || "student",
-            },
-            message: "Вы уже зарегистрированы в системе!",
-          };
-        } else {
-          logger?.info(
-            "❌ [StudentRegistrationTool] Student ID already taken by different Telegram user",
-          );
-          await client.end();
-          return {
-            success: false,
-            student: null,
-            message: `ID студента "${studentId}" уже используется другим пользователем Telegram.`,
-          };
-        }
-      }
+    if (invite.usedAt) {
+      logger?.info("❌ [StudentRegistration] Invite code already used");
+      await client.end();
+      return {
+        success: false,
+        student: null,
+        message: t(language, "registration.codeUsed"),
+      };
+    }
+
+    if (invite.expiresAt < new Date()) {
+      logger?.info("❌ [StudentRegistration] Invite code expired");
+      await client.end();
+      return {
+        success: false,
+        student: null,
+        message: t(language, "registration.codeExpired"),
+      };
+    }
 
-      // Check if Telegram user is already registered with different student ID
-      const existingTelegramUser = await db
-        .select()
-        .from(students)
-        .where(eq(students.telegramUserId, telegramUserId))
-        .limit(1);
+    logger?.info(
+      reactivated
+        ? "📝 [StudentRegistration] Reactivating student..."
+        : "📝 [StudentRegistration] Registering new student...",
+    );
 
-      if (existingTelegramUser.length > 0) {
-        logger?.info(
-          "❌ [StudentRegistrationTool] Telegram user already registered with different student ID",
-        );
-        await client.end();
-        return {
-          success: false,
-          student: null,
-          message: `Ваш Telegram аккаунт уже связан с ID студента "${existingTelegramUser[0].studentId}".`,
-        };
-      }
+    // Consume the code and create the student atomically, so a code can't be redeemed twice
+    const newStudent = await db.transaction(async (tx) => {
+      const consumed = await tx
+        .update(inviteCodes)
+        .set({ usedAt: new Date(), usedByTelegramId: telegramUserId })
+        .where(
+          and(eq(inviteCodes.id, invite.inviteId), isNull(inviteCodes.usedAt)),
+        )
+        .returning({ id: inviteCodes.id });
 
-      logger?.info("📝 [StudentRegistrationTool] Registering new student...");
+      if (consumed.length === 0) {
+        return null;
+      }
 
-      // Register new student
-      const newStudentData = {
-        telegramUserId,
+      const profile = {
         telegramUsername: telegramUsername || null,
-        studentId: studentId.toUpperCase(),
-        firstName: firstName || authorizedStudent.firstName || null,
-        lastName: lastName || authorizedStudent.lastName || null,
-        groupId: authorizedStudent.groupId,
-        accessLevel: authorizedStudent.accessLevel,
+        firstName: firstName || invite.firstName || null,
+        lastName: lastName || invite.lastName || null,
+        groupId: invite.groupId,
+        accessLevel: invite.accessLevel,
         isActive: true,
       };
+      const saved = reactivated
+        ? await tx
+            .update(students)
+            .set({ ...profile, updatedAt: new Date() })
+            .where(eq(students.id, reactivated.id))
+            .returning()
+        : await tx
+            .insert(students)
+            .values({ ...profile, telegramUserId, studentId: invite.studentId })
+            .returning();
 
-      const insertResult = await db
-        .insert(students)
-        .values(newStudentData)
-        .returning();
+      await writeAuditLog(tx, {
+        actorId: saved[0].id,
+        actorTelegramId: telegramUserId,
+        action: reactivated ? "student.reactivate" : "student.register",
+        targetType: "student",
+        targetId: saved[0].studentId,
+        groupId: saved[0].groupId,
+        before: reactivated,
+        after: saved[0],
+      });
 
-      // Get group name
-      const groupResult = await db
-        .select({ groupName: groups.groupName })
-        .from(groups)
-        .where(eq(groups.id, authorizedStudent.groupId))
-        .limit(1);
+      return saved[0];
+    });
 
+    if (!newStudent) {
       await client.end();
-
-      const newStudent = insertResult[0];
-      const groupName = groupResult[0]?.groupName || "Неизвестно";
-
       logger?.info(
-        "✅ [StudentRegistrationTool] Student registered successfully",
-      );
-
-      return {
-        success: true,
-        student: {
-          id: newStudent.id,
-          studentId: newStudent.studentId,
-          firstName: newStudent.firstName,
-          lastName: newStudent.lastName,
-          groupId: newStudent.groupId!,
-          groupName,
-          accessLevel: newStudent.accessLevel || "student",
-        },
-        message: `Добро пожаловать! Вы успешно зарегистрированы как ${newStudent.firstName || "студент"} в группе "${groupName}".`,
-      };
-    } catch (error) {
-      logger?.error(
-        "❌ [StudentRegistrationTool] Error during registration:",
-        error,
+        "❌ [StudentRegistration] Invite code consumed concurrently",
       );
       return {
         success: false,
         student: null,
-        message: "Произошла ошибка при регистрации. Попробуйте позже.",
+        message: t(language, "registration.codeUsed"),
       };
     }
+
+    // Get group name
+    const groupResult = await db
+      .select({ groupName: groups.groupName })
+      .from(groups)
+      .where(eq(groups.id, invite.groupId))
+      .limit(1);
+
+    await client.end();
+
+    const groupName =
+      groupResult[0]?.groupName || t(language, "common.unknownGroup");
+
+    logger?.info("✅ [StudentRegistration] Student registered successfully", {
+      reactivated: reactivated !== null,
+    });
+
+    return {
+      success: true,
+      student: {
+        id: newStudent.id,
+        studentId: newStudent.studentId,
+        firstName: newStudent.firstName,
+        lastName: newStudent.lastName,
+        groupId: newStudent.groupId!,
+        groupName,
+        accessLevel: newStudent.accessLevel || "student",
+      },
+      message: t(language, "registration.welcome", {
+        name: newStudent.firstName || t(language, "registration.defaultName"),
+        groupName,
+      }),
+    };
+  } catch (error) {
+    logger?.error("❌ [StudentRegistration] Error during registration:", error);
+    return {
+      success: false,
+      student: null,
+      message: t(language, "registration.error"),
+    };
+  }
+}
+
+export const studentRegistrationTool = createTool({
+  id: "student-registration-tool",
+  description:
+    "Register a new student in the system with the single-use invite code issued by an admin",
+  inputSchema: z.object({
+    telegramUsername: z
+      .string()
+      .optional()
+      .describe("Telegram username (if available)"),
+    inviteCode: z
+      .string()
+      .describe(
+        "Invite code from the registration link (the part after ?start=)",
+      ),
+    firstName: z
+      .string()
+      .optional()
+      .describe("First name (if provided by user)"),
+    lastName: z.string().optional().describe("Last name (if provided by user)"),
+  }),
+  outputSchema: registrationResultSchema,
+  execute: async ({ context, runtimeContext, mastra }) => {
+    return registerWithInviteCode(
+      {
+        ...context,
+        telegramUserId: actorOf(runtimeContext),
+        language: languageOf(runtimeContext),
+      },
+      mastra?.getLogger(),
+    );
   },
 });
-
-// Export the authorized students list for potential admin use
-export { AUTHORIZED_STUDENTS };
@@ -3,15 +3,16 @@ import type { IMastraLogger } from "@mastra/core/logger";
 import { z } from "zod";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { students, groups } from "../../../shared/schema";
+import { students, groups, groupMemberships } from "../../../shared/schema";
 import { eq, and } from "drizzle-orm";
+import { t, languageOf } from "../i18n";
+import { actorOf } from "../utils/actor";
 
 export const studentVerificationTool = createTool({
   id: "student-verification-tool",
   description:
     "Verify if a Telegram user is registered as a student and get their information",
   inputSchema: z.object({
-    telegramUserId: z.number().describe("Telegram user ID to verify"),
     telegramUsername: z
       .string()
       .optional()
@@ -27,6 +28,12 @@ export const studentVerificationTool = createTool({
         lastName: z.string().nullable(),
         groupId: z.number().nullable(),
         groupName: z.string().nullable(),
+        additionalGroups: z.array(
+          z.object({
+            id: z.number(),
+            groupName: z.string(),
+          }),
+        ),
         accessLevel: z.string(),
         isActive: z.boolean(),
       })
@@ -34,9 +41,12 @@ export const studentVerificationTool = createTool({
     message: z.string(),
   }),
   execute: async ({
-    context: { telegramUserId, telegramUsername },
+    context: { telegramUsername },
+    runtimeContext,
     mastra,
   }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
     const logger = mastra?.getLogger();
     logger?.info(
       "🔧 [StudentVerificationTool] Starting verification with params:",
@@ -56,7 +66,7 @@ export const studentVerificationTool = createTool({
         return {
           isVerified: false,
           student: null,
-          message: "Ошибка подключения к базе данных",
+          message: t(language, "common.dbError"),
         };
       }
 
@@ -83,6 +93,16 @@ export const studentVerificationTool = createTool({
         .where(eq(students.telegramUserId, telegramUserId))
         .limit(1);
 
+      // Additional groups (language, elective subgroups)
+      const additionalGroups =
+        result.length > 0
+          ? await db
+              .select({ id: groups.id, groupName: groups.groupName })
+              .from(groupMemberships)
+              .innerJoin(groups, eq(groupMemberships.groupId, groups.id))
+              .where(eq(groupMemberships.studentId, result[0].id))
+          : [];
+
       await client.end();
 
       if (result.length === 0) {
@@ -90,8 +110,7 @@ export const studentVerificationTool = createTool({
         return {
           isVerified: false,
           student: null,
-          message:
-            "Пользователь не найден в базе данных класса. Доступ запрещен.",
+          message: t(language, "verification.notFound"),
         };
       }
 
@@ -103,8 +122,7 @@ export const studentVerificationTool = createTool({
         return {
           isVerified: false,
           student: null,
-          message:
-            "Учетная запись студента деактивирована. Обратитесь к администратору.",
+          message: t(language, "verification.inactive"),
         };
       }
 
@@ -143,10 +161,24 @@ export const studentVerificationTool = createTool({
           lastName: student.lastName,
           groupId: student.groupId,
           groupName: student.groupName,
+          additionalGroups,
           accessLevel: student.accessLevel || "student",
           isActive: student.isActive || true,
         },
-        message: `Добро пожаловать, ${student.firstName || telegramUsername || "студент"}! Ваша группа: ${student.groupName || "не назначена"}`,
+        message:
+          t(language, "verification.welcome", {
+            name:
+              student.firstName ||
+              telegramUsername ||
+              t(language, "registration.defaultName"),
+            groupName:
+              student.groupName || t(language, "command.profileNoGroup"),
+          }) +
+          (additionalGroups.length > 0
+            ? t(language, "verification.additionalGroups", {
+                groups: additionalGroups.map((g) => g.groupName).join(", "),
+              })
+            : ""),
       };
     } catch (error) {
       logger?.error(
@@ -156,7 +188,7 @@ export const studentVerificationTool = createTool({
       return {
         isVerified: false,
         student: null,
-        message: "Произошла ошибка при проверке данных. Попробуйте позже.",
+        message: t(language, "verification.error"),
       };
     }
   },
@@ -2,25 +2,174 @@ import { createTool } from "@mastra/core/tools";
 import type { IMastraLogger } from "@mastra/core/logger";
 import { z } from "zod";
 
+const inlineKeyboardSchema = z.object({
+  inline_keyboard: z
+    .array(
+      z.array(
+        z.object({
+          text: z.string(),
+          callback_data: z.string(),
+        }),
+      ),
+    )
+    .optional(),
+});
+
+export type InlineKeyboard = z.infer<typeof inlineKeyboardSchema>;
+
+// Calls a Telegram Bot API method; shared by the messaging tool and server-side notifications
+export async function callTelegramApi(
+  method: string,
+  payload: Record<string, any>,
+  logger?: IMastraLogger,
+): Promise<{
+  ok: boolean;
+  status: number;
+  result?: any;
+  description?: string;
+  retryAfter?: number;
+}> {
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+  if (!botToken) {
+    logger?.error("❌ [Telegram] TELEGRAM_BOT_TOKEN not found");
+    return { ok: false, status: 0, description: "Bot token not configured" };
+  }
+
+  const response = await fetch(
+    `https://api.telegram.org/bot${botToken}/${method}`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    },
+  );
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    logger?.error("❌ [Telegram] API error:", {
+      method,
+      status: response.status,
+      statusText: response.statusText,
+      errorData: data,
+    });
+  }
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    result: data.result,
+    description: data.description,
+    // Set on 429 Too Many Requests: seconds to wait before retrying
+    retryAfter: data.parameters?.retry_after,
+  };
+}
+
+// Messages are sent with parse_mode HTML, so user-supplied text must be escaped
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+export async function sendTelegramMessage(
+  chatId: number,
+  text: string,
+  options: { replyMarkup?: InlineKeyboard; logger?: IMastraLogger } = {},
+): Promise<{
+  success: boolean;
+  messageId?: number;
+  error?: string;
+  status?: number;
+  retryAfter?: number;
+}> {
+  const payload: Record<string, any> = {
+    chat_id: chatId,
+    text,
+    parse_mode: "HTML",
+  };
+
+  if (options.replyMarkup && options.replyMarkup.inline_keyboard) {
+    payload.reply_markup = options.replyMarkup;
+  }
+
+  const response = await callTelegramApi(
+    "sendMessage",
+    payload,
+    options.logger,
+  );
+  if (!response.ok) {
+    return {
+      success: false,
+      error: response.status
+        ? `Telegram API error: ${response.status} ${response.description || ""}`.trim()
+        : response.description,
+      status: response.status,
+      retryAfter: response.retryAfter,
+    };
+  }
+
+  return { success: true, messageId: response.result?.message_id };
+}
+
+// Re-sends a previously received file by its file_id
+export async function sendTelegramFile(
+  chatId: number,
+  file: { fileId: string; fileType: "document" | "photo" },
+  options: { caption?: string; logger?: IMastraLogger } = {},
+): Promise<{ success: boolean; messageId?: number; error?: string }> {
+  const method = file.fileType === "photo" ? "sendPhoto" : "sendDocument";
+  const payload: Record<string, any> = {
+    chat_id: chatId,
+    [file.fileType]: file.fileId,
+  };
+
+  if (options.caption) {
+    payload.caption = options.caption;
+    payload.parse_mode = "HTML";
+  }
+
+  const response = await callTelegramApi(method, payload, options.logger);
+  if (!response.ok) {
+    return {
+      success: false,
+      error: response.status
+        ? `Telegram API error: ${response.status} ${response.description || ""}`.trim()
+        : response.description,
+    };
+  }
+
+  return { success: true, messageId: response.result?.message_id };
+}
+
+// Stops the loading indicator on a pressed inline button; the optional text is shown as a toast
+export async function answerCallbackQuery(
+  callbackQueryId: string,
+  options: { text?: string; logger?: IMastraLogger } = {},
+): Promise<boolean> {
+  const payload: Record<string, any> = { callback_query_id: callbackQueryId };
+  if (options.text) {
+    payload.text = options.text;
+  }
+
+  const response = await callTelegramApi(
+    "answerCallbackQuery",
+    payload,
+    options.logger,
+  );
+  return response.ok;
+}
+
 export const sendTelegramMessageTool = createTool({
   id: "send-telegram-message-tool",
-  description: "Send a message to Telegram user",
+  description:
+    "Send a message to Telegram user, optionally with inline buttons",
   inputSchema: z.object({
     chatId: z.number().describe("Telegram chat ID"),
     message: z.string().describe("Message text to send"),
-    replyMarkup: z
-      .object({
-        inline_keyboard: z
-          .array(
-            z.array(
-              z.object({
-                text: z.string(),
-                callback_data: z.string(),
-              }),
-            ),
-          )
-          .optional(),
-      })
+    replyMarkup: inlineKeyboardSchema
       .optional()
       .describe("Optional inline keyboard"),
   }),
@@ -37,59 +186,16 @@ export const sendTelegramMessageTool = createTool({
     });
 
     try {
-      const botToken = process.env.TELEGRAM_BOT_TOKEN;
-      if (!botToken) {
-        logger?.error(
-          "❌ [SendTelegramMessageTool] TELEGRAM_BOT_TOKEN not found",
-        );
-        return {
-          success: false,
-          error: "Bot token not configured",
-        };
-      }
-
-      const payload: any = {
-        chat_id: chatId,
-        text: message,
-        parse_mode: "HTML",
-      };
+      const result = await sendTelegramMessage(chatId, message, {
+        replyMarkup,
+        logger,
+      });
 
-      if (replyMarkup && replyMarkup.inline_keyboard) {
-        payload.reply_markup = replyMarkup;
+      if (result.success) {
+        logger?.info("✅ [SendTelegramMessageTool] Message sent successfully");
       }
 
-      const response = await fetch(
-        `https://api.telegram.org/bot${botToken}/sendMessage`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(payload),
-        },
-      );
-
-      if (!response.ok) {
-        const errorData = await response.text();
-        logger?.error("❌ [SendTelegramMessageTool] Telegram API error:", {
-          status: response.status,
-          statusText: response.statusText,
-          errorData,
-        });
-        return {
-          success: false,
-          error: `Telegram API error: ${response.status} ${response.statusText}`,
-        };
-      }
-
-      const result = await response.json();
-
-      logger?.info("✅ [SendTelegramMessageTool] Message sent successfully");
-
-      return {
-        success: true,
-        messageId: result.result?.message_id,
-      };
+      return result;
     } catch (error) {
       logger?.error(
         "❌ [SendTelegramMessageTool] Error sending message:",
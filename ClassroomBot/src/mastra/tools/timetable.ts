@@ -0,0 +1,764 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { drizzle, type PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import {
+  students,
+  groups,
+  lessons,
+  lessonOverrides,
+} from "../../../shared/schema";
+import { eq, and } from "drizzle-orm";
+import { addDays, isoWeekday, weekdayName, zonedParts } from "../utils/dates";
+import { getGroupSettings } from "../utils/groupSettings";
+import { getStudentGroupIds } from "../utils/groupMembership";
+import { writeAuditLog } from "../utils/auditLog";
+import { t, languageOf } from "../i18n";
+import { actorOf, isActiveUser } from "../utils/actor";
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in format YYYY-MM-DD");
+const timeString = z
+  .string()
+  .regex(/^\d{1,2}:\d{2}$/, "Time must be in format HH:MM");
+
+// How far ahead "when is the next ..." looks
+const NEXT_LESSON_LOOKAHEAD_DAYS = 14;
+
+const scheduledLessonSchema = z.object({
+  lessonId: z.number().nullable(),
+  startTime: z.string(),
+  endTime: z.string().nullable(),
+  subject: z.string(),
+  room: z.string().nullable(),
+  teacher: z.string().nullable(),
+  note: z.string().nullable(),
+  changed: z.boolean(),
+});
+
+type ScheduledLesson = z.infer<typeof scheduledLessonSchema>;
+
+const hhmm = (value: string | null) => (value ? value.slice(0, 5) : null);
+
+// Weekly lessons for the date's weekday with that date's overrides applied
+export async function getLessonsForDate(
+  db: PostgresJsDatabase,
+  groupId: number,
+  day: string,
+): Promise<ScheduledLesson[]> {
+  const weekly = await db
+    .select()
+    .from(lessons)
+    .where(
+      and(eq(lessons.groupId, groupId), eq(lessons.weekday, isoWeekday(day))),
+    );
+
+  const overrides = await db
+    .select()
+    .from(lessonOverrides)
+    .where(
+      and(eq(lessonOverrides.groupId, groupId), eq(lessonOverrides.date, day)),
+    );
+
+  const result: ScheduledLesson[] = [];
+  for (const lesson of weekly) {
+    const override = overrides.find(
+      (o) => o.lessonId === lesson.id && o.kind !== "extra",
+    );
+    if (override?.kind === "cancel") {
+      continue;
+    }
+    result.push({
+      lessonId: lesson.id,
+      startTime: hhmm(override?.startTime || lesson.startTime)!,
+      endTime: hhmm(override?.endTime || lesson.endTime),
+      subject: override?.subject || lesson.subject,
+      room: override?.room || lesson.room,
+      teacher: override?.teacher || lesson.teacher,
+      note: override?.note || null,
+      changed: !!override,
+    });
+  }
+
+  for (const extra of overrides.filter(
+    (o) => o.kind === "extra" && o.startTime && o.subject,
+  )) {
+    result.push({
+      lessonId: null,
+      startTime: hhmm(extra.startTime)!,
+      endTime: hhmm(extra.endTime),
+      subject: extra.subject!,
+      room: extra.room,
+      teacher: extra.teacher,
+      note: extra.note,
+      changed: true,
+    });
+  }
+
+  return result.sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+// Lessons of all the student's groups for a date, merged in time order
+export async function getStudentLessonsForDate(
+  db: PostgresJsDatabase,
+  groupIds: number[],
+  day: string,
+): Promise<ScheduledLesson[]> {
+  const perGroup = await Promise.all(
+    groupIds.map((groupId) => getLessonsForDate(db, groupId, day)),
+  );
+  return perGroup.flat().sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+// First lesson of a subject (matched by substring) after the given date and time
+export async function findNextLesson(
+  db: PostgresJsDatabase,
+  groupIds: number[],
+  subject: string,
+  from: { day: string; time: string },
+): Promise<{ day: string; lesson: ScheduledLesson } | null> {
+  const needle = subject.toLowerCase();
+  for (let offset = 0; offset < NEXT_LESSON_LOOKAHEAD_DAYS; offset++) {
+    const day = addDays(from.day, offset);
+    const found = (await getStudentLessonsForDate(db, groupIds, day)).find(
+      (lesson) =>
+        lesson.subject.toLowerCase().includes(needle) &&
+        (offset > 0 || lesson.startTime > from.time),
+    );
+    if (found) {
+      return { day, lesson: found };
+    }
+  }
+  return null;
+}
+
+// Tool for viewing the timetable of a day
+export const viewScheduleTool = createTool({
+  id: "view-schedule-tool",
+  description:
+    "Show the lessons of all the student's groups for a day, e.g. today or tomorrow, including one-off changes",
+  inputSchema: z.object({
+    date: dateString
+      .optional()
+      .describe("Date in format YYYY-MM-DD (takes precedence over daysAhead)"),
+    daysAhead: z
+      .number()
+      .int()
+      .min(0)
+      .default(0)
+      .describe("Days from today: 0 = today, 1 = tomorrow"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    date: z.string().nullable(),
+    weekday: z.string().nullable(),
+    lessons: z.array(scheduledLessonSchema),
+    message: z.string(),
+  }),
+  execute: async ({ context: { date, daysAhead }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [ViewScheduleTool] Starting schedule view with params:", {
+      telegramUserId,
+      date,
+      daysAhead,
+    });
+
+    const empty = { date: null, weekday: null, lessons: [] };
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [ViewScheduleTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({ id: students.id, groupId: students.groupId })
+        .from(students)
+        .where(isActiveUser(telegramUserId))
+        .limit(1);
+
+      const groupIds =
+        user.length > 0 ? await getStudentGroupIds(db, user[0]) : [];
+      if (groupIds.length === 0) {
+        await client.end();
+        logger?.info("❌ [ViewScheduleTool] User or group not found");
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "timetable.noUserOrGroup"),
+        };
+      }
+
+      // Days are counted on the calendar of the student's group
+      const { timeZone } = await getGroupSettings(db, user[0].groupId);
+      const day =
+        date || addDays(zonedParts(new Date(), timeZone).day, daysAhead || 0);
+      const dayLessons = await getStudentLessonsForDate(db, groupIds, day);
+
+      await client.end();
+
+      const weekday = weekdayName(isoWeekday(day), language, true);
+      logger?.info(
+        "✅ [ViewScheduleTool] Retrieved lessons:",
+        dayLessons.length,
+      );
+
+      return {
+        success: true,
+        date: day,
+        weekday,
+        lessons: dayLessons,
+        message:
+          dayLessons.length > 0
+            ? t(language, "timetable.dayLessons", {
+                weekday,
+                day,
+                count: dayLessons.length,
+              })
+            : t(language, "timetable.dayFree", { weekday, day }),
+      };
+    } catch (error) {
+      logger?.error("❌ [ViewScheduleTool] Error viewing schedule:", error);
+      return {
+        success: false,
+        ...empty,
+        message: t(language, "timetable.viewError"),
+      };
+    }
+  },
+});
+
+// Tool for finding the next lesson of a subject
+export const nextLessonTool = createTool({
+  id: "next-lesson-tool",
+  description:
+    "Find when the next lesson of a subject is in any of the student's groups (e.g. 'when is the next math lesson')",
+  inputSchema: z.object({
+    subject: z
+      .string()
+      .describe("Subject name or part of it, e.g. 'математика'"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    date: z.string().nullable(),
+    weekday: z.string().nullable(),
+    lesson: scheduledLessonSchema.nullable(),
+    message: z.string(),
+  }),
+  execute: async ({ context: { subject }, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const telegramUserId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [NextLessonTool] Starting next lesson lookup with params:",
+      {
+        telegramUserId,
+        subject,
+      },
+    );
+
+    const empty = { date: null, weekday: null, lesson: null };
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [NextLessonTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({ id: students.id, groupId: students.groupId })
+        .from(students)
+        .where(isActiveUser(telegramUserId))
+        .limit(1);
+
+      const groupIds =
+        user.length > 0 ? await getStudentGroupIds(db, user[0]) : [];
+      if (groupIds.length === 0) {
+        await client.end();
+        logger?.info("❌ [NextLessonTool] User or group not found");
+        return {
+          success: false,
+          ...empty,
+          message: t(language, "timetable.noUserOrGroup"),
+        };
+      }
+
+      const { timeZone } = await getGroupSettings(db, user[0].groupId);
+      const next = await findNextLesson(
+        db,
+        groupIds,
+        subject,
+        zonedParts(new Date(), timeZone),
+      );
+
+      if (next) {
+        await client.end();
+        const { day, lesson: found } = next;
+        const weekday = weekdayName(isoWeekday(day), language, true);
+        logger?.info("✅ [NextLessonTool] Next lesson found:", {
+          day,
+          lessonId: found.lessonId,
+        });
+        return {
+          success: true,
+          date: day,
+          weekday,
+          lesson: found,
+          message: t(language, "timetable.nextLesson", {
+            subject: found.subject,
+            weekday,
+            day,
+            time: found.startTime,
+            room: found.room
+              ? t(language, "timetable.room", { room: found.room })
+              : "",
+          }),
+        };
+      }
+
+      await client.end();
+      logger?.info("❌ [NextLessonTool] No upcoming lesson found");
+
+      return {
+        success: true,
+        ...empty,
+        message: t(language, "timetable.lessonNotFound", {
+          subject,
+          days: NEXT_LESSON_LOOKAHEAD_DAYS,
+        }),
+      };
+    } catch (error) {
+      logger?.error("❌ [NextLessonTool] Error finding next lesson:", error);
+      return {
+        success: false,
+        ...empty,
+        message: t(language, "timetable.searchError"),
+      };
+    }
+  },
+});
+
+// Tool for uploading a whole weekly timetable at once
+export const uploadTimetableTool = createTool({
+  id: "upload-timetable-tool",
+  description:
+    "Upload the weekly timetable of a group in bulk, replacing the existing one by default (only for admins and owners)",
+  inputSchema: z.object({
+    groupId: z.number().describe("Group ID the timetable belongs to"),
+    lessons: z
+      .array(
+        z.object({
+          weekday: z
+            .number()
+            .int()
+            .min(1)
+            .max(7)
+            .describe("1 = Monday ... 7 = Sunday"),
+          startTime: timeString.describe("Start time HH:MM"),
+          endTime: timeString.optional().describe("End time HH:MM"),
+          subject: z.string(),
+          room: z.string().optional(),
+          teacher: z.string().optional(),
+        }),
+      )
+      .min(1)
+      .describe("Weekly lessons"),
+    replaceExisting: z
+      .boolean()
+      .default(true)
+      .describe("Remove the group's current weekly lessons first"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    created: z.number(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { groupId, lessons: weeklyLessons, replaceExisting },
+    runtimeContext,
+    mastra,
+  }) => {
+    const language = languageOf(runtimeContext);
+    const uploadedByTelegramId = actorOf(runtimeContext);
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [UploadTimetableTool] Starting timetable upload with params:",
+      {
+        uploadedByTelegramId,
+        groupId,
+        count: weeklyLessons.length,
+        replaceExisting,
+      },
+    );
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [UploadTimetableTool] Database connection string not found",
+        );
+        return {
+          success: false,
+          created: 0,
+          message: t(language, "common.dbError"),
+        };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({ id: students.id, accessLevel: students.accessLevel })
+        .from(students)
+        .where(isActiveUser(uploadedByTelegramId))
+        .limit(1);
+
+      if (user.length === 0) {
+        await client.end();
+        logger?.info("❌ [UploadTimetableTool] User not found in database");
+        return {
+          success: false,
+          created: 0,
+          message: t(language, "common.userNotFound"),
+        };
+      }
+
+      const accessLevel = user[0].accessLevel || "student";
+      if (!["admin", "owner"].includes(accessLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [UploadTimetableTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          created: 0,
+          message: t(language, "timetable.adminOnly"),
+        };
+      }
+
+      const groupResult = await db
+        .select({ groupName: groups.groupName })
+        .from(groups)
+        .where(eq(groups.id, groupId))
+        .limit(1);
+
+      if (groupResult.length === 0) {
+        await client.end();
+        logger?.info("❌ [UploadTimetableTool] Group not found:", groupId);
+        return {
+          success: false,
+          created: 0,
+          message: t(language, "common.groupNotFound"),
+        };
+      }
+
+      const rows = (
+        weeklyLessons as Array<{
+          weekday: number;
+          startTime: string;
+          endTime?: string;
+          subject: string;
+          room?: string;
+          teacher?: string;
+        }>
+      ).map((lesson) => ({
+        groupId,
+        weekday: lesson.weekday,
+        startTime: lesson.startTime,
+        endTime: lesson.endTime || null,
+        subject: lesson.subject,
+        room: lesson.room || null,
+        teacher: lesson.teacher || null,
+      }));
+
+      await db.transaction(async (tx) => {
+        const previous = replaceExisting
+          ? await tx
+              .delete(lessons)
+              .where(eq(lessons.groupId, groupId))
+              .returning()
+          : [];
+        await tx.insert(lessons).values(rows);
+        await writeAuditLog(tx, {
+          actorId: user[0].id,
+          actorTelegramId: uploadedByTelegramId,
+          action: "timetable.upload",
+          targetType: "group",
+          targetId: groupId,
+          groupId,
+          before: replaceExisting ? previous : null,
+          after: rows,
+        });
+      });
+
+      await client.end();
+
+      logger?.info("✅ [UploadTimetableTool] Timetable uploaded:", rows.length);
+
+      return {
+        success: true,
+        created: rows.length,
+        message: t(language, "timetable.uploaded", {
+          groupName: groupResult[0].groupName,
+          count: rows.length,
+        }),
+      };
+    } catch (error) {
+      logger?.error(
+        "❌ [UploadTimetableTool] Error uploading timetable:",
+        error,
+      );
+      return {
+        success: false,
+        created: 0,
+        message: t(language, "timetable.uploadError"),
+      };
+    }
+  },
+});
+
+// Tool for one-off timetable changes (cancelled, moved or extra lessons)
+export const addTimetableOverrideTool = createTool({
+  id: "add-timetable-override-tool",
+  description:
+    "Record a one-off timetable change for a date: cancel or replace a weekly lesson, or add an extra lesson (only for monitors, admins, and owners)",
+  inputSchema: z.object({
+    groupId: z
+      .number()
+      .optional()
+      .describe(
+        "Group ID (required when the user belongs to several groups; monitors only their own groups)",
+      ),
+    date: dateString.describe("Date of the change in format YYYY-MM-DD"),
+    kind: z
+      .enum(["cancel", "replace", "extra"])
+      .describe("cancel / replace a weekly lesson, or add an extra one"),
+    lessonId: z
+      .number()
+      .optional()
+      .describe(
+        "Weekly lesson ID (required for cancel and replace, see view-schedule-tool)",
+      ),
+    startTime: timeString.optional(),
+    endTime: timeString.optional(),
+    subject: z.string().optional(),
+    room: z.string().optional(),
+    teacher: z.string().optional(),
+    note: z.string().optional().describe("Short explanation shown to students"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+  }),
+  execute: async ({ context, runtimeContext, mastra }) => {
+    const language = languageOf(runtimeContext);
+    const createdByTelegramId = actorOf(runtimeContext);
+    const {
+      groupId,
+      date,
+      kind,
+      lessonId,
+      startTime,
+      endTime,
+      subject,
+      room,
+      teacher,
+      note,
+    } = context;
+    const logger = mastra?.getLogger();
+    logger?.info(
+      "🔧 [AddTimetableOverrideTool] Starting override with params:",
+      {
+        createdByTelegramId,
+        groupId,
+        date,
+        kind,
+        lessonId,
+      },
+    );
+
+    if (kind !== "extra" && !lessonId) {
+      return {
+        success: false,
+        message: t(language, "timetable.lessonIdRequired"),
+      };
+    }
+    if (kind === "extra" && (!startTime || !subject)) {
+      return {
+        success: false,
+        message: t(language, "timetable.extraRequired"),
+      };
+    }
+
+    try {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        logger?.error(
+          "❌ [AddTimetableOverrideTool] Database connection string not found",
+        );
+        return { success: false, message: t(language, "common.dbError") };
+      }
+
+      const client = postgres(connectionString);
+      const db = drizzle(client);
+
+      const user = await db
+        .select({
+          id: students.id,
+          accessLevel: students.accessLevel,
+          groupId: students.groupId,
+        })
+        .from(students)
+        .where(isActiveUser(createdByTelegramId))
+        .limit(1);
+
+      if (user.length === 0) {
+        await client.end();
+        logger?.info(
+          "❌ [AddTimetableOverrideTool] User not found in database",
+        );
+        return { success: false, message: t(language, "common.userNotFound") };
+      }
+
+      const userData = user[0];
+      const accessLevel = userData.accessLevel || "student";
+      if (!["monitor", "admin", "owner"].includes(accessLevel)) {
+        await client.end();
+        logger?.info(
+          "❌ [AddTimetableOverrideTool] User lacks permission:",
+          accessLevel,
+        );
+        return {
+          success: false,
+          message: t(language, "timetable.noPermission"),
+        };
+      }
+
+      const isAdmin = ["admin", "owner"].includes(accessLevel);
+      const memberGroupIds = await getStudentGroupIds(db, userData);
+      if (groupId && !isAdmin && !memberGroupIds.includes(groupId)) {
+        await client.end();
+        logger?.info(
+          "❌ [AddTimetableOverrideTool] Monitor changed another group:",
+          groupId,
+        );
+        return {
+          success: false,
+          message: t(language, "timetable.ownGroupsOnly"),
+        };
+      }
+      if (!groupId && memberGroupIds.length > 1) {
+        await client.end();
+        return {
+          success: false,
+          message: t(language, "common.severalGroups", {
+            groups: memberGroupIds.join(", "),
+          }),
+        };
+      }
+
+      const targetGroupId = groupId || memberGroupIds[0];
+      if (!targetGroupId) {
+        await client.end();
+        return { success: false, message: t(language, "common.noGroup") };
+      }
+
+      if (lessonId) {
+        const lesson = await db
+          .select({ groupId: lessons.groupId, weekday: lessons.weekday })
+          .from(lessons)
+          .where(eq(lessons.id, lessonId))
+          .limit(1);
+
+        if (
+          lesson.length === 0 ||
+          lesson[0].groupId !== targetGroupId ||
+          lesson[0].weekday !== isoWeekday(date)
+        ) {
+          await client.end();
+          logger?.info(
+            "❌ [AddTimetableOverrideTool] Lesson does not match group or date:",
+            lessonId,
+          );
+          return {
+            success: false,
+            message: t(language, "timetable.lessonNotOnDate"),
+          };
+        }
+      }
+
+      const saved = await db
+        .insert(lessonOverrides)
+        .values({
+          groupId: targetGroupId,
+          date,
+          lessonId: kind === "extra" ? null : lessonId,
+          kind,
+          startTime: startTime || null,
+          endTime: endTime || null,
+          subject: subject || null,
+          room: room || null,
+          teacher: teacher || null,
+          note: note || null,
+          createdBy: userData.id,
+        })
+        .returning();
+
+      await writeAuditLog(db, {
+        actorId: userData.id,
+        actorTelegramId: createdByTelegramId,
+        action: "timetable.override",
+        targetType: "lesson_override",
+        targetId: saved[0].id,
+        groupId: targetGroupId,
+        after: saved[0],
+      });
+
+      await client.end();
+
+      logger?.info("✅ [AddTimetableOverrideTool] Override saved");
+
+      const messageKey = (
+        {
+          cancel: "timetable.cancelled",
+          replace: "timetable.replaced",
+          extra: "timetable.extraAdded",
+        } as const
+      )[kind as "cancel" | "replace" | "extra"];
+      return { success: true, message: t(language, messageKey, { date }) };
+    } catch (error) {
+      logger?.error(
+        "❌ [AddTimetableOverrideTool] Error saving override:",
+        error,
+      );
+      return {
+        success: false,
+        message: t(language, "timetable.overrideError"),
+      };
+    }
+  },
+});
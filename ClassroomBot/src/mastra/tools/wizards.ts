@@ -0,0 +1,261 @@
+import { studentVerificationTool } from "./studentVerification";
+import { addHomeworkTool } from "./homeworkManagement";
+import { registerWithInviteCode } from "./studentRegistration";
+import { escapeHtml } from "./telegramMessaging";
+import { resolveDueDate } from "../utils/dueDates";
+import { runTool } from "../utils/runTool";
+import {
+  wizardNumber,
+  wizardString,
+  type WizardDefinition,
+  type WizardValues,
+} from "../utils/wizard";
+import { t } from "../i18n";
+
+type GroupOption = { id: number; groupName: string };
+
+function isGroupOption(value: unknown): value is GroupOption {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as GroupOption).id === "number" &&
+    typeof (value as GroupOption).groupName === "string"
+  );
+}
+
+function groupOptions(values: WizardValues): GroupOption[] {
+  return Array.isArray(values.groupOptions)
+    ? values.groupOptions.filter(isGroupOption)
+    : [];
+}
+
+type NameValue = { firstName: string; lastName?: string };
+
+function nameValue(values: WizardValues): NameValue | undefined {
+  const name = values.name as Partial<NameValue> | undefined;
+  return typeof name?.firstName === "string"
+    ? {
+        firstName: name.firstName,
+        lastName: typeof name.lastName === "string" ? name.lastName : undefined,
+      }
+    : undefined;
+}
+
+export const addHomeworkWizard: WizardDefinition = {
+  id: "add_homework",
+  title: "hwWizard.title",
+
+  start: async ({ mastra, telegramUserId, username, language }) => {
+    const verification = await runTool(
+      studentVerificationTool,
+      { telegramUsername: username },
+      { mastra, telegramUserId, language },
+    );
+    const student = verification.student;
+    if (
+      !verification.isVerified ||
+      !student ||
+      !["monitor", "admin", "owner"].includes(student.accessLevel)
+    ) {
+      return { error: t(language, "hwWizard.staffOnly") };
+    }
+
+    const groupOptions = [
+      ...(student.groupId
+        ? [{ id: student.groupId, groupName: student.groupName }]
+        : []),
+      ...student.additionalGroups,
+    ];
+    return { values: { groupOptions } };
+  },
+
+  steps: [
+    {
+      id: "title",
+      prompt: (_values, language) => t(language, "hwWizard.askTitle"),
+      parse: (input, _values, _db, language) =>
+        input.length > 0 && input.length <= 200
+          ? { value: input }
+          : { error: t(language, "hwWizard.titleLength") },
+    },
+    {
+      id: "subject",
+      prompt: (_values, language) => t(language, "hwWizard.askSubject"),
+      optional: true,
+      parse: (input) => ({ value: input }),
+    },
+    {
+      id: "groupId",
+      prompt: (values, language) =>
+        t(language, "hwWizard.askGroup") +
+        "\n" +
+        groupOptions(values)
+          .map((group, index) => `${index + 1}. ${escapeHtml(group.groupName)}`)
+          .join("\n"),
+      when: (values) => groupOptions(values).length > 1,
+      parse: (input, values, _db, language) => {
+        const options = groupOptions(values);
+        const group =
+          options[Number(input) - 1] ??
+          options.find(
+            (option) => option.groupName.toLowerCase() === input.toLowerCase(),
+          );
+        return group
+          ? { value: group.id }
+          : { error: t(language, "hwWizard.unknownGroup") };
+      },
+    },
+    {
+      id: "dueDate",
+      prompt: (_values, language) => t(language, "hwWizard.askDueDate"),
+      optional: true,
+      // Stored as local "YYYY-MM-DD HH:MM", which the tool resolves to the same moment again
+      parse: async (input, values, db, language) => {
+        const resolved = await resolveDueDate(db, input, {
+          groupId:
+            wizardNumber(values, "groupId") ?? groupOptions(values)[0]?.id,
+          subject: wizardString(values, "subject"),
+          language,
+        });
+        return "question" in resolved
+          ? { error: resolved.question }
+          : { value: resolved.local };
+      },
+    },
+  ],
+
+  summary: (values, language) => {
+    const options = groupOptions(values);
+    const group =
+      options.find((option) => option.id === values.groupId) ?? options[0];
+    const subject = wizardString(values, "subject");
+    return [
+      t(language, "hwWizard.summaryTitle", {
+        value: escapeHtml(wizardString(values, "title") ?? ""),
+      }),
+      t(language, "hwWizard.summarySubject", {
+        value: subject ? escapeHtml(subject) : "—",
+      }),
+      t(language, "hwWizard.summaryDueDate", {
+        value: wizardString(values, "dueDate") || "—",
+      }),
+      group
+        ? t(language, "hwWizard.summaryGroup", {
+            value: escapeHtml(group.groupName),
+          })
+        : null,
+    ]
+      .filter((line) => line !== null)
+      .join("\n");
+  },
+
+  finish: async ({ mastra, telegramUserId, language }, values) => {
+    const result = await runTool(
+      addHomeworkTool,
+      {
+        title: wizardString(values, "title") ?? "",
+        subject: wizardString(values, "subject"),
+        dueDate: wizardString(values, "dueDate"),
+        groupId: wizardNumber(values, "groupId"),
+      },
+      { mastra, telegramUserId, language },
+    );
+
+    return {
+      text: escapeHtml(result.message),
+      replyMarkup: result.homework
+        ? {
+            inline_keyboard: [
+              [
+                {
+                  text: t(language, "hwWizard.open"),
+                  callback_data: `hw_view:${result.homework.id}`,
+                },
+              ],
+            ],
+          }
+        : undefined,
+    };
+  },
+};
+
+export const registrationWizard: WizardDefinition = {
+  id: "registration",
+  title: "regWizard.title",
+
+  start: async ({ mastra, telegramUserId, username, language }) => {
+    const verification = await runTool(
+      studentVerificationTool,
+      { telegramUsername: username },
+      { mastra, telegramUserId, language },
+    );
+    return verification.isVerified
+      ? { error: t(language, "regWizard.alreadyRegistered") }
+      : { values: {} };
+  },
+
+  steps: [
+    {
+      id: "inviteCode",
+      prompt: (_values, language) => t(language, "regWizard.askCode"),
+      // The whole t.me link is accepted as well: the code is its start parameter
+      parse: (input, _values, _db, language) => {
+        const code = input.match(/[?&]start=([\w-]+)/)?.[1] ?? input;
+        return /^[\w-]{4,64}$/.test(code)
+          ? { value: code }
+          : { error: t(language, "regWizard.badCode") };
+      },
+    },
+    {
+      id: "name",
+      prompt: (_values, language) => t(language, "regWizard.askName"),
+      optional: true,
+      parse: (input, _values, _db, language) => {
+        const [firstName, ...lastName] = input.split(/\s+/);
+        return firstName
+          ? { value: { firstName, lastName: lastName.join(" ") || undefined } }
+          : { error: t(language, "regWizard.nameRequired") };
+      },
+    },
+  ],
+
+  summary: (values, language) => {
+    const name = nameValue(values);
+    return [
+      t(language, "regWizard.summaryCode", {
+        code: escapeHtml(wizardString(values, "inviteCode") ?? ""),
+      }),
+      t(language, "regWizard.summaryName", {
+        name: name
+          ? escapeHtml(`${name.firstName} ${name.lastName || ""}`.trim())
+          : t(language, "regWizard.nameFromRoster"),
+      }),
+    ].join("\n");
+  },
+
+  finish: async ({ mastra, telegramUserId, username, language }, values) => {
+    const name = nameValue(values);
+    const result = await registerWithInviteCode(
+      {
+        telegramUserId,
+        telegramUsername: username,
+        inviteCode: wizardString(values, "inviteCode") ?? "",
+        firstName: name?.firstName,
+        lastName: name?.lastName,
+        language,
+      },
+      mastra.getLogger(),
+    );
+
+    return {
+      text:
+        escapeHtml(result.message) +
+        (result.success ? `\n\n${t(language, "regWizard.commandsHint")}` : ""),
+    };
+  },
+};
+
+export const WIZARDS: WizardDefinition[] = [
+  addHomeworkWizard,
+  registrationWizard,
+];
@@ -0,0 +1,28 @@
+import { and, eq, type SQL } from "drizzle-orm";
+import { students } from "../../../shared/schema";
+
+// Key under which the workflow and runTool put the Telegram ID of the user who sent the update.
+// Tools take the caller's identity from here, never from their input, so a prompt can't make
+// the agent act on someone else's behalf.
+export const ACTOR_CONTEXT_KEY = "telegramUserId";
+
+// Telegram ID of the user the current tool call acts for. A tool run without one is a bug in the
+// caller, so it fails instead of guessing.
+export function actorOf(runtimeContext?: {
+  get(key: string): unknown;
+}): number {
+  const value = runtimeContext?.get(ACTOR_CONTEXT_KEY);
+  if (typeof value !== "number" || !Number.isSafeInteger(value)) {
+    throw new Error("No Telegram user in the tool runtime context");
+  }
+  return value;
+}
+
+// Condition that finds the acting user among active students only. A student removed from the
+// roster is deactivated, not deleted, so every permission check must go through this.
+export function isActiveUser(telegramUserId: number): SQL {
+  return and(
+    eq(students.telegramUserId, telegramUserId),
+    eq(students.isActive, true),
+  )!;
+}
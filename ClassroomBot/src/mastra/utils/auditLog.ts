@@ -0,0 +1,31 @@
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { auditLog } from "../../../shared/schema";
+
+export type AuditEntry = {
+  actorId?: number | null;
+  actorTelegramId?: number | null;
+  // "<entity>.<verb>", e.g. "homework.delete"
+  action: string;
+  targetType: string;
+  targetId?: string | number | null;
+  groupId?: number | null;
+  before?: unknown;
+  after?: unknown;
+};
+
+// Records a mutating action. Accepts a transaction so the entry commits together with the change.
+export async function writeAuditLog(
+  db: Pick<PostgresJsDatabase, "insert">,
+  entry: AuditEntry,
+): Promise<void> {
+  await db.insert(auditLog).values({
+    actorId: entry.actorId ?? null,
+    actorTelegramId: entry.actorTelegramId ?? null,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId != null ? String(entry.targetId) : null,
+    groupId: entry.groupId ?? null,
+    before: entry.before ?? null,
+    after: entry.after ?? null,
+  });
+}
@@ -0,0 +1,81 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { and, count, eq } from "drizzle-orm";
+import { students } from "../../../shared/schema";
+import { writeAuditLog } from "./auditLog";
+
+// Telegram ID allowed to claim ownership of a fresh installation, where nobody can create
+// groups, roster entries or invites yet
+export function bootstrapOwnerTelegramId(): number | null {
+  const value = Number(process.env.OWNER_TELEGRAM_ID);
+  return Number.isSafeInteger(value) && value > 0 ? value : null;
+}
+
+// Makes the OWNER_TELEGRAM_ID user an owner while the class has no active owner. Returns true
+// only when ownership was granted by this call; once an owner exists the variable does nothing.
+export async function claimBootstrapOwner(
+  telegramUserId: number,
+  username: string | undefined,
+  logger?: IMastraLogger,
+): Promise<boolean> {
+  if (bootstrapOwnerTelegramId() !== telegramUserId) {
+    return false;
+  }
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    logger?.error("❌ [BootstrapOwner] Database connection string not found");
+    return false;
+  }
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+  try {
+    return await db.transaction(async (tx) => {
+      const [{ value: owners }] = await tx
+        .select({ value: count() })
+        .from(students)
+        .where(
+          and(eq(students.accessLevel, "owner"), eq(students.isActive, true)),
+        );
+      if (owners > 0) {
+        return false;
+      }
+
+      // Someone who registered through an invite is promoted; otherwise the owner gets a
+      // placeholder student ID, as owners don't need a roster entry
+      const [owner] = await tx
+        .insert(students)
+        .values({
+          telegramUserId,
+          telegramUsername: username,
+          studentId: `OWNER${telegramUserId}`,
+          accessLevel: "owner",
+          isActive: true,
+        })
+        .onConflictDoUpdate({
+          target: students.telegramUserId,
+          set: { accessLevel: "owner", isActive: true, updatedAt: new Date() },
+        })
+        .returning({ id: students.id, studentId: students.studentId });
+
+      await writeAuditLog(tx, {
+        actorId: owner.id,
+        actorTelegramId: telegramUserId,
+        action: "role.bootstrap",
+        targetType: "student",
+        targetId: owner.studentId,
+        after: { accessLevel: "owner" },
+      });
+
+      logger?.info("✅ [BootstrapOwner] First owner claimed:", {
+        telegramUserId,
+        studentId: owner.studentId,
+      });
+      return true;
+    });
+  } finally {
+    await client.end();
+  }
+}
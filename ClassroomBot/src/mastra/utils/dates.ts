@@ -0,0 +1,114 @@
+// Calendar helpers for "YYYY-MM-DD" date strings (as stored in `date` columns)
+
+export function addDays(day: string, days: number): string {
+  const value = new Date(`${day}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      (24 * 60 * 60 * 1000),
+  );
+}
+
+// ISO weekday: 1 = Monday ... 7 = Sunday
+export function isoWeekday(day: string): number {
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+  return weekday === 0 ? 7 : weekday;
+}
+
+// "YYYY-MM-DD HH:MM" in UTC, the format tools accept for due dates, or as wall time in a time zone
+export function formatDateTime(value: Date, timeZone?: string): string {
+  if (timeZone) {
+    const { day, time } = zonedParts(value, timeZone);
+    return `${day} ${time}`;
+  }
+  return value.toISOString().slice(0, 16).replace("T", " ");
+}
+
+// Time zone of new groups and of users without a group
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || "Europe/Moscow";
+
+// Date and time for people to read, e.g. "пт, 23 октября, 18:00"
+export function formatLocalDateTime(
+  value: Date,
+  { timeZone, locale }: { timeZone: string; locale: string },
+): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone,
+    weekday: "short",
+    day: "numeric",
+    month: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(value);
+}
+
+// A calendar day (already on the group's calendar) for people to read, e.g. "пт, 23 октября"
+export function formatLocalDay(
+  day: string,
+  { locale }: { locale: string },
+): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone: "UTC",
+    weekday: "short",
+    day: "numeric",
+    month: "long",
+  }).format(new Date(`${day}T00:00:00Z`));
+}
+
+// Calendar date and wall-clock time of an instant in a time zone
+export function zonedParts(
+  value: Date,
+  timeZone: string,
+): { day: string; time: string } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(value)
+      .map((part) => [part.type, part.value]),
+  );
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+// The instant at which the wall clock in a time zone shows the given date and time
+export function zonedTimeToUtc(
+  day: string,
+  time: string,
+  timeZone: string,
+): Date {
+  const asUtc = Date.parse(`${day}T${time}:00Z`);
+  // The zone's offset at that moment; a second pass settles dates next to a DST switch
+  let result = asUtc;
+  for (let pass = 0; pass < 2; pass++) {
+    const shown = zonedParts(new Date(result), timeZone);
+    result += asUtc - Date.parse(`${shown.day}T${shown.time}:00Z`);
+  }
+  return new Date(result);
+}
+
+// Full weekday name in a language, e.g. "пятница" or "Friday"; capitalized when it starts a phrase
+export function weekdayName(
+  isoDay: number,
+  locale: string,
+  capitalized = false,
+): string {
+  // 1 January 2024 was a Monday
+  const name = new Intl.DateTimeFormat(locale, {
+    weekday: "long",
+    timeZone: "UTC",
+  }).format(new Date(Date.UTC(2024, 0, isoDay)));
+  return capitalized ? name.charAt(0).toUpperCase() + name.slice(1) : name;
+}
@@ -0,0 +1,354 @@
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import {
+  addDays,
+  isoWeekday,
+  zonedParts,
+  zonedTimeToUtc,
+  formatDateTime,
+  formatLocalDateTime,
+  formatLocalDay,
+  weekdayName,
+} from "./dates";
+import {
+  getGroupSettings,
+  withReaderLanguage,
+  type GroupSettings,
+} from "./groupSettings";
+import { findNextLesson } from "../tools/timetable";
+import { t, DEFAULT_LANGUAGE, type Language } from "../i18n";
+
+// Parses due dates the way people write them in chat: "до пятницы", "завтра к 9:00",
+// "через неделю", "к следующему уроку", "25.10", "25 октября 18:00", "2026-10-25 18:00",
+// and the English equivalents ("by Friday", "in 2 weeks", "next lesson"). Dates are resolved in the group's time zone. Anything ambiguous or unknown comes back
+// as a clarification question instead of a date.
+
+export type DueDateResult =
+  // `local` is "YYYY-MM-DD HH:MM" in the group's time zone, `label` is the same for people to read
+  { dueDate: Date; local: string; label: string } | { question: string };
+
+type ParseOptions = {
+  settings: GroupSettings;
+  // Language of the clarification questions and of the label
+  language?: Language;
+  now?: Date;
+  // Subject of the homework, used for "к следующему уроку"
+  subject?: string | null;
+  // Local date and start time of the next lesson of a subject
+  nextLesson?: (
+    subject: string,
+    from: { day: string; time: string },
+  ) => Promise<{ day: string; time: string } | null>;
+};
+
+// Time used when only the day is given
+const END_OF_DAY = "23:59";
+
+const WEEKDAYS: [RegExp, number][] = [
+  [/^(?:понедельник[аеу]?|monday)$/, 1],
+  [/^(?:вторник[аеу]?|tuesday)$/, 2],
+  [/^(?:сред[аыуе]|wednesday)$/, 3],
+  [/^(?:четверг[аеу]?|thursday)$/, 4],
+  [/^(?:пятниц[аыуе]|friday)$/, 5],
+  [/^(?:суббот[аыуе]|saturday)$/, 6],
+  [/^(?:воскресень[еяю]|sunday)$/, 7],
+];
+
+const MONTHS = [
+  [
+    "января",
+    "февраля",
+    "марта",
+    "апреля",
+    "мая",
+    "июня",
+    "июля",
+    "августа",
+    "сентября",
+    "октября",
+    "ноября",
+    "декабря",
+  ],
+  [
+    "january",
+    "february",
+    "march",
+    "april",
+    "may",
+    "june",
+    "july",
+    "august",
+    "september",
+    "october",
+    "november",
+    "december",
+  ],
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  один: 1,
+  одну: 1,
+  два: 2,
+  две: 2,
+  три: 3,
+  четыре: 4,
+  пять: 5,
+  шесть: 6,
+  семь: 7,
+  восемь: 8,
+  девять: 9,
+  десять: 10,
+  a: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+const RELATIVE_DAYS: Record<string, number> = {
+  сегодня: 0,
+  завтра: 1,
+  послезавтра: 2,
+  today: 0,
+  tomorrow: 1,
+  "day after tomorrow": 2,
+};
+
+function monthNumber(name: string): number {
+  const index = MONTHS.map((names) => names.indexOf(name)).find(
+    (position) => position >= 0,
+  );
+  return index === undefined ? 0 : index + 1;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+function validDay(year: number, month: number, date: number): string | null {
+  const day = `${year}-${pad(month)}-${pad(date)}`;
+  const parsed = new Date(`${day}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === day
+    ? day
+    : null;
+}
+
+// Day without a year: this year's, or next year's if it has already passed by more than a month
+// ("до 10.01" written in October). A date a few days back is more likely a typo, so it's asked about.
+function dayWithoutYear(
+  month: number,
+  date: number,
+  today: string,
+  language: Language,
+): string | { question: string } | null {
+  const year = Number(today.slice(0, 4));
+  const thisYear = validDay(year, month, date);
+  if (!thisYear || thisYear >= today) {
+    return thisYear;
+  }
+  if (addDays(thisYear, 31) >= today) {
+    return {
+      question: t(language, "dueDate.dayPassed", {
+        date: `${pad(date)}.${pad(month)}`,
+        hint: t(language, "dueDate.hint"),
+      }),
+    };
+  }
+  return validDay(year + 1, month, date);
+}
+
+export async function parseDueDateText(
+  input: string,
+  options: ParseOptions,
+): Promise<DueDateResult> {
+  const now = options.now ?? new Date();
+  const language = options.language ?? DEFAULT_LANGUAGE;
+  const { timeZone, weekStart } = options.settings;
+  const local = zonedParts(now, timeZone);
+  const display = withReaderLanguage(options.settings, language);
+  const unknown = {
+    question: t(language, "dueDate.unknown", {
+      input,
+      hint: t(language, "dueDate.hint"),
+    }),
+  };
+
+  let text = input
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .replace(/[,!]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/\.$/, "");
+
+  // Time of day: "18:00", "в 9:00", "к 8:30", "до 23:59", "at 9:00"
+  let time: string | null = null;
+  const timeMatch = text.match(
+    /(?:^|\s)(?:(?:в|к|до|at|by|until)\s)?(\d{1,2}):(\d{2})(?=\s|$)/,
+  );
+  if (timeMatch) {
+    const hours = Number(timeMatch[1]);
+    const minutes = Number(timeMatch[2]);
+    if (hours > 23 || minutes > 59) {
+      return unknown;
+    }
+    time = `${pad(hours)}:${pad(minutes)}`;
+    text = text.replace(timeMatch[0], " ").trim();
+  }
+
+  text = text
+    .replace(/^(?:(?:до|к|ко|на|в|во|по|by|until|on|for|the)\s)+/, "")
+    .trim();
+
+  let day: string | null = null;
+  let match: RegExpMatchArray | null;
+
+  if (!text) {
+    // Only a time: today, or tomorrow if that time has already passed
+    if (!time) {
+      return unknown;
+    }
+    day = time > local.time ? local.day : addDays(local.day, 1);
+  } else if (text in RELATIVE_DAYS) {
+    day = addDays(local.day, RELATIVE_DAYS[text]);
+  } else if ((match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/))) {
+    day = validDay(Number(match[1]), Number(match[2]), Number(match[3]));
+  } else if (
+    (match = text.match(/^(\d{1,2})\.(\d{1,2})(?:\.(\d{2}|\d{4}))?$/))
+  ) {
+    const resolved = match[3]
+      ? validDay(
+          Number(match[3].length === 2 ? `20${match[3]}` : match[3]),
+          Number(match[2]),
+          Number(match[1]),
+        )
+      : dayWithoutYear(Number(match[2]), Number(match[1]), local.day, language);
+    if (resolved && typeof resolved === "object") {
+      return resolved;
+    }
+    day = resolved;
+  } else if (
+    (match = text.match(/^(\d{1,2}) ([а-яa-z]+)(?: (\d{4}))?$/)) &&
+    monthNumber(match[2])
+  ) {
+    const month = monthNumber(match[2]);
+    const resolved = match[3]
+      ? validDay(Number(match[3]), month, Number(match[1]))
+      : dayWithoutYear(month, Number(match[1]), local.day, language);
+    if (resolved && typeof resolved === "object") {
+      return resolved;
+    }
+    day = resolved;
+  } else if (
+    (match = text.match(
+      /^(?:через|in) (?:(\d+|[а-яa-z]+) )?(день|дня|дней|неделю|недели|недель|days?|weeks?)$/,
+    ))
+  ) {
+    const count = match[1] ? Number(match[1]) || NUMBER_WORDS[match[1]] : 1;
+    if (!count) {
+      return unknown;
+    }
+    day = addDays(local.day, /^(?:д|day)/.test(match[2]) ? count : count * 7);
+  } else if (
+    (match = text.match(
+      /^(?:(следующ[а-я]*|эт[а-я]*|next|this) )?([а-яa-z]+)$/,
+    )) &&
+    WEEKDAYS.some(([pattern]) => pattern.test(match![2]))
+  ) {
+    const weekday = WEEKDAYS.find(([pattern]) => pattern.test(match![2]))![1];
+    const todayWeekday = isoWeekday(local.day);
+    const name = weekdayName(weekday, language);
+    // Position within the group's week, which starts on `weekStart`
+    const position = (isoDay: number) => (isoDay - weekStart + 7) % 7;
+
+    if (match[1]?.startsWith("следующ") || match[1] === "next") {
+      // That day of the next calendar week
+      day = addDays(local.day, 7 - position(todayWeekday) + position(weekday));
+    } else if (weekday === todayWeekday) {
+      // "до пятницы" said on a Friday: today or in a week?
+      return {
+        question: t(language, "dueDate.todayOrNextWeek", {
+          weekday: name,
+          today: formatLocalDay(local.day, display),
+          nextWeek: formatLocalDay(addDays(local.day, 7), display),
+        }),
+      };
+    } else if (position(weekday) < position(todayWeekday) && match[1]) {
+      return {
+        question: t(language, "dueDate.weekdayPassed", { weekday: name }),
+      };
+    } else {
+      day = addDays(local.day, (weekday - todayWeekday + 7) % 7);
+    }
+  } else if (
+    (match = text.match(
+      /^(?:следующ[а-я]* урок[а-я]*|next lesson)(?: (?:по |of |in )?(.+))?$/,
+    ))
+  ) {
+    // "к следующему уроку математики": the subject is matched by its stem, whatever the case ending
+    const typedSubject = match[1]?.split(" ")[0];
+    const subject = typedSubject
+      ? typedSubject.slice(0, Math.max(4, typedSubject.length - 2))
+      : options.subject;
+    if (!subject) {
+      return { question: t(language, "dueDate.lessonSubject") };
+    }
+    const lesson = options.nextLesson
+      ? await options.nextLesson(subject, local)
+      : null;
+    if (!lesson) {
+      return {
+        question: t(language, "dueDate.lessonNotFound", {
+          subject: match[1] || subject,
+        }),
+      };
+    }
+    day = lesson.day;
+    time = time ?? lesson.time;
+  }
+
+  if (!day) {
+    return unknown;
+  }
+
+  const dueDate = zonedTimeToUtc(day, time ?? END_OF_DAY, timeZone);
+  if (dueDate <= now) {
+    return {
+      question: t(language, "dueDate.inPast", {
+        date: formatLocalDateTime(dueDate, display),
+      }),
+    };
+  }
+
+  return {
+    dueDate,
+    local: formatDateTime(dueDate, timeZone),
+    label: formatLocalDateTime(dueDate, display),
+  };
+}
+
+// Resolves a due date for a group's homework in the group's settings,
+// with "к следующему уроку" looked up in its timetable
+export async function resolveDueDate(
+  db: PostgresJsDatabase,
+  input: string,
+  {
+    groupId,
+    subject,
+    language,
+  }: { groupId: number; subject?: string | null; language?: Language },
+): Promise<DueDateResult> {
+  return parseDueDateText(input, {
+    settings: await getGroupSettings(db, groupId),
+    language,
+    subject,
+    nextLesson: async (lessonSubject, from) => {
+      const next = await findNextLesson(db, [groupId], lessonSubject, from);
+      return next && { day: next.day, time: next.lesson.startTime };
+    },
+  });
+}
@@ -0,0 +1,30 @@
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { eq, sql, type SQL } from "drizzle-orm";
+import { students, groupMemberships } from "../../../shared/schema";
+
+// All groups a student belongs to: the primary group first, then additional memberships
+export async function getStudentGroupIds(
+  db: PostgresJsDatabase,
+  student: { id: number; groupId: number | null },
+): Promise<number[]> {
+  const memberships = await db
+    .select({ groupId: groupMemberships.groupId })
+    .from(groupMemberships)
+    .where(eq(groupMemberships.studentId, student.id));
+
+  const groupIds = student.groupId ? [student.groupId] : [];
+  for (const { groupId } of memberships) {
+    if (!groupIds.includes(groupId)) {
+      groupIds.push(groupId);
+    }
+  }
+  return groupIds;
+}
+
+// Condition on the students table: the student is in the group as primary or additional member
+export function isGroupMember(groupId: number): SQL {
+  return sql`(${students.groupId} = ${groupId} or exists (
+    select 1 from ${groupMemberships}
+    where ${groupMemberships.studentId} = ${students.id} and ${groupMemberships.groupId} = ${groupId}
+  ))`;
+}
@@ -0,0 +1,80 @@
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { eq } from "drizzle-orm";
+import { groups } from "../../../shared/schema";
+import { DEFAULT_TIMEZONE } from "./dates";
+import type { Language } from "../i18n";
+
+export type GroupSettings = {
+  timeZone: string;
+  locale: string;
+  weekStart: number;
+};
+
+// For new groups and for users without a group
+export const DEFAULT_GROUP_SETTINGS: GroupSettings = {
+  timeZone: DEFAULT_TIMEZONE,
+  locale: "ru-RU",
+  weekStart: 1,
+};
+
+export function toGroupSettings(row: {
+  timezone: string;
+  locale: string;
+  weekStart: number;
+}): GroupSettings {
+  return {
+    timeZone: row.timezone,
+    locale: row.locale,
+    weekStart: row.weekStart,
+  };
+}
+
+// Dates are shown in the group's locale, unless the reader uses another language
+export function withReaderLanguage(
+  settings: GroupSettings,
+  language: Language,
+): GroupSettings {
+  return settings.locale.split("-")[0] === language
+    ? settings
+    : { ...settings, locale: language };
+}
+
+export async function getGroupSettings(
+  db: Pick<PostgresJsDatabase, "select">,
+  groupId: number | null | undefined,
+): Promise<GroupSettings> {
+  if (!groupId) {
+    return DEFAULT_GROUP_SETTINGS;
+  }
+
+  const group = await db
+    .select({
+      timezone: groups.timezone,
+      locale: groups.locale,
+      weekStart: groups.weekStart,
+    })
+    .from(groups)
+    .where(eq(groups.id, groupId))
+    .limit(1);
+
+  return group.length > 0 ? toGroupSettings(group[0]) : DEFAULT_GROUP_SETTINGS;
+}
+
+// IANA names such as "Europe/Moscow" or "Asia/Yekaterinburg"
+export function isValidTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// BCP 47 tags such as "ru-RU" or "en-GB"
+export function isValidLocale(value: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(value).length > 0;
+  } catch {
+    return false;
+  }
+}
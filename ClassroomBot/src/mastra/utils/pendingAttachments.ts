@@ -0,0 +1,81 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { drizzle, type PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { and, eq, lt } from "drizzle-orm";
+import { pendingAttachments } from "../../../shared/schema";
+
+export type IncomingAttachment = {
+  fileId: string;
+  fileType: "document" | "photo";
+  fileName?: string;
+};
+
+// Stores an album item; the tool handling the captioned message of the album collects all of them
+export async function stashPendingAttachment(
+  entry: IncomingAttachment & {
+    telegramUserId: number;
+    mediaGroupId: string;
+    messageId: number;
+  },
+  logger?: IMastraLogger,
+): Promise<void> {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    logger?.error(
+      "❌ [PendingAttachments] Database connection string not found",
+    );
+    return;
+  }
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+  try {
+    await db.insert(pendingAttachments).values({
+      telegramUserId: entry.telegramUserId,
+      mediaGroupId: entry.mediaGroupId,
+      messageId: entry.messageId,
+      fileId: entry.fileId,
+      fileType: entry.fileType,
+      fileName: entry.fileName || null,
+    });
+  } finally {
+    await client.end();
+  }
+}
+
+// Removes and returns the stashed items of an album, in the order they were sent
+export async function takePendingAttachments(
+  db: Pick<PostgresJsDatabase, "delete">,
+  telegramUserId: number,
+  mediaGroupId: string,
+): Promise<IncomingAttachment[]> {
+  const rows = await db
+    .delete(pendingAttachments)
+    .where(
+      and(
+        eq(pendingAttachments.telegramUserId, telegramUserId),
+        eq(pendingAttachments.mediaGroupId, mediaGroupId),
+      ),
+    )
+    .returning();
+
+  return rows
+    .sort((a, b) => a.messageId - b.messageId)
+    .map((row) => ({
+      fileId: row.fileId,
+      fileType: row.fileType,
+      fileName: row.fileName || undefined,
+    }));
+}
+
+// Albums nobody picked up (e.g. sent without a caption) are dropped after a day
+export async function purgeStalePendingAttachments(
+  db: Pick<PostgresJsDatabase, "delete">,
+): Promise<number> {
+  const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const rows = await db
+    .delete(pendingAttachments)
+    .where(lt(pendingAttachments.createdAt, cutoff))
+    .returning({ id: pendingAttachments.id });
+  return rows.length;
+}
@@ -0,0 +1,39 @@
+import type { Mastra } from "@mastra/core";
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import type { Tool, ToolExecutionContext } from "@mastra/core/tools";
+import type { z } from "zod";
+import { LANGUAGE_CONTEXT_KEY, type Language } from "../i18n";
+import { ACTOR_CONTEXT_KEY } from "./actor";
+
+// The user a tool runs for, taken from the incoming update
+export type ToolCaller = {
+  mastra: Mastra;
+  telegramUserId: number;
+  language: Language;
+};
+
+// Runs a tool outside the agent (button actions, slash commands), with the same runtime context the workflow sets.
+// The input goes through the tool's schema like the agent's does, so defaults apply and bad input fails here.
+export async function runTool<
+  TInput extends z.ZodTypeAny,
+  TOutput extends z.ZodTypeAny,
+>(
+  tool: Tool<TInput, TOutput>,
+  context: z.input<TInput>,
+  { mastra, telegramUserId, language }: ToolCaller,
+): Promise<z.infer<TOutput>> {
+  if (!tool.execute) {
+    throw new Error(`Tool "${tool.id}" has no execute function`);
+  }
+
+  const runtimeContext = new RuntimeContext();
+  runtimeContext.set(LANGUAGE_CONTEXT_KEY, language);
+  runtimeContext.set(ACTOR_CONTEXT_KEY, telegramUserId);
+  const executionContext: ToolExecutionContext<TInput> = {
+    context: tool.inputSchema ? tool.inputSchema.parse(context) : context,
+    runtimeContext,
+    mastra,
+    tracingContext: {},
+  };
+  return tool.execute(executionContext);
+}
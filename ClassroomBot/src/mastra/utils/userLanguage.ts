@@ -0,0 +1,98 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { eq } from "drizzle-orm";
+import { students } from "../../../shared/schema";
+import { isLanguage, resolveLanguage, type Language } from "../i18n";
+
+// The language chosen with /lang wins; otherwise the one Telegram reports for the user's app
+export function studentLanguage(row: {
+  language: string | null;
+  telegramLanguageCode: string | null;
+}): Language {
+  return isLanguage(row.language)
+    ? row.language
+    : resolveLanguage(row.telegramLanguageCode);
+}
+
+// Language for replying to an incoming update. The reported language_code is remembered so that
+// reminders and digests, which have no incoming update, go out in the same language.
+export async function getUserLanguage(
+  telegramUserId: number,
+  telegramLanguageCode: string | undefined,
+  logger?: IMastraLogger,
+): Promise<Language> {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    logger?.error("❌ [UserLanguage] Database connection string not found");
+    return resolveLanguage(telegramLanguageCode);
+  }
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+  try {
+    const user = await db
+      .select({
+        id: students.id,
+        language: students.language,
+        telegramLanguageCode: students.telegramLanguageCode,
+      })
+      .from(students)
+      .where(eq(students.telegramUserId, telegramUserId))
+      .limit(1);
+
+    if (user.length === 0) {
+      return resolveLanguage(telegramLanguageCode);
+    }
+
+    if (
+      telegramLanguageCode &&
+      telegramLanguageCode !== user[0].telegramLanguageCode
+    ) {
+      await db
+        .update(students)
+        .set({ telegramLanguageCode })
+        .where(eq(students.id, user[0].id));
+    }
+
+    return studentLanguage({
+      language: user[0].language,
+      telegramLanguageCode:
+        telegramLanguageCode ?? user[0].telegramLanguageCode,
+    });
+  } finally {
+    await client.end();
+  }
+}
+
+// Stores the language chosen with /lang. Returns false when the user isn't registered.
+export async function setUserLanguage(
+  telegramUserId: number,
+  language: Language,
+  logger?: IMastraLogger,
+): Promise<boolean> {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    logger?.error("❌ [UserLanguage] Database connection string not found");
+    return false;
+  }
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+  try {
+    const updated = await db
+      .update(students)
+      .set({ language, updatedAt: new Date() })
+      .where(eq(students.telegramUserId, telegramUserId))
+      .returning({ id: students.id });
+
+    logger?.info("✅ [UserLanguage] Language changed:", {
+      telegramUserId,
+      language,
+      found: updated.length > 0,
+    });
+    return updated.length > 0;
+  } finally {
+    await client.end();
+  }
+}
@@ -0,0 +1,360 @@
+import type { Mastra } from "@mastra/core";
+import { drizzle, type PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { eq, lt } from "drizzle-orm";
+import { userSessions } from "../../../shared/schema";
+import type { InlineKeyboard } from "../tools/telegramMessaging";
+import { t, type Language, type MessageKey } from "../i18n";
+
+// Step-by-step dialogs (wizards). The current step and the collected answers live in
+// user_sessions.session_data, so nothing depends on the agent remembering earlier turns.
+
+export const WIZARD_TIMEOUT_MINUTES =
+  Number(process.env.WIZARD_TIMEOUT_MINUTES) || 15;
+
+// Buttons of the wizard send callback_data "wizard:<control>"
+export const WIZARD_CALLBACK_PREFIX = "wizard:";
+
+const CONFIRM_STEP = "confirm";
+
+const WIZARD_CONTROLS = ["cancel", "back", "skip", "confirm"] as const;
+type WizardControl = (typeof WIZARD_CONTROLS)[number];
+
+// Typed controls are slash commands only, so a plain answer such as a homework titled "Да" is never
+// mistaken for one
+const CONTROL_COMMANDS: Record<string, WizardControl> = {
+  "/cancel": "cancel",
+  "/back": "back",
+  "/skip": "skip",
+  "/confirm": "confirm",
+};
+
+// Answers come back from session_data JSON, so steps check the type of what they read
+export type WizardValues = Record<string, unknown>;
+
+export function wizardString(
+  values: WizardValues,
+  key: string,
+): string | undefined {
+  const value = values[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+export function wizardNumber(
+  values: WizardValues,
+  key: string,
+): number | undefined {
+  const value = values[key];
+  return typeof value === "number" ? value : undefined;
+}
+
+export type WizardContext = {
+  mastra: Mastra;
+  telegramUserId: number;
+  username?: string;
+  chatId: number;
+  language: Language;
+};
+
+export type WizardReply = {
+  text: string;
+  replyMarkup?: InlineKeyboard;
+  // The input wasn't meant for the wizard: send this reply, then handle the message as usual
+  passThrough?: boolean;
+};
+
+type WizardParseResult = { value: unknown } | { error: string };
+
+export type WizardStep = {
+  id: string;
+  prompt: (values: WizardValues, language: Language) => string;
+  // Optional steps get a "skip" button; the value stays undefined
+  optional?: boolean;
+  // The step is left out when this returns false
+  when?: (values: WizardValues) => boolean;
+  parse: (
+    input: string,
+    values: WizardValues,
+    db: PostgresJsDatabase,
+    language: Language,
+  ) => WizardParseResult | Promise<WizardParseResult>;
+};
+
+export type WizardDefinition = {
+  id: string;
+  title: MessageKey;
+  // Checks whether the user may run the wizard and prepares initial values
+  start?: (
+    ctx: WizardContext,
+  ) => Promise<{ values: WizardValues } | { error: string }>;
+  steps: WizardStep[];
+  summary: (values: WizardValues, language: Language) => string;
+  finish: (ctx: WizardContext, values: WizardValues) => Promise<WizardReply>;
+};
+
+type WizardState = {
+  wizard: string;
+  stepId: string;
+  values: WizardValues;
+  history: string[];
+};
+
+function parseControl(input: string): WizardControl | undefined {
+  const value = input.trim().toLowerCase();
+  if (value.startsWith(WIZARD_CALLBACK_PREFIX)) {
+    const control = value.slice(WIZARD_CALLBACK_PREFIX.length);
+    return WIZARD_CONTROLS.find((candidate) => candidate === control);
+  }
+  return CONTROL_COMMANDS[value];
+}
+
+function controlButton(
+  language: Language,
+  key: MessageKey,
+  control: WizardControl,
+) {
+  return {
+    text: t(language, key),
+    callback_data: `${WIZARD_CALLBACK_PREFIX}${control}`,
+  };
+}
+
+function nextStepId(
+  definition: WizardDefinition,
+  afterStepId: string | null,
+  values: WizardValues,
+): string {
+  const start = afterStepId
+    ? definition.steps.findIndex((step) => step.id === afterStepId) + 1
+    : 0;
+  const next = definition.steps
+    .slice(start)
+    .find((step) => !step.when || step.when(values));
+  return next?.id ?? CONFIRM_STEP;
+}
+
+function render(
+  definition: WizardDefinition,
+  state: WizardState,
+  language: Language,
+  error?: string,
+): WizardReply {
+  const navigation = [
+    ...(state.history.length > 0
+      ? [controlButton(language, "wizard.back", "back")]
+      : []),
+    controlButton(language, "wizard.cancel", "cancel"),
+  ];
+
+  if (state.stepId === CONFIRM_STEP) {
+    const title = t(language, definition.title);
+    const summary = definition.summary(state.values, language);
+    return {
+      text: `<b>${title}</b>\n\n${summary}\n\n${t(language, "wizard.confirmQuestion")}`,
+      replyMarkup: {
+        inline_keyboard: [
+          [controlButton(language, "wizard.save", "confirm")],
+          navigation,
+        ],
+      },
+    };
+  }
+
+  const step = definition.steps.find(
+    (candidate) => candidate.id === state.stepId,
+  )!;
+  const keyboard = step.optional
+    ? [[controlButton(language, "wizard.skip", "skip")], navigation]
+    : [navigation];
+  return {
+    text:
+      (error ? `⚠️ ${error}\n\n` : "") + step.prompt(state.values, language),
+    replyMarkup: { inline_keyboard: keyboard },
+  };
+}
+
+async function saveState(
+  db: PostgresJsDatabase,
+  telegramUserId: number,
+  state: WizardState,
+): Promise<void> {
+  const expiresAt = new Date(Date.now() + WIZARD_TIMEOUT_MINUTES * 60 * 1000);
+  await db
+    .insert(userSessions)
+    .values({ telegramUserId, sessionData: state, expiresAt })
+    .onConflictDoUpdate({
+      target: userSessions.telegramUserId,
+      set: { sessionData: state, expiresAt },
+    });
+}
+
+function withDb<T>(fn: (db: PostgresJsDatabase) => Promise<T>): Promise<T> {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error("DATABASE_URL is not set");
+  }
+
+  const client = postgres(connectionString);
+  return fn(drizzle(client)).finally(() => client.end());
+}
+
+// Starts a wizard, replacing any unfinished one of the same user
+export async function startWizard(
+  definition: WizardDefinition,
+  ctx: WizardContext,
+): Promise<WizardReply> {
+  const logger = ctx.mastra.getLogger();
+  logger?.info("🔧 [Wizard] Starting wizard:", {
+    wizard: definition.id,
+    telegramUserId: ctx.telegramUserId,
+  });
+
+  const started = definition.start
+    ? await definition.start(ctx)
+    : { values: {} };
+  if ("error" in started) {
+    return { text: started.error };
+  }
+
+  const state: WizardState = {
+    wizard: definition.id,
+    stepId: nextStepId(definition, null, started.values),
+    values: started.values,
+    history: [],
+  };
+
+  await withDb((db) => saveState(db, ctx.telegramUserId, state));
+
+  return render(definition, state, ctx.language);
+}
+
+// Feeds a message or a wizard button press into the user's active wizard.
+// Returns null when there is no active wizard, the input is a slash command meant for the router
+// or an unknown wizard button.
+export async function continueWizard(
+  definitions: WizardDefinition[],
+  ctx: WizardContext,
+  input: string,
+): Promise<WizardReply | null> {
+  const control = parseControl(input);
+  // Unknown "wizard:" data comes from a stale or forged button and is never taken as an answer
+  if (
+    (input.startsWith("/") || input.startsWith(WIZARD_CALLBACK_PREFIX)) &&
+    !control
+  ) {
+    return null;
+  }
+
+  return withDb(async (db) => {
+    const session = await db
+      .select()
+      .from(userSessions)
+      .where(eq(userSessions.telegramUserId, ctx.telegramUserId))
+      .limit(1);
+
+    const state = session[0]?.sessionData as WizardState | undefined;
+    const definition =
+      state && definitions.find((candidate) => candidate.id === state.wizard);
+    if (!state || !definition) {
+      return null;
+    }
+
+    const logger = ctx.mastra.getLogger();
+    logger?.info("🔧 [Wizard] Input for wizard:", {
+      wizard: state.wizard,
+      step: state.stepId,
+      control,
+    });
+
+    const clear = () =>
+      db
+        .delete(userSessions)
+        .where(eq(userSessions.id, session[0].id))
+        .returning({ id: userSessions.id });
+
+    // After a timeout a typed message is most likely a new request rather than a late answer
+    if (session[0].expiresAt && session[0].expiresAt < new Date()) {
+      await clear();
+      return {
+        text: t(ctx.language, "wizard.timedOut", {
+          title: t(ctx.language, definition.title),
+        }),
+        passThrough: !control,
+      };
+    }
+
+    if (control === "cancel") {
+      await clear();
+      return {
+        text: t(ctx.language, "wizard.cancelled", {
+          title: t(ctx.language, definition.title),
+        }),
+      };
+    }
+
+    if (control === "back") {
+      const previous = state.history.pop();
+      if (previous) {
+        state.stepId = previous;
+      }
+      await saveState(db, ctx.telegramUserId, state);
+      return render(definition, state, ctx.language);
+    }
+
+    if (state.stepId === CONFIRM_STEP) {
+      if (control !== "confirm") {
+        return render(definition, state, ctx.language);
+      }
+      // Deleting the session claims it, so a double tap on "Save" doesn't run the wizard twice
+      const claimed = await clear();
+      if (claimed.length === 0) {
+        return null;
+      }
+      return definition.finish(ctx, state.values);
+    }
+
+    const step = definition.steps.find(
+      (candidate) => candidate.id === state.stepId,
+    )!;
+    if (control === "skip" && !step.optional) {
+      return render(
+        definition,
+        state,
+        ctx.language,
+        t(ctx.language, "wizard.cannotSkip"),
+      );
+    }
+
+    if (control === "skip") {
+      state.values[step.id] = undefined;
+    } else {
+      const parsed = await step.parse(
+        input.trim(),
+        state.values,
+        db,
+        ctx.language,
+      );
+      if ("error" in parsed) {
+        await saveState(db, ctx.telegramUserId, state);
+        return render(definition, state, ctx.language, parsed.error);
+      }
+      state.values[step.id] = parsed.value;
+    }
+
+    state.history.push(step.id);
+    state.stepId = nextStepId(definition, step.id, state.values);
+    await saveState(db, ctx.telegramUserId, state);
+    return render(definition, state, ctx.language);
+  });
+}
+
+// Sessions left behind by abandoned wizards
+export async function purgeExpiredWizardSessions(
+  db: Pick<PostgresJsDatabase, "delete">,
+): Promise<number> {
+  const rows = await db
+    .delete(userSessions)
+    .where(lt(userSessions.expiresAt, new Date()))
+    .returning({ id: userSessions.id });
+  return rows.length;
+}
@@ -1,6 +1,22 @@
 import { createWorkflow, createStep } from "../inngest";
 import { classManagementAgent } from "../agents/classManagementAgent";
 import { z } from "zod";
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import {
+  LANGUAGE_CONTEXT_KEY,
+  LANGUAGE_NAMES,
+  SUPPORTED_LANGUAGES,
+  DEFAULT_LANGUAGE,
+  type Language,
+} from "../i18n";
+import { ACTOR_CONTEXT_KEY } from "../utils/actor";
+
+const attachmentSchema = z.object({
+  fileId: z.string(),
+  fileType: z.enum(["document", "photo"]),
+  fileName: z.string().optional(),
+  mediaGroupId: z.string().optional(),
+});
 
 const step1 = createStep({
   id: "use-agent",
@@ -11,32 +27,70 @@ const step1 = createStep({
     chatId: z.number(),
     username: z.string().optional(),
     telegramUserId: z.number(),
+    language: z.enum(SUPPORTED_LANGUAGES).default(DEFAULT_LANGUAGE),
+    attachment: attachmentSchema.optional(),
   }),
   outputSchema: z.object({
     response: z.string(),
     chatId: z.number(),
+    alreadySent: z.boolean(),
   }),
   execute: async ({ inputData }) => {
-    const { message, threadId, chatId, username, telegramUserId } = inputData;
+    const {
+      message,
+      threadId,
+      chatId,
+      username,
+      telegramUserId,
+      language,
+      attachment,
+    } = inputData;
 
     // Include user context in the message
-    const contextualMessage = `Сообщение от пользователя: ${message}
+    let contextualMessage = `Сообщение от пользователя: ${message}
 Telegram ID: ${telegramUserId}
 Username: ${username || "не указан"}
-Chat ID: ${chatId}`;
+Chat ID: ${chatId}
+Язык пользователя: ${language} (${LANGUAGE_NAMES[language as Language]})`;
+
+    if (attachment) {
+      contextualMessage += `
+Вложение: ${attachment.fileType}, file_id: ${attachment.fileId}${attachment.fileName ? `, имя файла: ${attachment.fileName}` : ""}`;
+      if (attachment.mediaGroupId) {
+        contextualMessage += `
+Это альбом из нескольких файлов, media_group_id: ${attachment.mediaGroupId}`;
+      }
+    }
+
+    // Tools read the language from the runtime context to word their messages, and the sender
+    // from there too, so the Telegram ID in the message text above is never trusted for access
+    const runtimeContext = new RuntimeContext();
+    runtimeContext.set(LANGUAGE_CONTEXT_KEY, language);
+    runtimeContext.set(ACTOR_CONTEXT_KEY, telegramUserId);
 
-    const { text } = await classManagementAgent.generate(
+    const { text, steps } = await classManagementAgent.generate(
       [{ role: "user", content: contextualMessage }],
       {
         resourceId: "bot",
         threadId: threadId,
         maxSteps: 5,
+        runtimeContext,
       },
     );
 
+    // A reply with inline buttons is sent by the agent itself through the messaging tool
+    const alreadySent = (steps || []).some((step) =>
+      step.toolCalls?.some(
+        (call) =>
+          call.toolName === "sendTelegramMessageTool" &&
+          (call.args as { chatId?: number })?.chatId === chatId,
+      ),
+    );
+
     return {
       response: text,
       chatId: chatId,
+      alreadySent,
     };
   },
 });
@@ -47,12 +101,17 @@ const step2 = createStep({
   inputSchema: z.object({
     response: z.string(),
     chatId: z.number(),
+    alreadySent: z.boolean(),
   }),
   outputSchema: z.object({
     sent: z.boolean(),
   }),
   execute: async ({ inputData }) => {
-    const { response, chatId } = inputData;
+    const { response, chatId, alreadySent } = inputData;
+
+    if (alreadySent) {
+      return { sent: true };
+    }
 
     try {
       const botToken = process.env.TELEGRAM_BOT_TOKEN;
@@ -100,6 +159,8 @@ export const classManagementWorkflow = createWorkflow({
     chatId: z.number(),
     username: z.string().optional(),
     telegramUserId: z.number(),
+    language: z.enum(SUPPORTED_LANGUAGES).default(DEFAULT_LANGUAGE),
+    attachment: attachmentSchema.optional(),
   }),
   outputSchema: z.object({
     sent: z.boolean(),
@@ -0,0 +1,117 @@
+import { describe, it, mock, before, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { Hono } from "hono";
+import { Mastra } from "@mastra/core";
+import {
+  isTelegramWebhookAuthentic,
+  registerTelegramTrigger,
+  TELEGRAM_SECRET_HEADER,
+  type TriggerInfoTelegramOnNewMessage,
+} from "./telegramTriggers";
+
+const SECRET = "3f9c2a7e5b1d4c8f";
+
+describe("isTelegramWebhookAuthentic", () => {
+  it("accepts the configured secret", () => {
+    assert.equal(isTelegramWebhookAuthentic(SECRET, SECRET), true);
+  });
+
+  it("rejects a missing, empty, wrong or different-length secret", () => {
+    assert.equal(isTelegramWebhookAuthentic(undefined, SECRET), false);
+    assert.equal(isTelegramWebhookAuthentic("", SECRET), false);
+    assert.equal(isTelegramWebhookAuthentic("3f9c2a7e5b1d4c8e", SECRET), false);
+    assert.equal(isTelegramWebhookAuthentic(`${SECRET}0`, SECRET), false);
+    assert.equal(isTelegramWebhookAuthentic(SECRET.slice(1), SECRET), false);
+  });
+
+  it("rejects everything while no secret is configured", () => {
+    assert.equal(isTelegramWebhookAuthentic(SECRET, undefined), false);
+    assert.equal(isTelegramWebhookAuthentic("", ""), false);
+  });
+});
+
+describe("POST /webhooks/telegram/action", () => {
+  const handler = mock.fn(
+    async (
+      _mastra: Mastra,
+      _triggerInfo: TriggerInfoTelegramOnNewMessage,
+    ) => {},
+  );
+  const app = new Hono<{ Variables: { mastra: Mastra } }>();
+
+  // Only the route is exercised: the handler is a mock, so no workflow, database or LLM runs
+  before(() => {
+    const [route] = registerTelegramTrigger({
+      triggerType: "telegram/message",
+      handler,
+    });
+    assert.ok("handler" in route);
+
+    const mastra = new Mastra();
+    app.use(async (c, next) => {
+      c.set("mastra", mastra);
+      await next();
+    });
+    app.post(route.path, route.handler);
+  });
+
+  const update = {
+    update_id: 1,
+    message: {
+      message_id: 1,
+      text: "Какое домашнее задание на завтра?",
+      from: { id: 42, username: "student" },
+      chat: { id: 42 },
+    },
+  };
+
+  function post(headers: Record<string, string>) {
+    return app.request("/webhooks/telegram/action", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(update),
+    });
+  }
+
+  beforeEach(() => {
+    process.env.TELEGRAM_WEBHOOK_SECRET = SECRET;
+  });
+
+  afterEach(() => {
+    delete process.env.TELEGRAM_WEBHOOK_SECRET;
+    handler.mock.resetCalls();
+  });
+
+  for (const [name, headers] of [
+    ["without the secret header", {}],
+    ["with a wrong secret", { [TELEGRAM_SECRET_HEADER]: "not-the-secret" }],
+  ] as const) {
+    it(`returns 401 ${name} and never calls the handler`, async () => {
+      const response = await post(headers);
+
+      assert.equal(response.status, 401);
+      assert.equal(handler.mock.callCount(), 0);
+    });
+  }
+
+  it("returns 401 when no secret is configured on the server", async () => {
+    delete process.env.TELEGRAM_WEBHOOK_SECRET;
+    const response = await post({ [TELEGRAM_SECRET_HEADER]: SECRET });
+
+    assert.equal(response.status, 401);
+    assert.equal(handler.mock.callCount(), 0);
+  });
+
+  it("passes an update with the correct secret to the handler", async () => {
+    const response = await post({ [TELEGRAM_SECRET_HEADER]: SECRET });
+
+    assert.equal(response.status, 200);
+    assert.equal(handler.mock.callCount(), 1);
+    const [, triggerInfo] = handler.mock.calls[0].arguments;
+    assert.deepEqual(triggerInfo, {
+      type: "telegram/message",
+      params: { userName: "student", message: update.message.text },
+      payload: update,
+    });
+  });
+});
@@ -1,11 +1,41 @@
 import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { timingSafeEqual } from "node:crypto";
 
 import { registerApiRoute } from "../mastra/inngest";
 import { Mastra } from "@mastra/core";
+import type { IMastraLogger } from "@mastra/core/logger";
 
-if (!process.env.TELEGRAM_BOT_TOKEN) {
-  console.warn(
-    "Trying to initialize Telegram triggers without TELEGRAM_BOT_TOKEN. Can you confirm that the Telegram integration is configured correctly?",
+// Reports a missing Telegram configuration once the Mastra logger is available
+export function warnAboutTelegramConfig(logger?: IMastraLogger): void {
+  if (!process.env.TELEGRAM_BOT_TOKEN) {
+    logger?.warn(
+      "Trying to initialize Telegram triggers without TELEGRAM_BOT_TOKEN. Can you confirm that the Telegram integration is configured correctly?",
+    );
+  }
+
+  if (!process.env.TELEGRAM_WEBHOOK_SECRET) {
+    logger?.warn(
+      "TELEGRAM_WEBHOOK_SECRET is not set, so every Telegram webhook request will be rejected. Run scripts/telegram-webhook.sh to register the webhook with a secret.",
+    );
+  }
+}
+
+export const TELEGRAM_SECRET_HEADER = "X-Telegram-Bot-Api-Secret-Token";
+
+// Telegram echoes the secret given to setWebhook in every update it sends. Anything without it
+// (or without a configured secret at all) did not come from Telegram and must not be trusted.
+export function isTelegramWebhookAuthentic(
+  receivedSecret: string | undefined,
+  expectedSecret: string | undefined,
+): boolean {
+  if (!expectedSecret || !receivedSecret) {
+    return false;
+  }
+
+  const received = Buffer.from(receivedSecret);
+  const expected = Buffer.from(expectedSecret);
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
   );
 }
 
@@ -34,6 +64,20 @@ export function registerTelegramTrigger({
       handler: async (c) => {
         const mastra = c.get("mastra");
         const logger = mastra.getLogger();
+
+        // Checked before the body is even read, so a forged update never reaches the handler
+        if (
+          !isTelegramWebhookAuthentic(
+            c.req.header(TELEGRAM_SECRET_HEADER),
+            process.env.TELEGRAM_WEBHOOK_SECRET,
+          )
+        ) {
+          logger?.warn(
+            "🚫 [Telegram] Rejected webhook request without a valid secret token",
+          );
+          return c.text("Unauthorized", 401);
+        }
+
         try {
           const payload = await c.req.json();
 
@@ -42,8 +86,11 @@ export function registerTelegramTrigger({
           await handler(mastra, {
             type: triggerType,
             params: {
-              userName: payload.message.from.username,
-              message: payload.message.text,
+              // Not every update is a message (e.g. poll_answer, callback_query)
+              userName:
+                payload.message?.from?.username ??
+                payload.callback_query?.from?.username,
+              message: payload.message?.text,
             },
             payload,
           } as TriggerInfoTelegramOnNewMessage);